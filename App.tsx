@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { RefreshCw } from 'lucide-react';
 import { ViewState, User } from './types';
 import { Login } from './components/Login';
 import { Dashboard } from './components/Dashboard';
@@ -6,8 +7,12 @@ import { StockIn } from './components/StockIn';
 import { CashFlow } from './components/CashFlow';
 import { DayClosing } from './components/DayClosing';
 import { ProductManager } from './components/ProductManager';
+import { Suppliers } from './components/Suppliers';
+import { Customers } from './components/Customers';
 import { Settings } from './components/Settings';
 import { Reports } from './components/Reports';
+import { loadBusinessDaySettings, logoutUser, onWorkingDateChange } from './services/supabase';
+import { canAccessView } from './services/permissions';
 
 // Session timeout settings
 const SESSION_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes
@@ -18,11 +23,27 @@ function App() {
   const [user, setUser] = useState<User | null>(null);
   const [showTimeoutWarning, setShowTimeoutWarning] = useState(false);
   const [remainingSeconds, setRemainingSeconds] = useState(60);
+  const [workingDateVersion, setWorkingDateVersion] = useState(0);
+  const [businessDayLoaded, setBusinessDayLoaded] = useState(false);
   
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const warningRef = useRef<NodeJS.Timeout | null>(null);
   const countdownRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Load business day settings so getTodayString() uses the shop's timezone and cutover.
+  // Screens wait for them; if they can't be loaded the defaults are used.
+  useEffect(() => {
+    loadBusinessDaySettings()
+      .catch(error => {
+        console.error('Failed to load business day settings:', error);
+      })
+      .finally(() => setBusinessDayLoaded(true));
+  }, []);
+
+  // Screens load the working date's data on mount, so they are remounted when
+  // it (or where entries for a locked day go) changes
+  useEffect(() => onWorkingDateChange(() => setWorkingDateVersion(v => v + 1)), []);
+
   // Reset all timers
   const resetTimers = useCallback(() => {
     if (timeoutRef.current) clearTimeout(timeoutRef.current);
@@ -104,10 +125,16 @@ function App() {
     resetTimers();
     setUser(null);
     setView(ViewState.LOGIN);
+    logoutUser().catch(error => {
+      console.error('Logout failed:', error);
+    });
   };
 
   const renderView = () => {
-    switch (view) {
+    // Screens the user has no access to fall back to the dashboard
+    const activeView = canAccessView(user, view) ? view : (user ? ViewState.DASHBOARD : ViewState.LOGIN);
+
+    switch (activeView) {
       case ViewState.LOGIN:
         return <Login onLoginSuccess={handleLoginSuccess} />;
       
@@ -167,6 +194,24 @@ function App() {
           />
         );
 
+      case ViewState.SUPPLIERS:
+        return (
+          <Suppliers 
+            onBack={() => setView(ViewState.DASHBOARD)} 
+            onNavigate={setView}
+            currentUser={user}
+          />
+        );
+
+      case ViewState.CUSTOMERS:
+        return (
+          <Customers 
+            onBack={() => setView(ViewState.DASHBOARD)} 
+            onNavigate={setView}
+            currentUser={user}
+          />
+        );
+
       case ViewState.SETTINGS:
         return (
           <Settings 
@@ -190,9 +235,22 @@ function App() {
     }
   };
 
+  if (!businessDayLoaded) {
+    return (
+      <div className="font-sans flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <RefreshCw size={40} className="animate-spin text-blue-500 mx-auto mb-4" />
+          <p className="text-slate-500 font-medium">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="font-sans">
-      {renderView()}
+      <React.Fragment key={workingDateVersion}>
+        {renderView()}
+      </React.Fragment>
       
       {/* Session Timeout Warning Modal */}
       {showTimeoutWarning && (
@@ -2,7 +2,8 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Layout } from './Layout';
 import { Button } from './Button';
 import { Input } from './Input';
-import { addTransaction, fetchTodayExpenses, fetchTodayIncome, returnTransaction, getTodayString, fetchCategories } from '../services/supabase';
+import { addTransaction, fetchTodayExpenses, fetchTodayIncome, returnTransaction, getWorkingDateString, fetchCategories } from '../services/supabase';
+import { can } from '../services/permissions';
 import { ViewState, Transaction, User, Category } from '../types';
 import { RotateCcw, TrendingDown, TrendingUp, AlertCircle, X, Search, ChevronDown } from 'lucide-react';
 
@@ -165,7 +166,7 @@ export const CashFlow: React.FC<CashFlowProps> = ({ onBack, onNavigate, currentU
         sub_category: subCategory || null,
         amount: Number(amount),
         note: note,
-        date_str: getTodayString()
+        date_str: getWorkingDateString()
       });
       
       // Reset form
@@ -180,9 +181,9 @@ export const CashFlow: React.FC<CashFlowProps> = ({ onBack, onNavigate, currentU
       setHistory(data);
       const sum = data.reduce((acc, curr) => acc + (curr.amount || 0), 0);
       setTotal(sum);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error recording transaction:', error);
-      alert('Failed to save.');
+      alert('Failed to save: ' + (error.message || 'Unknown error'));
     } finally {
       setLoading(false);
     }
@@ -534,7 +535,7 @@ export const CashFlow: React.FC<CashFlowProps> = ({ onBack, onNavigate, currentU
                           </p>
                         </div>
 
-                        {!isReturnEntry && !hasBeenReturned && (
+                        {!isReturnEntry && !hasBeenReturned && can(currentUser, 'RETURN_TRANSACTION') && (
                           <button 
                             onClick={() => openReturnModal(item)}
                             className={`p-2 text-slate-300 rounded-lg transition-colors ${
@@ -0,0 +1,502 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Layout } from './Layout';
+import { Button } from './Button';
+import { Input } from './Input';
+import {
+  fetchCustomers,
+  addCustomer,
+  updateCustomer,
+  deleteCustomer,
+  fetchCustomerEntries,
+  fetchTodayCustomerEntries,
+  fetchCustomerBalances,
+  recordCustomerEntry,
+  reverseCustomerEntry,
+  buildCustomerStatement,
+  sumCustomerEntries
+} from '../services/supabase';
+import { can } from '../services/permissions';
+import { Customer, CustomerEntry, CustomerEntryType, ViewState, User } from '../types';
+import { Plus, Pencil, Trash2, X, Save, BookUser, Phone, ShoppingBag, HandCoins, RotateCcw } from 'lucide-react';
+
+interface CustomersProps {
+  onBack: () => void;
+  onNavigate: (view: ViewState) => void;
+  currentUser: User | null;
+}
+
+export const Customers: React.FC<CustomersProps> = ({ onBack, onNavigate, currentUser }) => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [balances, setBalances] = useState<Record<number, number>>({});
+  const [todayEntries, setTodayEntries] = useState<CustomerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [search, setSearch] = useState('');
+
+  // Selected customer statement
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [entries, setEntries] = useState<CustomerEntry[]>([]);
+  const [loadingEntries, setLoadingEntries] = useState(false);
+
+  // Credit sale / repayment modal
+  const [entryType, setEntryType] = useState<CustomerEntryType | null>(null);
+  const [entryAmount, setEntryAmount] = useState('');
+  const [entryNote, setEntryNote] = useState('');
+  const [savingEntry, setSavingEntry] = useState(false);
+
+  // Customer modal
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const canReverse = can(currentUser, 'RETURN_TRANSACTION');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) loadEntries(selectedId);
+  }, [selectedId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [customersData, balancesData, todayData] = await Promise.all([
+        fetchCustomers(),
+        fetchCustomerBalances(),
+        fetchTodayCustomerEntries()
+      ]);
+      setCustomers(customersData);
+      setBalances(balancesData);
+      setTodayEntries(todayData);
+      if (!selectedId && customersData.length > 0) setSelectedId(customersData[0].id);
+    } catch (err) {
+      console.error(err);
+      alert('Failed to load customers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadEntries = async (customerId: number) => {
+    setLoadingEntries(true);
+    try {
+      setEntries(await fetchCustomerEntries({ customerId }));
+    } catch (err) {
+      console.error('Error loading customer entries:', err);
+    } finally {
+      setLoadingEntries(false);
+    }
+  };
+
+  const refreshAfterEntry = async (customerId: number) => {
+    const [balancesData, todayData] = await Promise.all([
+      fetchCustomerBalances(),
+      fetchTodayCustomerEntries()
+    ]);
+    setBalances(balancesData);
+    setTodayEntries(todayData);
+    await loadEntries(customerId);
+  };
+
+  // Newest first for display; balance is computed oldest first
+  const statement = useMemo(() => buildCustomerStatement(entries).reverse(), [entries]);
+  const todayTotals = useMemo(() => sumCustomerEntries(todayEntries), [todayEntries]);
+  const totalOutstanding = useMemo(
+    () => Object.values(balances).reduce((sum: number, b: number) => sum + Math.max(b, 0), 0),
+    [balances]
+  );
+
+  const filteredCustomers = customers.filter(c =>
+    c.name.toLowerCase().includes(search.toLowerCase()) || (c.phone || '').includes(search)
+  );
+
+  const openEntryModal = (type: CustomerEntryType) => {
+    setEntryType(type);
+    setEntryAmount('');
+    setEntryNote('');
+  };
+
+  const handleRecordEntry = async () => {
+    if (!selectedId || !entryType) return;
+    const amount = parseFloat(entryAmount);
+    if (!amount || amount <= 0) {
+      alert('Please enter a valid amount');
+      return;
+    }
+
+    setSavingEntry(true);
+    try {
+      const result = await recordCustomerEntry(selectedId, entryType, amount, entryNote.trim());
+      if (!result.success) {
+        alert(result.message);
+        return;
+      }
+      setEntryType(null);
+      await refreshAfterEntry(selectedId);
+    } catch (error) {
+      console.error('Error recording customer entry:', error);
+      alert('Failed to save entry.');
+    } finally {
+      setSavingEntry(false);
+    }
+  };
+
+  const handleReverse = async (entry: CustomerEntry) => {
+    const reason = prompt('Reason for reversing this entry:');
+    if (!reason) return;
+
+    const result = await reverseCustomerEntry(entry, reason);
+    if (!result.success) {
+      alert(result.message);
+      return;
+    }
+    await refreshAfterEntry(entry.customer_id);
+  };
+
+  const handleOpenModal = (customer?: Customer) => {
+    if (customer) {
+      setEditingId(customer.id);
+      setName(customer.name);
+      setPhone(customer.phone || '');
+      setNotes(customer.notes || '');
+    } else {
+      setEditingId(null);
+      setName('');
+      setPhone('');
+      setNotes('');
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setActionLoading(true);
+    try {
+      const payload = {
+        name: name.trim(),
+        phone: phone.trim() || null,
+        notes: notes.trim() || null
+      };
+
+      if (editingId) {
+        await updateCustomer(editingId, payload);
+      } else {
+        const created = await addCustomer(payload);
+        setSelectedId(created.id);
+      }
+
+      setIsModalOpen(false);
+      await loadData();
+    } catch (err: any) {
+      console.error(err);
+      alert(err?.code === '23505' ? 'A customer with this name already exists.' : 'Failed to save customer');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDelete = async (customer: Customer) => {
+    if (!window.confirm(`Delete ${customer.name}?`)) return;
+
+    try {
+      await deleteCustomer(customer.id);
+      if (selectedId === customer.id) {
+        setSelectedId(null);
+        setEntries([]);
+      }
+      await loadData();
+    } catch (err: any) {
+      console.error(err);
+      alert(err?.code === '23503'
+        ? 'This customer has credit history and cannot be deleted.'
+        : 'Failed to delete customer');
+    }
+  };
+
+  const selectedCustomer = customers.find(c => c.id === selectedId);
+  const selectedBalance = selectedId ? balances[selectedId] || 0 : 0;
+
+  return (
+    <Layout
+      title="Customer Credit"
+      onBack={onBack}
+      activeView={ViewState.CUSTOMERS}
+      onNavigate={onNavigate}
+      currentUser={currentUser}
+    >
+      <div className="space-y-6 pb-24">
+        {/* Today's credit summary */}
+        <div className="grid grid-cols-3 gap-3">
+          <div className="bg-orange-50 rounded-2xl p-4 border border-orange-100">
+            <p className="text-[10px] text-orange-600 font-bold uppercase">Credit Sales Today</p>
+            <p className="text-lg font-bold text-orange-700">Rs {todayTotals.creditSales.toLocaleString()}</p>
+          </div>
+          <div className="bg-emerald-50 rounded-2xl p-4 border border-emerald-100">
+            <p className="text-[10px] text-emerald-600 font-bold uppercase">Repayments Today</p>
+            <p className="text-lg font-bold text-emerald-700">Rs {todayTotals.repayments.toLocaleString()}</p>
+          </div>
+          <div className="bg-white rounded-2xl p-4 border border-slate-200">
+            <p className="text-[10px] text-slate-500 font-bold uppercase">Total Udhaar</p>
+            <p className="text-lg font-bold text-slate-800">Rs {totalOutstanding.toLocaleString()}</p>
+          </div>
+        </div>
+
+        {/* Header Action */}
+        <div className="flex justify-between items-center gap-3">
+          <input
+            type="text"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Search name or phone..."
+            className="flex-1 max-w-xs px-4 py-2 rounded-xl border border-slate-200 bg-white text-sm outline-none focus:border-blue-500"
+          />
+          <Button onClick={() => handleOpenModal()} className="px-4 py-2 text-sm shadow-md">
+            <Plus size={18} /> Add Customer
+          </Button>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          {/* List View */}
+          <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden h-fit">
+            {loading ? (
+              <div className="p-8 text-center text-slate-400">Loading customers...</div>
+            ) : filteredCustomers.length === 0 ? (
+              <div className="p-12 text-center text-slate-400">
+                {customers.length === 0 ? 'No customers yet. Add one to start recording credit.' : 'No matching customers'}
+              </div>
+            ) : (
+              <div className="divide-y divide-slate-100">
+                {filteredCustomers.map(c => (
+                  <div
+                    key={c.id}
+                    onClick={() => setSelectedId(c.id)}
+                    className={`p-4 transition-colors flex items-center justify-between cursor-pointer ${selectedId === c.id ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <div className="flex items-center gap-4 min-w-0">
+                      <div className="w-10 h-10 rounded-xl bg-blue-50 text-blue-600 flex items-center justify-center flex-shrink-0">
+                        <BookUser size={18} />
+                      </div>
+                      <div className="min-w-0">
+                        <h3 className="font-bold text-slate-800 truncate">{c.name}</h3>
+                        {c.phone && <p className="text-xs text-slate-400 truncate">{c.phone}</p>}
+                        {(balances[c.id] || 0) !== 0 && (
+                          <p className={`text-xs font-bold ${balances[c.id] > 0 ? 'text-orange-600' : 'text-emerald-600'}`}>
+                            {balances[c.id] > 0
+                              ? `Owes Rs ${balances[c.id].toLocaleString()}`
+                              : `Advance Rs ${Math.abs(balances[c.id]).toLocaleString()}`}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleOpenModal(c); }}
+                        className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      >
+                        <Pencil size={18} />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDelete(c); }}
+                        className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Customer Statement */}
+          {selectedCustomer && (
+            <div className="space-y-4">
+              <div className="bg-white rounded-3xl border border-slate-200 shadow-sm p-5">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="text-lg font-bold text-slate-800">{selectedCustomer.name}</h3>
+                    {selectedCustomer.phone && (
+                      <a href={`tel:${selectedCustomer.phone}`} className="text-sm text-blue-600 flex items-center gap-1 mt-0.5">
+                        <Phone size={14} /> {selectedCustomer.phone}
+                      </a>
+                    )}
+                    {selectedCustomer.notes && <p className="text-xs text-slate-400 mt-1">{selectedCustomer.notes}</p>}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-[10px] font-bold uppercase text-slate-500">
+                      {selectedBalance >= 0 ? 'Owes' : 'Advance'}
+                    </p>
+                    <p className={`text-2xl font-bold ${selectedBalance > 0 ? 'text-orange-600' : 'text-emerald-600'}`}>
+                      Rs {Math.abs(selectedBalance).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 mt-4">
+                  <Button variant="outline" onClick={() => openEntryModal('SALE')} className="text-sm">
+                    <ShoppingBag size={16} /> Credit Sale
+                  </Button>
+                  <Button onClick={() => openEntryModal('PAYMENT')} className="text-sm">
+                    <HandCoins size={16} /> Repayment
+                  </Button>
+                </div>
+              </div>
+
+              {/* Ledger */}
+              <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+                <h4 className="px-4 py-3 text-xs font-bold uppercase text-slate-500 border-b border-slate-100">Statement</h4>
+                {loadingEntries ? (
+                  <div className="h-40 bg-white animate-pulse"></div>
+                ) : statement.length === 0 ? (
+                  <p className="p-6 text-center text-xs text-slate-400">No credit sales or repayments yet</p>
+                ) : (
+                  <div className="divide-y divide-slate-100">
+                    {statement.map(line => (
+                      <div
+                        key={line.id}
+                        className={`px-4 py-2 flex items-center justify-between gap-3 text-sm ${line.has_been_returned ? 'opacity-50' : ''}`}
+                      >
+                        <div className="min-w-0">
+                          <p className="text-slate-700 truncate">
+                            <span className={`text-[10px] font-bold uppercase mr-2 px-1.5 py-0.5 rounded ${line.is_return
+                              ? 'bg-red-100 text-red-600'
+                              : line.type === 'PAYMENT'
+                                ? 'bg-emerald-100 text-emerald-700'
+                                : 'bg-orange-100 text-orange-700'
+                              }`}>
+                              {line.is_return ? 'Reversed' : line.type === 'PAYMENT' ? 'Paid' : 'Credit'}
+                            </span>
+                            {line.is_return ? line.return_reason : line.note}
+                          </p>
+                          <p className="text-[10px] text-slate-400">{line.date_str}</p>
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <div className="text-right">
+                            <p className={`font-bold ${line.type === 'PAYMENT' ? 'text-emerald-600' : 'text-slate-800'}`}>
+                              {(line.type === 'SALE') === (line.amount > 0) ? '+' : '-'} Rs {Math.abs(line.amount).toLocaleString()}
+                            </p>
+                            <p className="text-[10px] text-slate-400">Bal Rs {line.balance.toLocaleString()}</p>
+                          </div>
+                          {canReverse && !line.is_return && !line.has_been_returned && (
+                            <button
+                              onClick={() => handleReverse(line)}
+                              title="Reverse entry"
+                              className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            >
+                              <RotateCcw size={14} />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Credit Sale / Repayment Modal */}
+      {entryType && selectedCustomer && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white w-full max-w-md rounded-3xl p-6 shadow-2xl animate-in zoom-in-95 duration-200">
+            <div className="flex justify-between items-center mb-6">
+              <div>
+                <h3 className="text-xl font-bold text-slate-800">
+                  {entryType === 'SALE' ? 'Credit Sale' : 'Repayment'} - {selectedCustomer.name}
+                </h3>
+                <p className="text-xs text-slate-400">
+                  {entryType === 'SALE'
+                    ? 'Goods given without cash; not expected in the drawer'
+                    : 'Cash received into the drawer today'}
+                </p>
+              </div>
+              <button onClick={() => setEntryType(null)} className="p-2 text-slate-400 hover:bg-slate-100 rounded-full">
+                <X size={24} />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <Input
+                label="Amount"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="any"
+                value={entryAmount}
+                onChange={e => setEntryAmount(e.target.value)}
+                placeholder="Rs"
+                autoFocus
+              />
+              <Input
+                label="Note"
+                value={entryNote}
+                onChange={e => setEntryNote(e.target.value)}
+                placeholder={entryType === 'SALE' ? 'e.g. 2 kg doodh, 1 dahi' : 'e.g. Partial payment'}
+              />
+            </div>
+
+            <div className="pt-6 flex gap-3">
+              <Button type="button" variant="outline" fullWidth onClick={() => setEntryType(null)}>Cancel</Button>
+              <Button fullWidth isLoading={savingEntry} onClick={handleRecordEntry}>
+                <Save size={18} /> Record
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Customer Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white w-full max-w-md rounded-3xl p-6 shadow-2xl animate-in zoom-in-95 duration-200">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-bold text-slate-800">{editingId ? 'Edit Customer' : 'Add New Customer'}</h3>
+              <button onClick={() => setIsModalOpen(false)} className="p-2 text-slate-400 hover:bg-slate-100 rounded-full">
+                <X size={24} />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                label="Customer Name"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                required
+                placeholder="e.g. Bilal (House 12)"
+              />
+
+              <Input
+                label="Phone"
+                type="tel"
+                value={phone}
+                onChange={e => setPhone(e.target.value)}
+                placeholder="e.g. 0300 1234567"
+              />
+
+              <Input
+                label="Notes"
+                value={notes}
+                onChange={e => setNotes(e.target.value)}
+                placeholder="e.g. Pays at month end"
+              />
+
+              <div className="pt-4 flex gap-3">
+                <Button type="button" variant="outline" fullWidth onClick={() => setIsModalOpen(false)}>Cancel</Button>
+                <Button type="submit" fullWidth isLoading={actionLoading} className="shadow-lg">
+                  <Save size={18} /> Save
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+};
@@ -1,8 +1,9 @@
 import React, { useEffect, useState } from 'react';
-import { ViewState, User } from '../types';
+import { ViewState, User, StockLot, LowStockItem } from '../types';
 import { Layout } from './Layout';
-import { PackagePlus, Receipt, Store, TrendingDown, Wallet, HandCoins, AlertTriangle, Sunrise, MinusCircle } from 'lucide-react';
-import { fetchTodayExpenses, fetchTodayClosings, fetchTodayIncome, fetchTodayWithdrawals, supabase } from '../services/supabase';
+import { canAccessView } from '../services/permissions';
+import { PackagePlus, Receipt, Store, TrendingDown, Wallet, HandCoins, AlertTriangle, Sunrise, MinusCircle, CalendarClock, PackageX, Printer } from 'lucide-react';
+import { fetchTodayExpenses, fetchTodayClosings, fetchTodayIncome, fetchTodayWithdrawals, fetchExpiringLots, fetchLowStock, fetchTodayCustomerEntries, sumCustomerEntries, getClosingPayments, getNonCashReceived, supabase, getTodayString, getWorkingDateString } from '../services/supabase';
 
 interface DashboardProps {
   onNavigate: (view: ViewState) => void;
@@ -10,6 +11,47 @@ interface DashboardProps {
   user: User | null;
 }
 
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+// Opens the reorder list on its own page so it prints without the app around it
+const printReorderList = (items: LowStockItem[], dateStr: string) => {
+  const win = window.open('', '_blank', 'width=600,height=700');
+  if (!win) {
+    alert('Popup blocked - allow popups to print the reorder list.');
+    return;
+  }
+
+  const rows = items.map(({ product, onHand, orderQuantity }) => `
+    <tr>
+      <td>${escapeHtml(product.name)}</td>
+      <td>${onHand} ${escapeHtml(product.unit || '')}</td>
+      <td>${product.reorder_point ?? ''}</td>
+      <td>${product.target_level ?? ''}</td>
+      <td><b>${orderQuantity} ${escapeHtml(product.unit || '')}</b></td>
+    </tr>`).join('');
+
+  win.document.write(`<!DOCTYPE html>
+<html><head><title>Reorder List ${dateStr}</title>
+<style>
+  body { font-family: sans-serif; padding: 16px; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; }
+  th { background: #f1f5f9; }
+</style></head>
+<body>
+  <h2>Reorder List</h2>
+  <p>${dateStr}</p>
+  <table>
+    <thead><tr><th>Product</th><th>On Hand</th><th>Reorder At</th><th>Target</th><th>Order</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+};
+
 export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, onLogout, user }) => {
   const [stats, setStats] = useState({
     openingCash: 0,
@@ -25,26 +67,48 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, onLogout, user
   const [loading, setLoading] = useState(true);
   const [hasFinalClosing, setHasFinalClosing] = useState(true);
   const [hasPartialClosing, setHasPartialClosing] = useState(false);
+  const [expiringLots, setExpiringLots] = useState<StockLot[]>([]);
+  const [lowStock, setLowStock] = useState<LowStockItem[]>([]);
 
   useEffect(() => {
     loadDashboardData();
+    loadExpiringLots();
+    loadLowStock();
   }, []);
 
+  const loadLowStock = async () => {
+    try {
+      setLowStock(await fetchLowStock());
+    } catch (error) {
+      console.error("Error loading low stock:", error);
+    }
+  };
+
+  const loadExpiringLots = async () => {
+    try {
+      setExpiringLots(await fetchExpiringLots(3));
+    } catch (error) {
+      console.error("Error loading expiring lots:", error);
+    }
+  };
+
   const loadDashboardData = async () => {
     try {
       setLoading(true);
-      const today = new Date().toISOString().split('T')[0];
+      const today = getWorkingDateString();
 
-      const [expensesData, incomeData, closingsData, withdrawalsData] = await Promise.all([
+      const [expensesData, incomeData, closingsData, withdrawalsData, customerEntries] = await Promise.all([
         fetchTodayExpenses(),
         fetchTodayIncome(),
         fetchTodayClosings(),
-        fetchTodayWithdrawals()
+        fetchTodayWithdrawals(),
+        fetchTodayCustomerEntries()
       ]);
 
       const totalExpenses = expensesData.reduce((acc, curr) => acc + (curr.amount || 0), 0);
       const totalIncome = incomeData.reduce((acc, curr) => acc + (curr.amount || 0), 0);
       const totalWithdrawals = withdrawalsData.reduce((acc, curr) => acc + (curr.amount || 0), 0);
+      const credit = sumCustomerEntries(customerEntries);
 
       // Check closing status for warnings
       const hasFinal = closingsData.some(c => c.closing_type === 'final');
@@ -75,6 +139,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, onLogout, user
       // Get the LATEST closing record
       let totalSales = 0;
       let actualCash = 0;
+      let nonCashReceived = 0;
       let tomorrowOpeningCash: number | null = null;
 
       if (closingsData.length > 0) {
@@ -82,6 +147,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, onLogout, user
         const latestClosing = closingsData.sort((a, b) => (b.id || 0) - (a.id || 0))[0];
         totalSales = latestClosing.total_revenue || 0;
         actualCash = latestClosing.cash_received || 0;
+        nonCashReceived = getNonCashReceived(getClosingPayments(latestClosing));
 
         // Check if tomorrow's opening cash is set
         if (latestClosing.next_day_opening_cash !== null && latestClosing.next_day_opening_cash !== undefined) {
@@ -95,8 +161,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, onLogout, user
         }
       }
 
-      // Expected Cash = Opening Cash + Sales + Income - Expenses - Withdrawals
-      const expectedCash = openingCash + totalSales + totalIncome - totalExpenses - totalWithdrawals;
+      // Expected Cash = Opening Cash + Sales - Credit Sales + Repayments + Income - Expenses - Withdrawals
+      //                 - sales paid by JazzCash/bank/card (not in the drawer)
+      const expectedCash = openingCash + totalSales - credit.creditSales + credit.repayments
+        + totalIncome - totalExpenses - totalWithdrawals - nonCashReceived;
 
       // Loss = Expected - Actual (positive means shortage)
       const loss = expectedCash - actualCash;
@@ -119,24 +187,6 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, onLogout, user
     }
   };
 
-  // Check Permission Helper
-  const canAccess = (view: ViewState) => {
-    if (!user) return false;
-
-    const role = user.role?.toLowerCase() || '';
-    if (role === 'admin' || role === 'owner' || role === 'manager') return true;
-
-    if (user.permissions && user.permissions.length > 0) {
-      const viewLower = view.toLowerCase().replace('_', '');
-      return user.permissions.some(p =>
-        p === view || p.toLowerCase().replace('_', '') === viewLower || p === '*'
-      );
-    }
-
-    const basicTasks = [ViewState.STOCK_IN, ViewState.EXPENSES, ViewState.INCOME, ViewState.CLOSING];
-    return basicTasks.includes(view);
-  };
-
   return (
     <Layout
       title="Dashboard"
@@ -247,7 +297,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, onLogout, user
         )}
 
         {/* Final Closing Warning - Compact */}
-        {!loading && hasPartialClosing && !hasFinalClosing && (
+        {!loading && hasPartialClosing && !hasFinalClosing && canAccessView(user, ViewState.CLOSING) && (
           <button
             onClick={() => onNavigate(ViewState.CLOSING)}
             className="w-full bg-amber-50 border border-amber-300 rounded-xl px-4 py-2.5 flex items-center justify-between hover:bg-amber-100 transition-colors"
@@ -260,6 +310,86 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate, onLogout, user
           </button>
         )}
 
+        {/* Low Stock - at or below the reorder point (opening stock + today's stock in) */}
+        {lowStock.length > 0 && (
+          <div className="bg-white border border-orange-200 rounded-2xl overflow-hidden">
+            <div className="px-4 py-2.5 bg-orange-50 border-b border-orange-100 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <PackageX size={18} className="text-orange-600" />
+                <span className="font-bold text-orange-800 text-sm">Low Stock ({lowStock.length})</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => printReorderList(lowStock, getWorkingDateString())}
+                  className="flex items-center gap-1 text-[10px] font-bold uppercase text-orange-600 hover:text-orange-800"
+                >
+                  <Printer size={12} /> Print list
+                </button>
+                {canAccessView(user, ViewState.STOCK_IN) && (
+                  <button
+                    onClick={() => onNavigate(ViewState.STOCK_IN)}
+                    className="text-[10px] font-bold uppercase text-orange-600 hover:text-orange-800"
+                  >
+                    Stock In →
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="divide-y divide-slate-100">
+              {lowStock.map(({ product, onHand, orderQuantity }) => (
+                <div key={product.id} className="px-4 py-2 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-bold text-slate-800 text-sm truncate">{product.name}</p>
+                    <p className="text-[10px] text-slate-400">
+                      {onHand} {product.unit || ''} on hand • Reorder at {product.reorder_point}
+                    </p>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className="text-xs font-bold text-orange-600">Order {orderQuantity} {product.unit || ''}</p>
+                    {product.target_level != null && (
+                      <p className="text-[10px] text-slate-500">to reach {product.target_level}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Expiring Soon - open lots expiring in the next 3 days */}
+        {expiringLots.length > 0 && (
+          <div className="bg-white border border-rose-200 rounded-2xl overflow-hidden">
+            <div className="px-4 py-2.5 bg-rose-50 border-b border-rose-100 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <CalendarClock size={18} className="text-rose-600" />
+                <span className="font-bold text-rose-800 text-sm">Expiring Soon</span>
+              </div>
+              <span className="text-[10px] text-rose-500 font-bold uppercase">As of last closing</span>
+            </div>
+            <div className="divide-y divide-slate-100">
+              {expiringLots.map(lot => {
+                const expired = (lot.expiry_date || '') < getTodayString();
+                return (
+                  <div key={lot.id} className="px-4 py-2 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-bold text-slate-800 text-sm truncate">{lot.products?.name || 'Product'}</p>
+                      <p className="text-[10px] text-slate-400">
+                        {lot.batch_code ? `Batch ${lot.batch_code} • ` : ''}Received {lot.received_date}
+                      </p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <p className={`text-xs font-bold ${expired ? 'text-red-600' : 'text-rose-600'}`}>
+                        {expired ? 'Expired' : 'Expires'} {lot.expiry_date}
+                      </p>
+                      <p className="text-[10px] text-slate-500">{lot.quantity_remaining} {lot.products?.unit || ''} left</p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
       </div>
     </Layout>
   );
@@ -3,15 +3,44 @@ import { Layout } from './Layout';
 import {
   fetchProducts,
   fetchTodayStockIn,
+  fetchTodayAdjustments,
+  sumQuantityByProduct,
+  fetchTodayWastage,
+  recordWastage,
+  returnTransaction,
+  WASTAGE_REASONS,
+  getReasonLabel,
   fetchTodayClosings,
   fetchTodayExpenses,
   fetchTodayIncome,
   fetchTodayWithdrawals,
   addCashWithdrawal,
+  fetchTodayCustomerEntries,
+  sumCustomerEntries,
+  loadPaymentMethods,
+  getClosingPayments,
+  getNonCashReceived,
+  CASH_PAYMENT_METHOD,
+  CASH_DENOMINATIONS,
+  getCashCountTotal,
+  getClosingCashCount,
+  fetchTodayShifts,
+  fetchRunningShifts,
+  fetchShiftCashiers,
+  openShift,
+  closeShift,
+  reopenFinalClosing,
+  performDailyClosing,
   supabase,
-  getTodayString
+  getTodayString,
+  getWorkingDateString,
+  isBackdated,
+  fetchEarliestOpenDay,
+  setWorkingDate,
+  saveNextDayOpeningCash
 } from '../services/supabase';
-import { Product, ViewState, User, DailyClosing, CashWithdrawal } from '../types';
+import { can, isAdminUser } from '../services/permissions';
+import { Product, ViewState, User, DailyClosing, CashWithdrawal, Transaction, WastageReason, ClosingStockItem, PaymentMethod, CashCount, Shift } from '../types';
 import {
   Wallet,
   Package,
@@ -28,7 +57,12 @@ import {
   MinusCircle,
   X,
   Plus,
-  Sunrise
+  Sunrise,
+  Trash2,
+  RotateCcw,
+  Calculator,
+  UserCheck,
+  ArrowRightLeft
 } from 'lucide-react';
 
 interface DayClosingProps {
@@ -41,22 +75,31 @@ interface StockItem {
   product: Product;
   opening: number;
   stockIn: number;
+  adjustment: number; // net ADJUSTMENT quantity recorded today (Settings > Stock)
+  wastage: number;    // quantity written off today, not counted as sold
   available: number;
   remaining: string;
   sold: number;
 }
 
+const formatShiftTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
 export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, currentUser }) => {
   // Data State
   const [stockItems, setStockItems] = useState<StockItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [locking, setLocking] = useState(false);
+  const [reopening, setReopening] = useState(false);
 
   // Today's Summary (auto-calculated)
   const [todaySales, setTodaySales] = useState(0);
   const [todayExpenses, setTodayExpenses] = useState(0);
   const [todayIncome, setTodayIncome] = useState(0);
+  // Customer credit (udhaar): goods given without cash / cash paid back
+  const [creditSales, setCreditSales] = useState(0);
+  const [creditRepayments, setCreditRepayments] = useState(0);
 
   // Opening Cash - loaded from previous day's next_day_opening_cash
   const [openingCash, setOpeningCash] = useState<number>(0);
@@ -67,6 +110,14 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
 
   // User Input
   const [cashInDrawer, setCashInDrawer] = useState('');
+  // Received through JazzCash, bank, card etc. (method id -> amount)
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [otherReceived, setOtherReceived] = useState<Record<string, string>>({});
+
+  // Denomination counter (note value -> number of notes, as typed)
+  const [showCashCounter, setShowCashCounter] = useState(false);
+  const [noteCounts, setNoteCounts] = useState<Record<number, string>>({});
+  const [coinsAmount, setCoinsAmount] = useState('');
 
   // Cash Withdrawals
   const [withdrawals, setWithdrawals] = useState<CashWithdrawal[]>([]);
@@ -75,6 +126,27 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
   const [withdrawReason, setWithdrawReason] = useState('');
   const [withdrawing, setWithdrawing] = useState(false);
 
+  // Shifts
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [shiftFloat, setShiftFloat] = useState('');
+  const [startingShift, setStartingShift] = useState(false);
+  const [showHandoverModal, setShowHandoverModal] = useState(false);
+  const [cashiers, setCashiers] = useState<{ id: number; name: string }[]>([]);
+  const [handoverTo, setHandoverTo] = useState<number | ''>('');
+  const [handoverNotes, setHandoverNotes] = useState('');
+  const [handingOver, setHandingOver] = useState(false);
+  const [staleShifts, setStaleShifts] = useState<Shift[]>([]);
+  const [endingShiftId, setEndingShiftId] = useState<number | null>(null);
+
+  // Wastage
+  const [wastage, setWastage] = useState<Transaction[]>([]);
+  const [showWastageModal, setShowWastageModal] = useState(false);
+  const [wastageProductId, setWastageProductId] = useState<number | ''>('');
+  const [wastageQuantity, setWastageQuantity] = useState('');
+  const [wastageReason, setWastageReason] = useState<WastageReason>('EXPIRED');
+  const [wastageNote, setWastageNote] = useState('');
+  const [savingWastage, setSavingWastage] = useState(false);
+
   // Closing Status
   const [existingClosing, setExistingClosing] = useState<DailyClosing | null>(null);
   const [isLocked, setIsLocked] = useState(false);
@@ -97,18 +169,29 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
     setLoading(true);
     setJustSavedClosing(null); // Clear just-saved data on reload
     try {
-      const today = getTodayString();
+      const today = getWorkingDateString();
 
       // Fetch all data in parallel
-      const [products, stockInData, expensesData, incomeData, closingsData, withdrawalsData] = await Promise.all([
+      const [products, stockInData, adjustmentsData, wastageData, expensesData, incomeData, closingsData, withdrawalsData, customerEntries, methods, shiftsData, runningShiftsData] = await Promise.all([
         fetchProducts(),
-        fetchTodayStockIn(),
+        fetchTodayStockIn(true),
+        fetchTodayAdjustments(),
+        fetchTodayWastage(),
         fetchTodayExpenses(),
         fetchTodayIncome(),
         fetchTodayClosings(),
-        fetchTodayWithdrawals()
+        fetchTodayWithdrawals(),
+        fetchTodayCustomerEntries(),
+        loadPaymentMethods(),
+        isBackdated() ? Promise.resolve([]) : fetchTodayShifts(),
+        fetchRunningShifts()
       ]);
 
+      const adjustments = sumQuantityByProduct(adjustmentsData);
+      // Reversals are negative rows, so the sum is the net quantity wasted
+      const wasted = sumQuantityByProduct(wastageData);
+      setWastage(wastageData);
+
       // Calculate totals (returned items have negative amounts, so sum works correctly)
       const totalExpenses = expensesData.reduce((sum, e) => sum + (e.amount || 0), 0);
       const totalIncome = incomeData.reduce((sum, i) => sum + (i.amount || 0), 0);
@@ -117,6 +200,13 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
       setTodayIncome(totalIncome);
       setWithdrawals(withdrawalsData);
 
+      const credit = sumCustomerEntries(customerEntries);
+      setCreditSales(credit.creditSales);
+      setCreditRepayments(credit.repayments);
+      setPaymentMethods(methods);
+      setShifts(shiftsData);
+      setStaleShifts(runningShiftsData.filter(s => s.date_str !== getTodayString()));
+
       // Check for existing closing
       const latestClosing = closingsData.length > 0 ? closingsData[0] : null;
       setExistingClosing(latestClosing);
@@ -156,6 +246,22 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
       if (latestClosing) {
         setIsLocked(latestClosing.closing_type === 'final');
         setCashInDrawer(latestClosing.cash_received?.toString() || '');
+        const savedPayments = getClosingPayments(latestClosing);
+        const savedOther: Record<string, string> = {};
+        Object.keys(savedPayments)
+          .filter(id => id !== CASH_PAYMENT_METHOD)
+          .forEach(id => { savedOther[id] = savedPayments[id].toString(); });
+        setOtherReceived(savedOther);
+
+        const savedCount = getClosingCashCount(latestClosing);
+        if (savedCount) {
+          const counts: Record<number, string> = {};
+          Object.keys(savedCount.counts).forEach(note => {
+            counts[Number(note)] = savedCount.counts[Number(note)].toString();
+          });
+          setNoteCounts(counts);
+          setCoinsAmount(savedCount.coins ? savedCount.coins.toString() : '');
+        }
         setLastSaved(new Date(latestClosing.created_at || '').toLocaleTimeString('en-US', {
           hour: '2-digit',
           minute: '2-digit'
@@ -186,18 +292,23 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
 
         // Build stock items with saved values
         const items: StockItem[] = products.map(product => {
+          // Net of returned stock-in (returns carry a negative quantity)
           const productStockIn = stockInData
-            .filter(s => s.product_id === product.id && !s.is_return)
+            .filter(s => s.product_id === product.id)
             .reduce((sum, s) => sum + (s.quantity || 0), 0);
 
           const opening = product.current_opening_stock || 0;
-          const available = opening + productStockIn;
+          const adjustment = adjustments[product.id] || 0;
+          const productWastage = wasted[product.id] || 0;
+          const available = opening + productStockIn + adjustment - productWastage;
           const savedRemaining = savedStock[product.id!];
 
           return {
             product,
             opening,
             stockIn: productStockIn,
+            adjustment,
+            wastage: productWastage,
             available,
             remaining: savedRemaining !== undefined ? savedRemaining.toString() : '',
             sold: savedRemaining !== undefined ? available - savedRemaining : 0
@@ -220,17 +331,22 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
       } else {
         // No existing closing - fresh start
         const items: StockItem[] = products.map(product => {
+          // Net of returned stock-in (returns carry a negative quantity)
           const productStockIn = stockInData
-            .filter(s => s.product_id === product.id && !s.is_return)
+            .filter(s => s.product_id === product.id)
             .reduce((sum, s) => sum + (s.quantity || 0), 0);
 
           const opening = product.current_opening_stock || 0;
-          const available = opening + productStockIn;
+          const adjustment = adjustments[product.id] || 0;
+          const productWastage = wasted[product.id] || 0;
+          const available = opening + productStockIn + adjustment - productWastage;
 
           return {
             product,
             opening,
             stockIn: productStockIn,
+            adjustment,
+            wastage: productWastage,
             available,
             remaining: '',
             sold: 0
@@ -270,11 +386,63 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
     }));
   };
 
+  const totalAdjustment = useMemo(() => {
+    return stockItems.reduce((sum, i) => sum + i.adjustment, 0);
+  }, [stockItems]);
+
+  const totalWastage = useMemo(() => {
+    return stockItems.reduce((sum, i) => sum + i.wastage, 0);
+  }, [stockItems]);
+
   // Total withdrawals
   const totalWithdrawals = useMemo(() => {
     return withdrawals.reduce((sum, w) => sum + (w.amount || 0), 0);
   }, [withdrawals]);
 
+  // Non-cash payment methods configured in Settings
+  const otherMethods = useMemo(
+    () => paymentMethods.filter(m => m.id !== CASH_PAYMENT_METHOD),
+    [paymentMethods]
+  );
+
+  // Per-method receipts as saved with the closing (blank methods left out)
+  const payments = useMemo(() => {
+    const result: Record<string, number> = { [CASH_PAYMENT_METHOD]: parseFloat(cashInDrawer) || 0 };
+    Object.keys(otherReceived).forEach(id => {
+      const amount = parseFloat(otherReceived[id]);
+      if (amount) result[id] = amount;
+    });
+    return result;
+  }, [cashInDrawer, otherReceived]);
+
+  const nonCashReceived = useMemo(() => getNonCashReceived(payments), [payments]);
+
+  // Counted notes; null when the drawer wasn't counted note by note
+  const counterCashCount = useMemo((): CashCount | null => {
+    const counts: Record<number, number> = {};
+    CASH_DENOMINATIONS.forEach(note => {
+      const count = parseInt(noteCounts[note]);
+      if (count > 0) counts[note] = count;
+    });
+    const coins = parseFloat(coinsAmount) || 0;
+    if (Object.keys(counts).length === 0 && !coins) return null;
+    return { counts, coins };
+  }, [noteCounts, coinsAmount]);
+
+  // Only saved while it still adds up to the cash entered
+  const cashCount = useMemo(() => {
+    if (!counterCashCount) return null;
+    return getCashCountTotal(counterCashCount) === (parseFloat(cashInDrawer) || 0) ? counterCashCount : null;
+  }, [counterCashCount, cashInDrawer]);
+
+  const updateCashCounter = (counts: Record<number, string>, coins: string) => {
+    setNoteCounts(counts);
+    setCoinsAmount(coins);
+    const total = CASH_DENOMINATIONS.reduce((sum, note) => sum + note * (parseInt(counts[note]) || 0), 0)
+      + (parseFloat(coins) || 0);
+    setCashInDrawer(total ? total.toString() : '');
+  };
+
   // Calculate totals - WITH OPENING CASH
   const calculations = useMemo(() => {
     // Calculate sales from stock
@@ -286,8 +454,10 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
       return sum;
     }, 0);
 
-    // Expected Cash = Opening Cash + Sales + Income - Expenses - Withdrawals
-    const expectedCash = openingCash + salesFromStock + todayIncome - todayExpenses - totalWithdrawals;
+    // Expected Cash = Opening Cash + Sales - Credit Sales + Repayments + Income - Expenses - Withdrawals
+    //                 - sales paid by other methods (only cash is in the drawer)
+    const expectedCash = openingCash + salesFromStock - creditSales + creditRepayments
+      + todayIncome - todayExpenses - totalWithdrawals - nonCashReceived;
     const actualCash = parseFloat(cashInDrawer) || 0;
     const difference = actualCash - expectedCash;
 
@@ -301,7 +471,7 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
       hasExtra: difference > 0,
       isMatch: Math.abs(difference) < 1 // Allow Rs 1 tolerance
     };
-  }, [stockItems, todayIncome, todayExpenses, cashInDrawer, totalWithdrawals, openingCash]);
+  }, [stockItems, todayIncome, todayExpenses, cashInDrawer, totalWithdrawals, openingCash, creditSales, creditRepayments, nonCashReceived]);
 
   // Handle cash withdrawal
   const handleWithdraw = async () => {
@@ -339,6 +509,74 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
     }
   };
 
+  // Re-read wastage and update availability without losing counts typed so far
+  const refreshWastage = async () => {
+    const wastageData = await fetchTodayWastage();
+    const wasted = sumQuantityByProduct(wastageData);
+    setWastage(wastageData);
+
+    setStockItems(prev => prev.map(item => {
+      const productWastage = wasted[item.product.id] || 0;
+      const available = item.available + item.wastage - productWastage;
+      if (item.remaining === '') {
+        return { ...item, wastage: productWastage, available };
+      }
+      const remaining = Math.min(parseInt(item.remaining), Math.max(0, available));
+      return {
+        ...item,
+        wastage: productWastage,
+        available,
+        remaining: remaining.toString(),
+        sold: available - remaining
+      };
+    }));
+  };
+
+  const openWastageModal = () => {
+    setWastageProductId('');
+    setWastageQuantity('');
+    setWastageReason('EXPIRED');
+    setWastageNote('');
+    setShowWastageModal(true);
+  };
+
+  const handleRecordWastage = async () => {
+    const item = stockItems.find(i => i.product.id === wastageProductId);
+    const quantity = parseFloat(wastageQuantity);
+    if (!item || !quantity || quantity <= 0) {
+      alert('Please select a product and enter a valid quantity');
+      return;
+    }
+    if (quantity > item.available) {
+      alert(`Only ${item.available} ${item.product.unit || ''} available for ${item.product.name}`);
+      return;
+    }
+
+    setSavingWastage(true);
+    try {
+      await recordWastage(item.product, quantity, wastageReason, wastageNote.trim());
+      await refreshWastage();
+      setShowWastageModal(false);
+    } catch (error: any) {
+      console.error('Wastage error:', error);
+      alert('Failed to record wastage: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSavingWastage(false);
+    }
+  };
+
+  const handleReverseWastage = async (entry: Transaction) => {
+    const reason = window.prompt('Reason for reversing this wastage entry?');
+    if (!reason?.trim()) return;
+
+    const result = await returnTransaction(entry, reason.trim());
+    if (!result.success) {
+      alert(result.message);
+      return;
+    }
+    await refreshWastage();
+  };
+
   // Save first-time opening cash
   const handleSaveFirstTimeOpening = async () => {
     const amount = parseFloat(firstTimeOpeningCash);
@@ -349,7 +587,7 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
 
     setSavingFirstTimeOpening(true);
     try {
-      const today = getTodayString();
+      const today = getWorkingDateString();
 
       if (existingClosing?.id) {
         // Update existing record
@@ -399,11 +637,8 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
     try {
       // Update today's closing record with next_day_opening_cash
       if (existingClosing?.id) {
-        const { error } = await supabase
-          .from('daily_closings')
-          .update({ next_day_opening_cash: amount })
-          .eq('id', existingClosing.id);
-        if (error) throw error;
+        const result = await saveNextDayOpeningCash(existingClosing, amount);
+        if (!result.success) throw new Error(result.message);
         setNextDayOpeningSaved(true);
       }
     } catch (error: any) {
@@ -421,6 +656,137 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
     return hasAnyStock || hasCash;
   }, [stockItems, cashInDrawer]);
 
+  // Shifts: the running one and those already handed over
+  const runningShift = useMemo(() => shifts.find(s => !s.closed_at) || null, [shifts]);
+  const closedShifts = useMemo(() => shifts.filter(s => s.closed_at), [shifts]);
+
+  // Running shift's share of today's figures (day totals less the last handover)
+  const shiftPreview = useMemo(() => {
+    if (!runningShift) return null;
+    const previous = closedShifts[closedShifts.length - 1];
+    const dayNetCash = calculations.expectedCash - openingCash;
+    const expected = runningShift.opening_float + dayNetCash - (previous?.day_net_cash || 0);
+    return {
+      sales: calculations.sales - (previous?.day_sales || 0),
+      dayNetCash,
+      expected,
+      variance: calculations.actualCash - expected
+    };
+  }, [runningShift, closedShifts, calculations, openingCash]);
+
+  // Handover needs a full stock count and cash count
+  const canHandover = useMemo(() => {
+    return stockItems.every(item => item.remaining !== '') && cashInDrawer !== '';
+  }, [stockItems, cashInDrawer]);
+
+  const handleStartShift = async () => {
+    setStartingShift(true);
+    try {
+      const float = shiftFloat === '' ? openingCash : parseFloat(shiftFloat) || 0;
+      const result = await openShift(float);
+      if (!result.success) {
+        alert(result.message);
+        return;
+      }
+      setShiftFloat('');
+      setShifts(await fetchTodayShifts());
+    } finally {
+      setStartingShift(false);
+    }
+  };
+
+  const openHandoverModal = async () => {
+    setHandoverTo('');
+    setHandoverNotes('');
+    setShowHandoverModal(true);
+    try {
+      setCashiers(await fetchShiftCashiers());
+    } catch (error) {
+      console.error('Error loading cashiers:', error);
+    }
+  };
+
+  // Counts as they are now, kept with the shift
+  const buildShiftCount = (handedTo: number | null, notes?: string) => ({
+    cashCounted: calculations.actualCash,
+    daySales: calculations.sales,
+    dayNetCash: calculations.expectedCash - openingCash,
+    report: {
+      closingStock: stockItems.map(item => ({
+        productId: item.product.id,
+        newOpeningStock: item.remaining === '' ? item.available : parseInt(item.remaining),
+        sold: item.sold
+      })),
+      cashCount: cashCount || undefined,
+      payments
+    },
+    handedTo,
+    notes
+  });
+
+  const handleHandover = async () => {
+    if (!runningShift || !canHandover) return;
+
+    setHandingOver(true);
+    try {
+      const result = await closeShift(
+        runningShift.id,
+        buildShiftCount(handoverTo === '' ? null : handoverTo, handoverNotes.trim())
+      );
+      if (!result.success || !result.shift) {
+        alert(result.message);
+        return;
+      }
+      setShowHandoverModal(false);
+      setShifts(await fetchTodayShifts());
+
+      const variance = result.shift.variance || 0;
+      alert(`${result.message}\n\n` +
+        `Expected: Rs ${(result.shift.expected_cash || 0).toFixed(0)}\n` +
+        `Counted: Rs ${(result.shift.cash_counted || 0).toFixed(0)}\n` +
+        (Math.abs(variance) < 1
+          ? '✓ Match'
+          : `${variance < 0 ? 'Short' : 'Extra'}: Rs ${Math.abs(variance).toFixed(0)} (${result.shift.cashier_name || 'cashier'})`));
+    } catch (error: any) {
+      console.error('Handover error:', error);
+      alert('Handover failed: ' + (error.message || 'Unknown error'));
+    } finally {
+      setHandingOver(false);
+    }
+  };
+
+  // A shift still running from an earlier day: its day's counts are gone, so
+  // it ends with the cash in the drawer only, without sales or variance
+  const handleEndStaleShift = async (shift: Shift) => {
+    const input = window.prompt(
+      `${shift.cashier_name || 'Cashier'} ki ${shift.date_str} wali shift abhi tak chal rahi hai.\n` +
+      'Drawer mein kitna cash hai? (Rs)'
+    );
+    if (input === null) return;
+    const cashCounted = parseFloat(input);
+    if (isNaN(cashCounted) || cashCounted < 0) {
+      alert('Please enter the cash counted.');
+      return;
+    }
+
+    setEndingShiftId(shift.id);
+    try {
+      const result = await closeShift(shift.id, {
+        cashCounted,
+        daySales: null,
+        dayNetCash: null,
+        notes: `Ended on ${getTodayString()}, after its day`
+      });
+      if (!result.success) {
+        alert(result.message);
+        return;
+      }
+      setStaleShifts(prev => prev.filter(s => s.id !== shift.id));
+    } finally {
+      setEndingShiftId(null);
+    }
+  };
+
   // Check if can lock
   const canLock = useMemo(() => {
     const allStockFilled = stockItems.every(item => item.remaining !== '');
@@ -435,10 +801,13 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
 
     setSaving(true);
     try {
-      const today = getTodayString();
-      const closingStock = stockItems.map(item => ({
+      const today = getWorkingDateString();
+      const closingStock: ClosingStockItem[] = stockItems.map(item => ({
         productId: item.product.id,
-        newOpeningStock: item.remaining === '' ? item.available : parseInt(item.remaining)
+        newOpeningStock: item.remaining === '' ? item.available : parseInt(item.remaining),
+        sold: item.sold,
+        salePrice: item.product.sale_price,
+        unitCost: item.product.cost_price ?? null
       }));
 
       const closingData = {
@@ -446,10 +815,11 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
         total_revenue: calculations.sales,
         cash_received: parseFloat(cashInDrawer) || 0,
         total_withdrawals: totalWithdrawals,
+        payments,
         closing_type: 'partial',
         notes: null,
         closed_by: currentUser?.id || null,
-        report_json: JSON.stringify({ closingStock }),
+        report_json: JSON.stringify({ closingStock, cashCount: cashCount || undefined }),
         opening_cash: openingCash // Ensure we keep saving this
       };
 
@@ -492,115 +862,94 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
   const handleLock = async () => {
     if (!canLock || isLocked) return;
 
+    // Days are locked in order: an earlier day with entries has to be locked first
+    let openDay: string | null = null;
+    try {
+      openDay = await fetchEarliestOpenDay(getWorkingDateString());
+    } catch (error) {
+      console.error('Error checking earlier open days:', error);
+    }
+    if (openDay) {
+      if (!can(currentUser, 'BACKDATE_ENTRIES')) {
+        alert(`${openDay} ki entries hain lekin woh din abhi lock nahi hua. Pehle us din ki closing lock karni hogi - manager se rabta karein.`);
+        return;
+      }
+      if (window.confirm(`${openDay} ki entries hain lekin woh din abhi lock nahi hua.\nPehle ${openDay} lock karna hoga.\n\nWorking date ${openDay} par le jayein?`)) {
+        const result = await setWorkingDate(openDay);
+        if (!result.success) alert(result.message);
+      }
+      return;
+    }
+
     const confirmMsg = `🔒 LOCK TODAY'S CLOSING?\n\n` +
       `Opening Cash: Rs ${openingCash.toFixed(0)}\n` +
       `Sales: Rs ${calculations.sales.toFixed(0)}\n` +
+      (creditSales || creditRepayments
+        ? `Credit Sales: Rs ${creditSales.toFixed(0)}\nCredit Repayments: Rs ${creditRepayments.toFixed(0)}\n`
+        : '') +
       `Income: Rs ${todayIncome.toFixed(0)}\n` +
       `Expenses: Rs ${todayExpenses.toFixed(0)}\n` +
       `Withdrawals: Rs ${totalWithdrawals.toFixed(0)}\n` +
+      otherMethods
+        .filter(m => payments[m.id])
+        .map(m => `${m.label}: Rs ${payments[m.id].toFixed(0)}\n`)
+        .join('') +
       `Expected Cash: Rs ${calculations.expectedCash.toFixed(0)}\n` +
       `Cash Received: Rs ${calculations.actualCash.toFixed(0)}\n` +
       `Difference: Rs ${calculations.difference.toFixed(0)}\n\n` +
       `⚠️ This will:\n` +
+      (runningShift ? `• End the running shift (${runningShift.cashier_name || 'cashier'})\n` : '') +
       `• Update stock for tomorrow\n` +
       `• Lock today's closing (no more edits)\n\n` +
       `Are you sure?`;
 
     if (!window.confirm(confirmMsg)) return;
 
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/cc1c725a-f1f7-4843-802a-c9e65cf29fe2',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'DayClosing.tsx:508',message:'handleLock START',data:{calculatedSales:calculations.sales,existingClosingId:existingClosing?.id,existingClosingRevenue:existingClosing?.total_revenue},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-    // #endregion
-
     setLocking(true);
     try {
-      const today = getTodayString();
-      const closingStock = stockItems.map(item => ({
+      // Prices and cost of goods are filled in by the database
+      const closingStock: ClosingStockItem[] = stockItems.map(item => ({
         productId: item.product.id,
-        newOpeningStock: parseInt(item.remaining) || 0
+        newOpeningStock: parseInt(item.remaining) || 0,
+        sold: item.sold
       }));
 
-      // Update product stocks
-      for (const item of closingStock) {
-        await supabase
-          .from('products')
-          .update({ current_opening_stock: item.newOpeningStock })
-          .eq('id', item.productId);
-      }
-
-      const cashReceived = parseFloat(cashInDrawer) || 0;
-
-      const closingData = {
-        date_str: today,
-        total_revenue: calculations.sales,
-        cash_received: cashReceived,
-        total_withdrawals: totalWithdrawals,
-        closing_type: 'final',
-        notes: null,
-        closed_by: currentUser?.id || null,
-        report_json: JSON.stringify({ closingStock }),
-        opening_cash: openingCash // Ensure we keep saving this
-      };
-
-      // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/cc1c725a-f1f7-4843-802a-c9e65cf29fe2',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'DayClosing.tsx:536',message:'BEFORE database save',data:{closingDataTotalRevenue:closingData.total_revenue,isUpdate:!!existingClosing?.id},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-      // #endregion
-
-      if (existingClosing?.id) {
-        const { data: updateResult, error: updateError } = await supabase
-          .from('daily_closings')
-          .update(closingData)
-          .eq('id', existingClosing.id)
-          .select()
-          .single();
-
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/cc1c725a-f1f7-4843-802a-c9e65cf29fe2',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'DayClosing.tsx:543',message:'AFTER database update',data:{updateError:updateError?.message,updateResultTotalRevenue:updateResult?.total_revenue,existingClosingStateRevenue:existingClosing?.total_revenue},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
-
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/cc1c725a-f1f7-4843-802a-c9e65cf29fe2',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'DayClosing.tsx:544',message:'BEFORE state update',data:{willUpdateState:true,newStateRevenue:updateResult?.total_revenue},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
-
-        // CRITICAL FIX: Store saved data immediately for locked screen
-        const savedClosingData = updateResult || { ...existingClosing, ...closingData };
-        setJustSavedClosing(savedClosingData);
-        
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/cc1c725a-f1f7-4843-802a-c9e65cf29fe2',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'DayClosing.tsx:566',message:'UPDATING state with updateResult',data:{updateResultRevenue:updateResult?.total_revenue,savedClosingRevenue:savedClosingData.total_revenue},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
-        
-        setExistingClosing(savedClosingData);
-      } else {
-        const { data } = await supabase
-          .from('daily_closings')
-          .insert([closingData])
-          .select()
-          .single();
-        
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/cc1c725a-f1f7-4843-802a-c9e65cf29fe2',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'DayClosing.tsx:579',message:'AFTER insert',data:{insertDataTotalRevenue:data?.total_revenue},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
-
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/cc1c725a-f1f7-4843-802a-c9e65cf29fe2',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'DayClosing.tsx:585',message:'UPDATING state with insert data',data:{insertDataRevenue:data?.total_revenue},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
+      // Stock roll-forward + final record happen in one DB transaction
+      const result = await performDailyClosing(
+        closingStock,
+        calculations.sales,
+        parseFloat(cashInDrawer) || 0,
+        {
+          totalWithdrawals,
+          closingType: 'final',
+          closedBy: currentUser?.id,
+          openingCash,
+          closingId: existingClosing?.id,
+          payments,
+          cashCount
+        }
+      );
 
-        setJustSavedClosing(data);
-        setExistingClosing(data);
+      if (!result.success || !result.closing) {
+        alert(`Lock failed: ${result.message}\n\nNothing was saved - product stock and today's closing are unchanged.`);
+        return;
       }
 
-      // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/cc1c725a-f1f7-4843-802a-c9e65cf29fe2',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'DayClosing.tsx:595',message:'BEFORE setIsLocked',data:{justSavedClosingRevenue:justSavedClosing?.total_revenue,existingClosingRevenue:existingClosing?.total_revenue},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-      // #endregion
+      // The day is locked; the running shift ends with the same counts
+      if (runningShift) {
+        const shiftResult = await closeShift(runningShift.id, buildShiftCount(null));
+        if (!shiftResult.success) {
+          alert(`Day locked, but the shift could not be ended: ${shiftResult.message}`);
+        }
+        setShifts(await fetchTodayShifts());
+      }
 
+      // Store saved data immediately for locked screen
+      setJustSavedClosing(result.closing);
+      setExistingClosing(result.closing);
       setIsLocked(true);
       setLastSaved(new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }));
 
-      // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/cc1c725a-f1f7-4843-802a-c9e65cf29fe2',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'DayClosing.tsx:562',message:'AFTER setIsLocked',data:{isLockedNow:true},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-      // #endregion
-
     } catch (error: any) {
       console.error('Lock error:', error);
       alert('Lock failed: ' + (error.message || 'Unknown error'));
@@ -609,6 +958,29 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
     }
   };
 
+  // Owner only: unlock today to fix a wrong count, then lock again
+  const handleReopen = async () => {
+    const reason = window.prompt(
+      'Closing kyun reopen kar rahe hain? (reason required)\n\n' +
+      'Stock wapas aaj ki opening par chala jayega aur ye locked version Reports mein rahega.'
+    );
+    if (reason === null) return;
+
+    setReopening(true);
+    try {
+      const result = await reopenFinalClosing(getWorkingDateString(), reason);
+      if (!result.success) {
+        alert(result.message);
+        return;
+      }
+      alert(result.message);
+      setIsLocked(false);
+      await loadData();
+    } finally {
+      setReopening(false);
+    }
+  };
+
   // Loading state
   if (loading) {
     return (
@@ -629,6 +1001,33 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
     );
   }
 
+  const staleShiftsCard = staleShifts.length > 0 && (
+    <div className="bg-amber-50 rounded-2xl border border-amber-200 p-4 space-y-2">
+      {staleShifts.map(shift => (
+        <div key={shift.id} className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 min-w-0">
+            <AlertTriangle size={18} className="text-amber-500 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-amber-800 truncate">
+                {shift.cashier_name || 'Shift'} ki shift ({shift.date_str}) abhi chal rahi hai
+              </p>
+              <p className="text-[10px] text-amber-600">
+                {formatShiftTime(shift.opened_at)} se • Float Rs {shift.opening_float.toFixed(0)}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => handleEndStaleShift(shift)}
+            disabled={endingShiftId === shift.id}
+            className="px-3 py-2 text-xs font-bold bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 flex-shrink-0"
+          >
+            {endingShiftId === shift.id ? <RefreshCw size={14} className="animate-spin" /> : 'End shift'}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+
   // Locked state - Today is closed, can set tomorrow's opening cash
   if (isLocked) {
     // #region agent log
@@ -641,13 +1040,18 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
     const savedSales = closingToUse?.total_revenue || 0;
     const savedCashReceived = closingToUse?.cash_received || 0;
     const savedWithdrawals = closingToUse?.total_withdrawals || 0;
+    const savedPayments = closingToUse ? getClosingPayments(closingToUse) : {};
+    const savedNonCash = getNonCashReceived(savedPayments);
+    const savedCashCount = closingToUse ? getClosingCashCount(closingToUse) : null;
 
     // #region agent log
     fetch('http://127.0.0.1:7242/ingest/cc1c725a-f1f7-4843-802a-c9e65cf29fe2',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'DayClosing.tsx:662',message:'Locked screen calculated values',data:{savedSales,calculationsSales:calculations.sales,usingJustSaved:!!justSavedClosing,justSavedRevenue:justSavedClosing?.total_revenue,existingClosingRevenue:existingClosing?.total_revenue},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
     // #endregion
 
-    // Expected = Opening + Sales + Income - Expenses - Withdrawals (using saved values)
-    const savedExpectedCash = openingCash + savedSales + todayIncome - todayExpenses - savedWithdrawals;
+    // Expected = Opening + Sales - Credit Sales + Repayments + Income - Expenses - Withdrawals
+    //            - non-cash receipts (using saved values)
+    const savedExpectedCash = openingCash + savedSales - creditSales + creditRepayments
+      + todayIncome - todayExpenses - savedWithdrawals - savedNonCash;
     const savedDifference = savedCashReceived - savedExpectedCash;
 
     return (
@@ -665,7 +1069,9 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
               <CheckCircle size={24} className="text-green-600" />
             </div>
             <div>
-              <h2 className="font-bold text-green-800">Today Closed! ✅</h2>
+              <h2 className="font-bold text-green-800">
+                {isBackdated() ? `${getWorkingDateString()} Closed! ✅` : 'Today Closed! ✅'}
+              </h2>
               <p className="text-xs text-green-600">Stock updated for tomorrow</p>
             </div>
           </div>
@@ -734,6 +1140,18 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
                 <span className="text-slate-500">Sales</span>
                 <span className="font-medium text-emerald-600">+ Rs {savedSales}</span>
               </div>
+              {(creditSales !== 0 || creditRepayments !== 0) && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-slate-500">Credit Sales (udhaar)</span>
+                    <span className="font-medium text-orange-600">- Rs {creditSales.toFixed(0)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-500">Credit Repayments</span>
+                    <span className="font-medium text-emerald-600">+ Rs {creditRepayments.toFixed(0)}</span>
+                  </div>
+                </>
+              )}
               <div className="flex justify-between">
                 <span className="text-slate-500">Income</span>
                 <span className="font-medium text-teal-600">+ Rs {todayIncome.toFixed(0)}</span>
@@ -746,6 +1164,14 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
                 <span className="text-slate-500">Withdrawals</span>
                 <span className="font-medium text-red-600">- Rs {savedWithdrawals}</span>
               </div>
+              {Object.keys(savedPayments)
+                .filter(id => id !== CASH_PAYMENT_METHOD && savedPayments[id])
+                .map(id => (
+                  <div key={id} className="flex justify-between">
+                    <span className="text-slate-500">{paymentMethods.find(m => m.id === id)?.label || id}</span>
+                    <span className="font-medium text-violet-600">- Rs {savedPayments[id].toFixed(0)}</span>
+                  </div>
+                ))}
               <div className="border-t border-slate-100 pt-2 flex justify-between">
                 <span className="text-slate-500">Expected</span>
                 <span className="font-bold text-blue-600">Rs {savedExpectedCash.toFixed(0)}</span>
@@ -770,6 +1196,73 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
             </div>
           </div>
 
+          {staleShiftsCard}
+
+          {/* Shifts - Locked */}
+          {closedShifts.length > 0 && (
+            <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+              <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+                <UserCheck size={14} className="text-slate-400" />
+                Shifts
+              </h3>
+              <div className="space-y-2 text-sm">
+                {closedShifts.map(shift => (
+                  <div key={shift.id} className="flex justify-between items-center gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-slate-700 truncate">{shift.cashier_name || 'Unknown'}</p>
+                      <p className="text-[10px] text-slate-400">
+                        {formatShiftTime(shift.opened_at)} - {shift.closed_at ? formatShiftTime(shift.closed_at) : ''} • Sales Rs {(shift.sales || 0).toFixed(0)}
+                      </p>
+                    </div>
+                    <span className={`font-bold text-xs ${(shift.variance || 0) < -0.5 ? 'text-red-600' : (shift.variance || 0) > 0.5 ? 'text-blue-600' : 'text-green-600'}`}>
+                      {Math.abs(shift.variance || 0) < 1
+                        ? '✓'
+                        : `${(shift.variance || 0) < 0 ? '↓' : '↑'} Rs ${Math.abs(shift.variance || 0).toFixed(0)}`}
+                    </span>
+                  </div>
+                ))}
+                {closedShifts.length > 1 && (
+                  <div className="border-t border-slate-100 pt-2 flex justify-between">
+                    <span className="text-slate-500">All shifts</span>
+                    <span className="font-bold text-slate-800">
+                      Sales Rs {closedShifts.reduce((sum, s) => sum + (s.sales || 0), 0).toFixed(0)}
+                      {' • '}
+                      Variance Rs {closedShifts.reduce((sum, s) => sum + (s.variance || 0), 0).toFixed(0)}
+                    </span>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Cash Count - Locked */}
+          {savedCashCount && (
+            <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+              <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+                <Calculator size={14} className="text-slate-400" />
+                Cash Count
+              </h3>
+              <div className="space-y-1 text-sm">
+                {CASH_DENOMINATIONS.filter(note => savedCashCount.counts[note]).map(note => (
+                  <div key={note} className="flex justify-between">
+                    <span className="text-slate-500">Rs {note} × {savedCashCount.counts[note]}</span>
+                    <span className="font-medium text-slate-700">Rs {(note * savedCashCount.counts[note]).toLocaleString()}</span>
+                  </div>
+                ))}
+                {savedCashCount.coins > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-500">Coins</span>
+                    <span className="font-medium text-slate-700">Rs {savedCashCount.coins.toLocaleString()}</span>
+                  </div>
+                )}
+                <div className="border-t border-slate-100 pt-2 flex justify-between">
+                  <span className="text-slate-500">Total</span>
+                  <span className="font-bold text-slate-800">Rs {getCashCountTotal(savedCashCount).toLocaleString()}</span>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Stock Summary - Locked */}
           <div className="bg-slate-50 rounded-2xl border border-slate-200 p-4">
             <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
@@ -789,6 +1282,17 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
             </div>
           </div>
 
+          {isAdminUser(currentUser) && (
+            <button
+              onClick={handleReopen}
+              disabled={reopening}
+              className="w-full px-6 py-3 bg-white border border-red-200 text-red-600 font-bold rounded-xl hover:bg-red-50 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {reopening ? <RefreshCw size={16} className="animate-spin" /> : <RotateCcw size={16} />}
+              Reopen Closing
+            </button>
+          )}
+
           <button
             onClick={onBack}
             className="w-full px-6 py-3 bg-slate-100 text-slate-700 font-bold rounded-xl hover:bg-slate-200 transition-colors"
@@ -826,6 +1330,16 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
           </div>
         )}
 
+        {/* Reopened by the owner - must be locked again */}
+        {(existingClosing?.version || 1) > 1 && (
+          <div className="bg-red-50 border border-red-200 rounded-xl px-4 py-3 flex items-center gap-2 text-red-700">
+            <RotateCcw size={16} className="flex-shrink-0" />
+            <span className="text-sm font-medium">
+              Closing reopened (version {existingClosing?.version}). Correct it and lock the day again.
+            </span>
+          </div>
+        )}
+
         {/* Opening Cash Display - Locked or First Time */}
         {isFirstTimeUser && !openingCashLocked ? (
           // First time user - need to set opening cash
@@ -878,6 +1392,73 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
           </div>
         )}
 
+        {staleShiftsCard}
+
+        {/* Shift - only on the business day itself, not on a missed day */}
+        {isBackdated() ? null : runningShift ? (
+          <div className="bg-indigo-50/50 rounded-2xl border border-indigo-100 p-4">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 min-w-0">
+                <UserCheck size={18} className="text-indigo-500 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-700 truncate">
+                    {runningShift.cashier_name || 'Shift'} ki shift
+                  </p>
+                  <p className="text-[10px] text-slate-400">
+                    {formatShiftTime(runningShift.opened_at)} se • Float Rs {runningShift.opening_float.toFixed(0)}
+                    {shiftPreview && cashInDrawer ? ` • Expected Rs ${shiftPreview.expected.toFixed(0)}` : ''}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={openHandoverModal}
+                className="px-3 py-2 text-xs font-bold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-1 flex-shrink-0"
+              >
+                <ArrowRightLeft size={14} /> Handover
+              </button>
+            </div>
+            {closedShifts.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-indigo-100 space-y-1">
+                {closedShifts.map(shift => (
+                  <div key={shift.id} className="flex justify-between text-[10px] text-slate-500">
+                    <span>{shift.cashier_name || 'Unknown'} • Sales Rs {(shift.sales || 0).toFixed(0)}</span>
+                    <span className={`font-bold ${(shift.variance || 0) < -0.5 ? 'text-red-600' : 'text-slate-600'}`}>
+                      {Math.abs(shift.variance || 0) < 1 ? '✓' : `${(shift.variance || 0) < 0 ? 'Short' : 'Extra'} Rs ${Math.abs(shift.variance || 0).toFixed(0)}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl border border-dashed border-indigo-200 p-4 flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <UserCheck size={18} className="text-indigo-400" />
+              <span className="text-sm font-medium text-slate-600">Shift shuru karein</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-xs">Rs</span>
+                <input
+                  type="number"
+                  value={shiftFloat}
+                  onChange={(e) => setShiftFloat(e.target.value)}
+                  placeholder={(closedShifts[closedShifts.length - 1]?.cash_counted ?? openingCash).toFixed(0)}
+                  title="Opening float"
+                  className="w-24 pl-8 pr-2 py-1.5 text-right font-bold bg-white border border-slate-200 rounded-lg focus:border-indigo-400 outline-none text-xs"
+                />
+              </div>
+              <button
+                onClick={handleStartShift}
+                disabled={startingShift}
+                className="px-3 py-2 text-xs font-bold bg-indigo-100 text-indigo-700 rounded-lg hover:bg-indigo-200 disabled:opacity-50"
+              >
+                {startingShift ? <RefreshCw size={14} className="animate-spin" /> : 'Start'}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Cash Received */}
         <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm">
           <div className="p-4 bg-emerald-50/50">
@@ -885,6 +1466,12 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
               <div className="flex items-center gap-2">
                 <Banknote size={18} className="text-emerald-600" />
                 <span className="text-sm font-medium text-slate-600">Cash Received</span>
+                <button
+                  onClick={() => setShowCashCounter(!showCashCounter)}
+                  className={`text-[10px] font-bold px-1.5 py-0.5 rounded flex items-center gap-1 ${showCashCounter ? 'bg-emerald-600 text-white' : 'bg-emerald-100 text-emerald-700'}`}
+                >
+                  <Calculator size={10} /> Note ginein
+                </button>
               </div>
               <div className="relative">
                 <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-sm">Rs</span>
@@ -898,6 +1485,68 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
               </div>
             </div>
 
+            {/* Denomination counter - fills in Cash Received */}
+            {showCashCounter && (
+              <div className="mt-3 pt-3 border-t border-emerald-200/50 space-y-1.5">
+                {CASH_DENOMINATIONS.map(note => (
+                  <div key={note} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="w-16 font-medium text-slate-600">Rs {note}</span>
+                    <span className="text-slate-400">×</span>
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      min="0"
+                      value={noteCounts[note] || ''}
+                      onChange={(e) => updateCashCounter({ ...noteCounts, [note]: e.target.value }, coinsAmount)}
+                      placeholder="0"
+                      className="w-16 px-2 py-1 text-right font-bold bg-white border border-slate-200 rounded-lg focus:border-emerald-400 outline-none"
+                    />
+                    <span className="flex-1 text-right text-slate-500">
+                      Rs {(note * (parseInt(noteCounts[note]) || 0)).toLocaleString()}
+                    </span>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="w-16 font-medium text-slate-600">Coins</span>
+                  <span className="text-slate-400">Rs</span>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    value={coinsAmount}
+                    onChange={(e) => updateCashCounter(noteCounts, e.target.value)}
+                    placeholder="0"
+                    className="w-16 px-2 py-1 text-right font-bold bg-white border border-slate-200 rounded-lg focus:border-emerald-400 outline-none"
+                  />
+                  <span className="flex-1 text-right text-slate-500">Rs {(parseFloat(coinsAmount) || 0).toLocaleString()}</span>
+                </div>
+                {counterCashCount && !cashCount && (
+                  <p className="text-[10px] text-amber-600">Cash Received badla gaya hai - note count save nahi hoga</p>
+                )}
+              </div>
+            )}
+
+            {/* Other payment methods - not part of the drawer count */}
+            {otherMethods.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-emerald-200/50 space-y-2">
+                {otherMethods.map(method => (
+                  <div key={method.id} className="flex items-center justify-between">
+                    <span className="text-xs font-medium text-slate-500">{method.label}</span>
+                    <div className="relative">
+                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-xs">Rs</span>
+                      <input
+                        type="number"
+                        value={otherReceived[method.id] || ''}
+                        onChange={(e) => setOtherReceived(prev => ({ ...prev, [method.id]: e.target.value }))}
+                        placeholder="0"
+                        className="w-32 pl-9 pr-3 py-1.5 text-right font-bold bg-white border border-slate-200 rounded-lg focus:border-violet-400 outline-none text-xs"
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Expected vs Actual */}
             {cashInDrawer && (
               <div className="mt-3 pt-3 border-t border-emerald-200/50 flex items-center justify-between text-xs">
@@ -937,17 +1586,31 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
           </div>
         </div>
 
+        {/* Customer Credit - only when there was any today */}
+        {(creditSales !== 0 || creditRepayments !== 0) && (
+          <div className="bg-amber-50/50 rounded-xl border border-amber-100 p-3 flex items-center justify-between text-xs">
+            <span className="font-bold text-amber-700 uppercase">Udhaar</span>
+            <span className="text-slate-600">
+              Credit sales <span className="font-bold text-orange-600">- Rs {creditSales.toFixed(0)}</span>
+              {' • '}
+              Repaid <span className="font-bold text-emerald-600">+ Rs {creditRepayments.toFixed(0)}</span>
+            </span>
+          </div>
+        )}
+
         {/* Cash Withdrawals - Compact */}
         {withdrawals.length > 0 && (
           <div className="bg-red-50/50 rounded-xl border border-red-100 p-3">
             <div className="flex items-center justify-between mb-2">
               <span className="text-xs font-bold text-red-600 uppercase">Withdrawals</span>
-              <button
-                onClick={() => setShowWithdrawModal(true)}
-                className="text-xs text-red-600 hover:text-red-700 font-medium"
-              >
-                + Add
-              </button>
+              {can(currentUser, 'RECORD_WITHDRAWAL') && (
+                <button
+                  onClick={() => setShowWithdrawModal(true)}
+                  className="text-xs text-red-600 hover:text-red-700 font-medium"
+                >
+                  + Add
+                </button>
+              )}
             </div>
             <div className="space-y-1">
               {withdrawals.map((w, idx) => (
@@ -961,7 +1624,7 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
         )}
 
         {/* Add Withdrawal Button (when no withdrawals) */}
-        {withdrawals.length === 0 && (
+        {withdrawals.length === 0 && can(currentUser, 'RECORD_WITHDRAWAL') && (
           <button
             onClick={() => setShowWithdrawModal(true)}
             className="w-full flex items-center justify-center gap-2 py-3 bg-slate-50 border border-dashed border-slate-300 rounded-xl text-slate-500 text-sm font-medium hover:bg-slate-100 hover:border-slate-400 transition-all"
@@ -971,6 +1634,52 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
           </button>
         )}
 
+        {/* Wastage - expired/spilled stock, not counted as sold */}
+        {wastage.length > 0 ? (
+          <div className="bg-rose-50/50 rounded-xl border border-rose-100 p-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-bold text-rose-600 uppercase">Wastage</span>
+              <button
+                onClick={openWastageModal}
+                className="text-xs text-rose-600 hover:text-rose-700 font-medium"
+              >
+                + Add
+              </button>
+            </div>
+            <div className="space-y-1">
+              {wastage.map(w => (
+                <div key={w.id} className={`flex items-center justify-between gap-2 text-sm ${w.has_been_returned ? 'opacity-50 line-through' : ''}`}>
+                  <span className="text-slate-600 truncate">
+                    {w.is_return ? 'Reversed: ' : ''}{w.products?.name || 'Product'} · {getReasonLabel(w.reason_code)}
+                  </span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="font-medium text-rose-600">
+                      {w.is_return ? '+' : '-'}{Math.abs(w.quantity || 0)} {w.products?.unit || ''} (Rs {Math.abs(w.amount || 0).toFixed(0)})
+                    </span>
+                    {!w.is_return && !w.has_been_returned && can(currentUser, 'RETURN_TRANSACTION') && (
+                      <button
+                        onClick={() => handleReverseWastage(w)}
+                        className="p-1 text-slate-300 hover:text-rose-600 rounded"
+                        title="Reverse entry"
+                      >
+                        <RotateCcw size={12} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={openWastageModal}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-slate-50 border border-dashed border-slate-300 rounded-xl text-slate-500 text-sm font-medium hover:bg-slate-100 hover:border-slate-400 transition-all"
+          >
+            <Trash2 size={16} />
+            Record Wastage (expired / spilled)
+          </button>
+        )}
+
         {/* Stock Count - Professional Mobile UI */}
         <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm">
           {/* Header with Progress */}
@@ -1020,6 +1729,16 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
                     <span className={`text-sm font-medium ${item.stockIn > 0 ? 'text-blue-600' : 'text-slate-400'}`}>
                       {item.stockIn > 0 ? `+${item.stockIn}` : '0'}
                     </span>
+                    {item.adjustment !== 0 && (
+                      <span className="block text-[10px] font-bold text-purple-600" title="Stock adjustment">
+                        adj {item.adjustment > 0 ? '+' : ''}{item.adjustment}
+                      </span>
+                    )}
+                    {item.wastage !== 0 && (
+                      <span className="block text-[10px] font-bold text-rose-600" title="Wastage">
+                        waste -{item.wastage}
+                      </span>
+                    )}
                   </div>
                   <div className="text-center">
                     <span className="text-sm font-bold text-slate-800">{item.available}</span>
@@ -1063,6 +1782,12 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
                       {item.stockIn > 0 && (
                         <span className="text-blue-600 font-medium">+{item.stockIn}</span>
                       )}
+                      {item.adjustment !== 0 && (
+                        <span className="text-purple-600 font-medium">adj {item.adjustment > 0 ? '+' : ''}{item.adjustment}</span>
+                      )}
+                      {item.wastage !== 0 && (
+                        <span className="text-rose-600 font-medium">-{item.wastage} waste</span>
+                      )}
                       <span className="text-slate-400">=</span>
                       <span className="font-bold text-slate-700">{item.available}</span>
                     </div>
@@ -1109,6 +1834,16 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
               </div>
               <div className="text-center font-medium text-blue-600">
                 +{stockItems.reduce((sum, i) => sum + i.stockIn, 0)}
+                {totalAdjustment !== 0 && (
+                  <span className="block text-[10px] font-bold text-purple-600">
+                    adj {totalAdjustment > 0 ? '+' : ''}{totalAdjustment}
+                  </span>
+                )}
+                {totalWastage !== 0 && (
+                  <span className="block text-[10px] font-bold text-rose-600">
+                    waste -{totalWastage}
+                  </span>
+                )}
               </div>
               <div className="text-center font-bold text-slate-800">
                 {stockItems.reduce((sum, i) => sum + i.available, 0)}
@@ -1126,6 +1861,12 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
               <div className="flex items-center gap-2">
                 <span className="text-amber-600">{stockItems.reduce((sum, i) => sum + i.opening, 0)}</span>
                 <span className="text-blue-600">+{stockItems.reduce((sum, i) => sum + i.stockIn, 0)}</span>
+                {totalAdjustment !== 0 && (
+                  <span className="text-purple-600">adj {totalAdjustment > 0 ? '+' : ''}{totalAdjustment}</span>
+                )}
+                {totalWastage !== 0 && (
+                  <span className="text-rose-600">-{totalWastage} waste</span>
+                )}
                 <span className="text-slate-400">=</span>
                 <span className="font-bold text-slate-700">{stockItems.reduce((sum, i) => sum + i.available, 0)}</span>
               </div>
@@ -1164,21 +1905,256 @@ export const DayClosing: React.FC<DayClosingProps> = ({ onBack, onNavigate, curr
             </button>
 
             {/* Lock Button */}
-            <button
-              onClick={handleLock}
-              disabled={!canLock || locking}
-              className={`flex-[2] flex items-center justify-center gap-2 py-3 rounded-xl font-bold text-sm transition-all ${canLock && !locking
-                ? 'bg-gradient-to-r from-emerald-500 to-emerald-600 text-white shadow-lg shadow-emerald-200/50 hover:shadow-emerald-300/50 active:scale-[0.98]'
-                : 'bg-slate-100 text-slate-400 cursor-not-allowed'
-                }`}
-            >
-              {locking ? <RefreshCw size={16} className="animate-spin" /> : <Lock size={16} />}
-              {locking ? 'Locking...' : 'Lock & Close Day'}
-            </button>
+            {can(currentUser, 'LOCK_FINAL_CLOSING') && (
+              <button
+                onClick={handleLock}
+                disabled={!canLock || locking}
+                className={`flex-[2] flex items-center justify-center gap-2 py-3 rounded-xl font-bold text-sm transition-all ${canLock && !locking
+                  ? 'bg-gradient-to-r from-emerald-500 to-emerald-600 text-white shadow-lg shadow-emerald-200/50 hover:shadow-emerald-300/50 active:scale-[0.98]'
+                  : 'bg-slate-100 text-slate-400 cursor-not-allowed'
+                  }`}
+              >
+                {locking ? <RefreshCw size={16} className="animate-spin" /> : <Lock size={16} />}
+                {locking ? 'Locking...' : 'Lock & Close Day'}
+              </button>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Wastage Modal */}
+      {showWastageModal && (
+        <div className="fixed inset-0 z-[60] flex items-end md:items-center justify-center">
+          <div
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={() => setShowWastageModal(false)}
+          ></div>
+
+          <div className="relative bg-white w-full md:max-w-sm md:rounded-3xl rounded-t-3xl shadow-2xl animate-in slide-in-from-bottom md:zoom-in duration-300">
+            {/* Header */}
+            <div className="px-4 md:px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-gradient-to-r from-rose-50 to-white rounded-t-3xl">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-rose-100 text-rose-600 flex items-center justify-center">
+                  <Trash2 size={20} />
+                </div>
+                <div>
+                  <h2 className="font-bold text-slate-800">Record Wastage</h2>
+                  <p className="text-xs text-slate-500">Kharab / expire maal (sale mein nahi ginna jayega)</p>
+                </div>
+              </div>
+              <button
+                onClick={() => setShowWastageModal(false)}
+                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            {/* Form */}
+            <div className="p-4 md:p-6 space-y-4">
+              <div className="space-y-1.5">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wide">Product</label>
+                <select
+                  value={wastageProductId}
+                  onChange={(e) => setWastageProductId(e.target.value ? Number(e.target.value) : '')}
+                  className="w-full px-4 py-3.5 min-h-[48px] bg-slate-50 border border-slate-200 rounded-xl focus:border-rose-500 focus:bg-white outline-none transition-all text-base"
+                >
+                  <option value="" disabled>-- Choose a product --</option>
+                  {stockItems.map(item => (
+                    <option key={item.product.id} value={item.product.id}>
+                      {item.product.name} ({item.available} {item.product.unit || ''} available)
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wide">Quantity</label>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  value={wastageQuantity}
+                  onChange={(e) => setWastageQuantity(e.target.value)}
+                  placeholder="0"
+                  min="0"
+                  step="any"
+                  className="w-full px-4 py-3.5 min-h-[48px] text-lg font-bold text-center bg-rose-50 border border-rose-200 rounded-xl focus:border-rose-500 focus:bg-white outline-none transition-all"
+                />
+              </div>
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wide">Reason</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {WASTAGE_REASONS.map(r => (
+                    <button
+                      key={r.id}
+                      type="button"
+                      onClick={() => setWastageReason(r.id)}
+                      className={`py-2.5 rounded-xl text-sm font-bold transition-all ${
+                        wastageReason === r.id
+                          ? 'bg-rose-600 text-white shadow-sm'
+                          : 'bg-slate-50 text-slate-600 border border-slate-200'
+                      }`}
+                    >
+                      {r.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wide">Note</label>
+                <input
+                  type="text"
+                  value={wastageNote}
+                  onChange={(e) => setWastageNote(e.target.value)}
+                  placeholder="Optional"
+                  className="w-full px-4 py-3.5 min-h-[48px] bg-slate-50 border border-slate-200 rounded-xl focus:border-rose-500 focus:bg-white outline-none transition-all text-base"
+                />
+              </div>
+
+              {/* Actions */}
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowWastageModal(false)}
+                  className="flex-1 px-4 py-3.5 min-h-[48px] rounded-xl border border-slate-200 text-slate-600 font-bold text-sm hover:bg-slate-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRecordWastage}
+                  disabled={savingWastage || !wastageProductId || !wastageQuantity}
+                  className="flex-1 px-4 py-3.5 min-h-[48px] rounded-xl bg-rose-600 text-white font-bold text-sm hover:bg-rose-700 shadow-lg shadow-rose-200 transition-all disabled:opacity-50"
+                >
+                  {savingWastage ? (
+                    <span className="flex items-center justify-center gap-2">
+                      <RefreshCw size={16} className="animate-spin" />
+                      Saving...
+                    </span>
+                  ) : (
+                    'Save Wastage'
+                  )}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Shift Handover Modal */}
+      {showHandoverModal && runningShift && (
+        <div className="fixed inset-0 z-[60] flex items-end md:items-center justify-center">
+          <div
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={() => setShowHandoverModal(false)}
+          ></div>
+
+          <div className="relative bg-white w-full md:max-w-sm md:rounded-3xl rounded-t-3xl shadow-2xl animate-in slide-in-from-bottom md:zoom-in duration-300">
+            <div className="px-4 md:px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-gradient-to-r from-indigo-50 to-white rounded-t-3xl">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-indigo-100 text-indigo-600 flex items-center justify-center">
+                  <ArrowRightLeft size={20} />
+                </div>
+                <div>
+                  <h2 className="font-bold text-slate-800">Shift Handover</h2>
+                  <p className="text-xs text-slate-500">{runningShift.cashier_name || 'Cashier'} ki shift khatam</p>
+                </div>
+              </div>
+              <button
+                onClick={() => setShowHandoverModal(false)}
+                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="p-4 md:p-6 space-y-4">
+              {!canHandover ? (
+                <div className="bg-amber-50 border border-amber-200 rounded-xl p-3 text-xs text-amber-700 flex items-start gap-2">
+                  <AlertTriangle size={16} className="flex-shrink-0" />
+                  Pehle har product ka remaining stock aur Cash Received bharein.
+                </div>
+              ) : shiftPreview && (
+                <div className="bg-slate-50 rounded-xl p-3 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-slate-500">Shift Sales</span>
+                    <span className="font-medium text-emerald-600">Rs {shiftPreview.sales.toFixed(0)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-500">Expected Cash</span>
+                    <span className="font-medium text-slate-700">Rs {shiftPreview.expected.toFixed(0)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-500">Counted</span>
+                    <span className="font-medium text-slate-700">Rs {calculations.actualCash.toFixed(0)}</span>
+                  </div>
+                  <div className="border-t border-slate-200 pt-1 flex justify-between">
+                    <span className="text-slate-500">Difference</span>
+                    <span className={`font-bold ${shiftPreview.variance < -0.5 ? 'text-red-600' : shiftPreview.variance > 0.5 ? 'text-blue-600' : 'text-green-600'}`}>
+                      {Math.abs(shiftPreview.variance) < 1
+                        ? '✓ Match'
+                        : `${shiftPreview.variance < 0 ? 'Short' : 'Extra'} Rs ${Math.abs(shiftPreview.variance).toFixed(0)}`}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wide">Next Cashier</label>
+                <select
+                  value={handoverTo}
+                  onChange={(e) => setHandoverTo(e.target.value === '' ? '' : Number(e.target.value))}
+                  className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:border-indigo-500 outline-none text-sm"
+                >
+                  <option value="">Koi nahi (shift band)</option>
+                  {cashiers.map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+                {handoverTo !== '' && (
+                  <p className="text-[10px] text-slate-400">
+                    Unki shift Rs {calculations.actualCash.toFixed(0)} float ke saath shuru hogi
+                  </p>
+                )}
+              </div>
+
+              <input
+                type="text"
+                value={handoverNotes}
+                onChange={(e) => setHandoverNotes(e.target.value)}
+                placeholder="Note (optional)"
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:border-indigo-500 outline-none text-sm"
+              />
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowHandoverModal(false)}
+                  className="flex-1 px-4 py-3.5 min-h-[48px] rounded-xl border border-slate-200 text-slate-600 font-bold text-sm hover:bg-slate-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleHandover}
+                  disabled={handingOver || !canHandover}
+                  className="flex-1 px-4 py-3.5 min-h-[48px] rounded-xl bg-indigo-600 text-white font-bold text-sm hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all disabled:opacity-50"
+                >
+                  {handingOver ? (
+                    <span className="flex items-center justify-center gap-2">
+                      <RefreshCw size={16} className="animate-spin" />
+                      Saving...
+                    </span>
+                  ) : (
+                    'Handover'
+                  )}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Cash Withdrawal Modal - Fullscreen on mobile */}
       {showWithdrawModal && (
         <div className="fixed inset-0 z-[60] flex items-end md:items-center justify-center">
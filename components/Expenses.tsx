@@ -2,7 +2,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Layout } from './Layout';
 import { Button } from './Button';
 import { Input } from './Input';
-import { addTransaction, fetchTodayExpenses, returnTransaction, getTodayString, fetchCategories } from '../services/supabase';
+import { addTransaction, fetchTodayExpenses, returnTransaction, getWorkingDateString, fetchCategories } from '../services/supabase';
 import { ViewState, Transaction, User, Category } from '../types';
 import { RotateCcw, TrendingDown, AlertCircle, X, Search, ChevronDown } from 'lucide-react';
 
@@ -111,7 +111,7 @@ export const Expenses: React.FC<ExpensesProps> = ({ onBack, onNavigate, currentU
         sub_category: subCategory || null,
         amount: Number(amount),
         note: note,
-        date_str: getTodayString()
+        date_str: getWorkingDateString()
       });
       
       // Reset form
@@ -125,9 +125,9 @@ export const Expenses: React.FC<ExpensesProps> = ({ onBack, onNavigate, currentU
       setHistory(expData);
       const sum = expData.reduce((acc, curr) => acc + (curr.amount || 0), 0);
       setTotalExpenses(sum);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error recording expense:', error);
-      alert('Failed to save expense.');
+      alert('Failed to save expense: ' + (error.message || 'Unknown error'));
     } finally {
       setLoading(false);
     }
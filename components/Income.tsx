@@ -2,7 +2,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Layout } from './Layout';
 import { Button } from './Button';
 import { Input } from './Input';
-import { addTransaction, fetchTodayIncome, returnTransaction, getTodayString, fetchCategories } from '../services/supabase';
+import { addTransaction, fetchTodayIncome, returnTransaction, getWorkingDateString, fetchCategories } from '../services/supabase';
 import { ViewState, Transaction, User, Category } from '../types';
 import { RotateCcw, TrendingUp, AlertCircle, HandCoins, X, Search, ChevronDown } from 'lucide-react';
 
@@ -110,7 +110,7 @@ export const Income: React.FC<IncomeProps> = ({ onBack, onNavigate, currentUser
         sub_category: subCategory || null,
         amount: Number(amount),
         note: note,
-        date_str: getTodayString()
+        date_str: getWorkingDateString()
       });
       
       setCategory('');
@@ -122,9 +122,9 @@ export const Income: React.FC<IncomeProps> = ({ onBack, onNavigate, currentUser
       setHistory(incData);
       const sum = incData.reduce((acc, curr) => acc + (curr.amount || 0), 0);
       setTotalIncome(sum);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error recording income:', error);
-      alert('Failed to save income.');
+      alert('Failed to save income: ' + (error.message || 'Unknown error'));
     } finally {
       setLoading(false);
     }
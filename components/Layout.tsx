@@ -1,6 +1,18 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { ViewState, User } from '../types';
-import { ArrowLeft, LogOut, Home, PackagePlus, Store, Settings, Package, BarChart3, Wallet, Menu, X } from 'lucide-react';
+import { can, canAccessView, isAdminUser } from '../services/permissions';
+import {
+  getTodayString,
+  getWorkingDateString,
+  isBackdated,
+  setWorkingDate,
+  isDayLocked,
+  getNextOpenDate,
+  isRedirectingLockedEntries,
+  setRedirectLockedEntries,
+  reopenFinalClosing
+} from '../services/supabase';
+import { ArrowLeft, LogOut, Home, PackagePlus, Store, Settings, Package, BarChart3, Wallet, Menu, X, Truck, BookUser, CalendarClock, Lock } from 'lucide-react';
 
 interface LayoutProps {
   title: string;
@@ -22,27 +34,7 @@ export const Layout: React.FC<LayoutProps> = ({
   currentUser
 }) => {
   
-  // Helper to check permissions
-  const hasAccess = (view: ViewState) => {
-    if (!currentUser) return false;
-    if (view === ViewState.DASHBOARD) return true;
-    
-    // Admin/Owner has full access
-    const role = currentUser.role?.toLowerCase() || '';
-    if (role === 'admin' || role === 'owner' || role === 'manager') return true;
-    
-    // Check permissions array (handle both formats: 'STOCK_IN' and 'stockin')
-    if (currentUser.permissions && currentUser.permissions.length > 0) {
-        const viewLower = view.toLowerCase().replace('_', '');
-        return currentUser.permissions.some(p => 
-          p === view || p.toLowerCase().replace('_', '') === viewLower || p === '*'
-        );
-    }
-    
-    // Default: basic staff can access basic tasks
-    const basicTasks = [ViewState.DASHBOARD, ViewState.STOCK_IN, ViewState.EXPENSES, ViewState.INCOME, ViewState.CLOSING];
-    return basicTasks.includes(view);
-  };
+  const hasAccess = (view: ViewState) => canAccessView(currentUser || null, view);
 
   const allNavItems = [
     { view: ViewState.DASHBOARD, label: 'Home', icon: Home },
@@ -50,6 +42,8 @@ export const Layout: React.FC<LayoutProps> = ({
     { view: ViewState.EXPENSES, label: 'Cash Flow', icon: Wallet },
     { view: ViewState.CLOSING, label: 'Closing', icon: Store },
     { view: ViewState.PRODUCTS, label: 'Products', icon: Package },
+    { view: ViewState.SUPPLIERS, label: 'Suppliers', icon: Truck },
+    { view: ViewState.CUSTOMERS, label: 'Customers', icon: BookUser },
     { view: ViewState.REPORTS, label: 'Reports', icon: BarChart3 },
     { view: ViewState.SETTINGS, label: 'Settings', icon: Settings },
   ];
@@ -66,14 +60,48 @@ export const Layout: React.FC<LayoutProps> = ({
                    item.view === ViewState.CLOSING ? 'Close' : item.label
     }));
 
-  // Mobile sidebar items (Products, Reports, Settings)
+  // Mobile sidebar items (Products, Suppliers, Customers, Reports, Settings)
   const mobileSidebarItems = navItems.filter(item => 
-    [ViewState.PRODUCTS, ViewState.REPORTS, ViewState.SETTINGS].includes(item.view)
+    [ViewState.PRODUCTS, ViewState.SUPPLIERS, ViewState.CUSTOMERS, ViewState.REPORTS, ViewState.SETTINGS].includes(item.view)
   );
 
   // Mobile sidebar state
   const [showMobileSidebar, setShowMobileSidebar] = useState(false);
 
+  // Working date: screens where entries are made can be switched to a missed day
+  const showWorkingDate = can(currentUser || null, 'BACKDATE_ENTRIES') && !!activeView &&
+    [ViewState.DASHBOARD, ViewState.STOCK_IN, ViewState.EXPENSES, ViewState.INCOME, ViewState.CLOSING, ViewState.CUSTOMERS].includes(activeView);
+
+  const handleWorkingDateChange = async (dateStr: string | null) => {
+    const result = await setWorkingDate(dateStr);
+    if (!result.success) alert(result.message);
+  };
+
+  // Locked working day: entry screens say so before anything is typed in.
+  // Day Closing has its own locked screen.
+  const [lockedNextDate, setLockedNextDate] = useState<string | null>(null);
+  const showLockNotice = !!activeView &&
+    [ViewState.STOCK_IN, ViewState.EXPENSES, ViewState.INCOME, ViewState.CUSTOMERS, ViewState.SUPPLIERS, ViewState.SETTINGS].includes(activeView);
+
+  useEffect(() => {
+    if (!showLockNotice || !currentUser) return;
+    const dateStr = getWorkingDateString();
+    isDayLocked(dateStr)
+      .then(async locked => setLockedNextDate(locked ? await getNextOpenDate(dateStr) : null))
+      .catch(error => console.error('Error checking closing lock:', error));
+  }, [showLockNotice, currentUser]);
+
+  const handleReopenDay = async () => {
+    const dateStr = getWorkingDateString();
+    const reason = window.prompt(`${dateStr} ki closing kyun reopen kar rahe hain? (reason required)`);
+    if (reason === null) return;
+
+    const result = await reopenFinalClosing(dateStr, reason);
+    alert(result.message);
+    // Screens reload with the day open again
+    if (result.success) setRedirectLockedEntries(false);
+  };
+
   return (
     <div className="flex h-screen bg-slate-50 overflow-hidden w-full">
       {/* ----------------- DESKTOP SIDEBAR ----------------- */}
@@ -247,6 +275,25 @@ export const Layout: React.FC<LayoutProps> = ({
           
           {/* User Info & Logout */}
           <div className="flex items-center gap-3">
+            {/* Working date - managers catching up on a missed day */}
+            {showWorkingDate && (
+              <label
+                className={`flex items-center gap-1.5 px-2 py-1.5 rounded-xl border text-xs font-bold ${
+                  isBackdated() ? 'bg-amber-50 border-amber-300 text-amber-700' : 'bg-slate-50 border-slate-200 text-slate-500'
+                }`}
+                title="Working date"
+              >
+                <CalendarClock size={16} />
+                <input
+                  type="date"
+                  value={getWorkingDateString()}
+                  max={getTodayString()}
+                  onChange={(e) => handleWorkingDateChange(e.target.value || null)}
+                  className="bg-transparent outline-none w-[7.5rem]"
+                />
+              </label>
+            )}
+
             {/* User Name - Desktop only */}
             {currentUser && (
               <div className="hidden md:flex items-center gap-2">
@@ -273,6 +320,49 @@ export const Layout: React.FC<LayoutProps> = ({
           </div>
         </header>
 
+        {/* Entries are going to a past day */}
+        {isBackdated() && (
+          <div className="bg-amber-100 border-b border-amber-200 px-4 py-2 md:px-8 flex items-center justify-between gap-3 flex-shrink-0 z-10">
+            <span className="text-xs md:text-sm font-medium text-amber-800">
+              Working on {getWorkingDateString()} - entries and closing will be saved for this date
+            </span>
+            <button
+              onClick={() => handleWorkingDateChange(null)}
+              className="px-3 py-1 text-xs font-bold bg-white text-amber-700 rounded-lg border border-amber-300 hover:bg-amber-50 flex-shrink-0"
+            >
+              Back to today
+            </button>
+          </div>
+        )}
+
+        {/* Working day is locked */}
+        {lockedNextDate && (
+          <div className="bg-red-50 border-b border-red-200 px-4 py-2 md:px-8 flex flex-wrap items-center justify-between gap-2 flex-shrink-0 z-10">
+            <span className="text-xs md:text-sm font-medium text-red-700 flex items-center gap-2">
+              <Lock size={14} className="flex-shrink-0" />
+              {isRedirectingLockedEntries()
+                ? `${getWorkingDateString()} closed hai - nayi entries ${lockedNextDate} ke liye save hongi`
+                : `${getWorkingDateString()} ki closing lock ho chuki hai - nayi entries save nahi hongi`}
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setRedirectLockedEntries(!isRedirectingLockedEntries())}
+                className="px-3 py-1 text-xs font-bold bg-white text-red-700 rounded-lg border border-red-200 hover:bg-red-100"
+              >
+                {isRedirectingLockedEntries() ? 'Cancel' : `Save for ${lockedNextDate}`}
+              </button>
+              {isAdminUser(currentUser || null) && (
+                <button
+                  onClick={handleReopenDay}
+                  className="px-3 py-1 text-xs font-bold bg-red-600 text-white rounded-lg hover:bg-red-700"
+                >
+                  Reopen closing
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Scrollable Main Area */}
         <main className={`flex-1 overflow-y-auto p-4 md:p-8 ${onNavigate ? 'pb-24 md:pb-8' : ''}`}>
           <div className="max-w-6xl mx-auto w-full">
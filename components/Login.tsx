@@ -25,15 +25,23 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
     setError('');
 
     try {
-      const user = await loginUser(name.trim(), pin);
-      if (user) {
-        onLoginSuccess(user);
+      const result = await loginUser(name.trim(), pin);
+      if (result.success && result.user) {
+        onLoginSuccess(result.user);
+      } else if (result.lockedUntil) {
+        const unlockAt = new Date(result.lockedUntil).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+        setError(`Too many wrong PINs. Try again after ${unlockAt}`);
+        setPin('');
+      } else if (result.remainingAttempts !== undefined) {
+        setError(`Invalid Name or PIN - ${result.remainingAttempts} attempt${result.remainingAttempts === 1 ? '' : 's'} left`);
+        setPin('');
       } else {
         setError('Invalid Name or PIN');
+        setPin('');
       }
     } catch (err) {
       console.error(err);
-      setError('Invalid Name or PIN');
+      setError('Login failed. Check your connection and try again.');
     } finally {
       setLoading(false);
     }
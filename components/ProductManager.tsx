@@ -2,9 +2,9 @@ import React, { useEffect, useState } from 'react';
 import { Layout } from './Layout';
 import { Button } from './Button';
 import { Input } from './Input';
-import { fetchProducts, addProduct, updateProduct, deleteProduct } from '../services/supabase';
-import { Product, ViewState, User } from '../types';
-import { Plus, Pencil, Trash2, X, Save } from 'lucide-react';
+import { fetchProducts, addProduct, updateProduct, deleteProduct, fetchTodayStockIn, getStockOnHand, isLowStock } from '../services/supabase';
+import { Product, ViewState, User, Transaction } from '../types';
+import { Plus, Pencil, Trash2, X, Save, AlertTriangle } from 'lucide-react';
 
 interface ProductManagerProps {
   onBack: () => void;
@@ -14,6 +14,7 @@ interface ProductManagerProps {
 
 export const ProductManager: React.FC<ProductManagerProps> = ({ onBack, onNavigate, currentUser }) => {
   const [products, setProducts] = useState<Product[]>([]);
+  const [todayStockIn, setTodayStockIn] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState(false);
   
@@ -25,6 +26,9 @@ export const ProductManager: React.FC<ProductManagerProps> = ({ onBack, onNaviga
   const [name, setName] = useState('');
   const [unit, setUnit] = useState('');
   const [salePrice, setSalePrice] = useState('');
+  const [costPrice, setCostPrice] = useState('');
+  const [reorderPoint, setReorderPoint] = useState('');
+  const [targetLevel, setTargetLevel] = useState('');
 
   useEffect(() => {
     loadProducts();
@@ -33,8 +37,9 @@ export const ProductManager: React.FC<ProductManagerProps> = ({ onBack, onNaviga
   const loadProducts = async () => {
     setLoading(true);
     try {
-      const data = await fetchProducts();
+      const [data, stockIn] = await Promise.all([fetchProducts(), fetchTodayStockIn(true)]);
       setProducts(data);
+      setTodayStockIn(stockIn);
     } catch (err) {
       console.error(err);
       alert('Failed to load products');
@@ -49,23 +54,37 @@ export const ProductManager: React.FC<ProductManagerProps> = ({ onBack, onNaviga
       setName(product.name);
       setUnit(product.unit || '');
       setSalePrice(product.sale_price.toString());
+      setCostPrice(product.cost_price != null ? product.cost_price.toString() : '');
+      setReorderPoint(product.reorder_point != null ? product.reorder_point.toString() : '');
+      setTargetLevel(product.target_level != null ? product.target_level.toString() : '');
     } else {
       setEditingId(null);
       setName('');
       setUnit('');
       setSalePrice('');
+      setCostPrice('');
+      setReorderPoint('');
+      setTargetLevel('');
     }
     setIsModalOpen(true);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (reorderPoint !== '' && targetLevel !== '' && Number(targetLevel) < Number(reorderPoint)) {
+      alert('Target level should be at least the reorder point.');
+      return;
+    }
+
     setActionLoading(true);
     try {
       const payload = {
         name,
         unit: unit || undefined,
         sale_price: Number(salePrice),
+        cost_price: costPrice === '' ? null : Number(costPrice),
+        reorder_point: reorderPoint === '' ? null : Number(reorderPoint),
+        target_level: targetLevel === '' ? null : Number(targetLevel),
       };
 
       if (editingId) {
@@ -121,7 +140,10 @@ export const ProductManager: React.FC<ProductManagerProps> = ({ onBack, onNaviga
                 <div className="p-12 text-center text-slate-400">No products found. Add one to get started.</div>
             ) : (
                 <div className="divide-y divide-slate-100">
-                    {products.map(p => (
+                    {products.map(p => {
+                        const onHand = getStockOnHand(p, todayStockIn);
+                        const low = isLowStock(p, onHand);
+                        return (
                         <div key={p.id} className="p-4 hover:bg-slate-50 transition-colors flex items-center justify-between group">
                             <div className="flex items-center gap-4">
                                 <div className="w-10 h-10 rounded-xl bg-purple-50 text-purple-600 flex items-center justify-center font-bold">
@@ -131,13 +153,22 @@ export const ProductManager: React.FC<ProductManagerProps> = ({ onBack, onNaviga
                                     <h3 className="font-bold text-slate-800">{p.name}</h3>
                                     <p className="text-xs text-slate-400">
                                         Unit: {p.unit || 'N/A'} • Open Stock: {p.current_opening_stock}
+                                        {p.reorder_point != null && ` • Reorder at ${p.reorder_point}${p.target_level != null ? ` up to ${p.target_level}` : ''}`}
                                     </p>
+                                    {low && (
+                                        <p className="text-[10px] font-bold text-red-600 flex items-center gap-1 mt-0.5">
+                                            <AlertTriangle size={12} /> Low stock: {onHand} {p.unit || ''} on hand
+                                        </p>
+                                    )}
                                 </div>
                             </div>
                             
                             <div className="flex items-center gap-4 md:gap-8">
                                 <div className="text-right hidden md:block">
                                     <p className="text-sm font-bold text-slate-700">Sale: ${p.sale_price}</p>
+                                    {p.cost_price != null && (
+                                        <p className="text-xs text-slate-400">Cost: ${p.cost_price}</p>
+                                    )}
                                 </div>
                                 
                                 <div className="flex items-center gap-2">
@@ -156,7 +187,8 @@ export const ProductManager: React.FC<ProductManagerProps> = ({ onBack, onNaviga
                                 </div>
                             </div>
                         </div>
-                    ))}
+                        );
+                    })}
                 </div>
             )}
         </div>
@@ -200,7 +232,35 @@ export const ProductManager: React.FC<ProductManagerProps> = ({ onBack, onNaviga
                         />
                     </div>
                     
-                    {/* Purchase Price Input Removed */}
+                    <Input 
+                        label="Cost Price (last paid)" 
+                        type="number" 
+                        step="0.01" 
+                        value={costPrice} 
+                        onChange={e => setCostPrice(e.target.value)} 
+                        placeholder="Updated by each Stock In"
+                    />
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <Input 
+                            label="Reorder Point" 
+                            type="number" 
+                            step="any" 
+                            min="0"
+                            value={reorderPoint} 
+                            onChange={e => setReorderPoint(e.target.value)} 
+                            placeholder="Alert at or below"
+                        />
+                        <Input 
+                            label="Target Level" 
+                            type="number" 
+                            step="any" 
+                            min="0"
+                            value={targetLevel} 
+                            onChange={e => setTargetLevel(e.target.value)} 
+                            placeholder="Order up to"
+                        />
+                    </div>
 
                     <div className="pt-4 flex gap-3">
                         <Button type="button" variant="outline" fullWidth onClick={() => setIsModalOpen(false)}>Cancel</Button>
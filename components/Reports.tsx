@@ -1,11 +1,28 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { Layout } from './Layout';
-import { ViewState, User, Transaction, DailyClosing } from '../types';
+import { ViewState, User, Transaction, DailyClosing, Product, CustomerEntry, PaymentMethod, Shift, ClosingVersion, StockSnapshot } from '../types';
 import {
   fetchAllTransactions,
   fetchAllClosings,
   fetchReportSummary,
-  fetchDailyBreakdown
+  fetchDailyBreakdown,
+  fetchProducts,
+  getTodayString,
+  shiftDateString,
+  getReasonLabel,
+  getClosingStockItems,
+  getClosingCostOfGoods,
+  fetchCustomerEntries,
+  loadPaymentMethods,
+  getClosingExpectedCash,
+  getClosingPayments,
+  getNonCashReceived,
+  CASH_PAYMENT_METHOD,
+  CASH_DENOMINATIONS,
+  getClosingCashCount,
+  fetchShifts,
+  fetchClosingVersions,
+  fetchStockOnHand
 } from '../services/supabase';
 import {
   BarChart3,
@@ -26,7 +43,13 @@ import {
   Wallet,
   ArrowUpRight,
   ArrowDownRight,
-  PieChart
+  PieChart,
+  SlidersHorizontal,
+  Trash2,
+  Percent,
+  CreditCard,
+  RotateCcw,
+  Boxes
 } from 'lucide-react';
 
 interface ReportsProps {
@@ -35,9 +58,9 @@ interface ReportsProps {
   currentUser: User | null;
 }
 
-type TabType = 'overview' | 'transactions' | 'closings' | 'categories';
+type TabType = 'overview' | 'transactions' | 'closings' | 'products' | 'categories' | 'wastage' | 'margins' | 'stock';
 type DateRange = 'today' | 'week' | 'month' | 'year' | 'custom';
-type TransactionFilter = 'ALL' | 'STOCK_IN' | 'EXPENSE' | 'INCOME';
+type TransactionFilter = 'ALL' | 'STOCK_IN' | 'ADJUSTMENT' | 'WASTAGE' | 'EXPENSE' | 'INCOME';
 
 interface CategoryBreakdown {
   category: string;
@@ -47,6 +70,42 @@ interface CategoryBreakdown {
   percentage: number;
 }
 
+interface ProductWastage {
+  productId: number | null;
+  name: string;
+  unit: string;
+  quantity: number;
+  value: number;
+  byReason: Record<string, number>; // quantity per reason code
+}
+
+interface ProductMargin {
+  productId: number;
+  name: string;
+  unit: string;
+  sold: number;
+  revenue: number;
+  cost: number;
+  uncostedSold: number; // sold on days with no unit cost, excluded from the margin
+}
+
+interface ProductDay {
+  sold: number;
+  revenue: number;
+  wastage: number;
+  stockIn: number;
+}
+
+interface ProductSales extends ProductDay {
+  productId: number;
+  name: string;
+  unit: string;
+  days: Record<string, ProductDay>;
+  trend: number | null; // % change in units sold, second half of the period vs first
+}
+
+type ProductSort = 'revenue' | 'sold' | 'wastage';
+
 export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUser }) => {
   const [activeTab, setActiveTab] = useState<TabType>('overview');
   const [loading, setLoading] = useState(true);
@@ -61,15 +120,24 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
   const [transactions, setTransactions] = useState<any[]>([]);
   const [closings, setClosings] = useState<DailyClosing[]>([]);
   const [dailyData, setDailyData] = useState<any[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [customerEntries, setCustomerEntries] = useState<CustomerEntry[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [closingVersions, setClosingVersions] = useState<ClosingVersion[]>([]);
+  const [stockDate, setStockDate] = useState(getTodayString());
+  const [stockOnHand, setStockOnHand] = useState<StockSnapshot[]>([]);
+  const [stockLoading, setStockLoading] = useState(false);
+  const [productSort, setProductSort] = useState<ProductSort>('revenue');
+  const [selectedProductId, setSelectedProductId] = useState<number | null>(null);
 
   // Pagination
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 20;
 
-  // Calculate date range
+  // Calculate date range (business dates, see Settings > Business Day)
   const getDateRange = () => {
-    const today = new Date();
-    const endDate = today.toISOString().split('T')[0];
+    const endDate = getTodayString();
     let startDate = endDate;
 
     switch (dateRange) {
@@ -77,19 +145,13 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
         startDate = endDate;
         break;
       case 'week':
-        const weekAgo = new Date(today);
-        weekAgo.setDate(weekAgo.getDate() - 7);
-        startDate = weekAgo.toISOString().split('T')[0];
+        startDate = shiftDateString(endDate, -7);
         break;
       case 'month':
-        const monthAgo = new Date(today);
-        monthAgo.setMonth(monthAgo.getMonth() - 1);
-        startDate = monthAgo.toISOString().split('T')[0];
+        startDate = shiftDateString(endDate, -1, 'month');
         break;
       case 'year':
-        const yearAgo = new Date(today);
-        yearAgo.setFullYear(yearAgo.getFullYear() - 1);
-        startDate = yearAgo.toISOString().split('T')[0];
+        startDate = shiftDateString(endDate, -1, 'year');
         break;
       case 'custom':
         startDate = customStart || endDate;
@@ -107,17 +169,26 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
     try {
       const { start, end } = getDateRange();
 
-      const [summaryData, txnData, closingData, dailyBreakdown] = await Promise.all([
+      const [summaryData, txnData, closingData, dailyBreakdown, productData, customerEntryData, methodsData, shiftData] = await Promise.all([
         fetchReportSummary(start, end),
         fetchAllTransactions({ startDate: start, endDate: end }),
         fetchAllClosings(100),
-        fetchDailyBreakdown(30)
+        fetchDailyBreakdown(30),
+        fetchProducts(),
+        fetchCustomerEntries({ startDate: start, endDate: end }),
+        loadPaymentMethods(),
+        fetchShifts(start, end)
       ]);
 
       setSummary(summaryData);
       setTransactions(txnData);
       setClosings(closingData);
       setDailyData(dailyBreakdown);
+      setProducts(productData);
+      setCustomerEntries(customerEntryData);
+      setPaymentMethods(methodsData);
+      setShifts(shiftData);
+      setClosingVersions(await fetchClosingVersions(closingData.map(c => c.id!)));
     } catch (err) {
       console.error('Error loading reports:', err);
     } finally {
@@ -125,6 +196,52 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
     }
   };
 
+  // Stock on hand is looked up per date, independent of the report range
+  useEffect(() => {
+    if (activeTab !== 'stock' || !stockDate) return;
+    setStockLoading(true);
+    fetchStockOnHand(stockDate)
+      .then(setStockOnHand)
+      .catch(err => console.error('Error loading stock on hand:', err))
+      .finally(() => setStockLoading(false));
+  }, [activeTab, stockDate]);
+
+  // Each product's snapshot with its chain checks: the day's movement adds up
+  // to the closing, and the opening matches the previous locked day's closing
+  const stockRows = useMemo(() => {
+    return stockOnHand
+      .map(snap => {
+        const product = products.find(p => p.id === snap.product_id);
+        const expected = snap.opening + snap.stock_in - snap.stock_returns + snap.adjustments - snap.wastage - snap.sold;
+        return {
+          snap,
+          name: product?.name || `Product #${snap.product_id}`,
+          unit: product?.unit || '',
+          value: snap.closing * (snap.unit_cost || 0),
+          movementGap: snap.closing - expected,
+          openingGap: snap.previous_closing == null ? 0 : snap.opening - snap.previous_closing
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [stockOnHand, products]);
+
+  const stockChainBreaks = stockRows.filter(r => Math.abs(r.movementGap) > 0.001 || Math.abs(r.openingGap) > 0.001).length;
+
+  // Handed-over shifts per cashier: how often they were short/extra and by how much
+  const cashierVariance = useMemo(() => {
+    const byCashier: Record<string, { name: string; shifts: number; sales: number; variance: number }> = {};
+    shifts.filter(s => s.closed_at).forEach(s => {
+      const key = String(s.cashier_id ?? s.cashier_name ?? 'unknown');
+      if (!byCashier[key]) {
+        byCashier[key] = { name: s.cashier_name || 'Unknown', shifts: 0, sales: 0, variance: 0 };
+      }
+      byCashier[key].shifts += 1;
+      byCashier[key].sales += s.sales || 0;
+      byCashier[key].variance += s.variance || 0;
+    });
+    return Object.values(byCashier).sort((a, b) => a.variance - b.variance);
+  }, [shifts]);
+
   // Filter transactions
   const filteredTransactions = useMemo(() => {
     let filtered = transactions;
@@ -208,6 +325,145 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
     return result.sort((a, b) => b.total - a.total);
   }, [transactions]);
 
+  // Wastage per product (reversals are negative rows, so plain sums are net)
+  const wastageByProduct = useMemo((): ProductWastage[] => {
+    const map = new Map<number | null, ProductWastage>();
+
+    transactions.filter(t => t.type === 'WASTAGE').forEach(t => {
+      const key = t.product_id ?? null;
+      if (!map.has(key)) {
+        map.set(key, {
+          productId: key,
+          name: t.products?.name || 'Deleted product',
+          unit: t.products?.unit || '',
+          quantity: 0,
+          value: 0,
+          byReason: {}
+        });
+      }
+      const row = map.get(key)!;
+      row.quantity += t.quantity || 0;
+      row.value += t.amount || 0;
+      if (t.reason_code) {
+        row.byReason[t.reason_code] = (row.byReason[t.reason_code] || 0) + (t.quantity || 0);
+      }
+    });
+
+    return Array.from(map.values())
+      .filter(row => row.quantity !== 0)
+      .sort((a, b) => b.value - a.value);
+  }, [transactions]);
+
+  const totalWastageValue = wastageByProduct.reduce((sum, row) => sum + row.value, 0);
+
+  // Gross margin per product from the period's closings (one per day)
+  const marginByProduct = useMemo((): ProductMargin[] => {
+    const map = new Map<number, ProductMargin>();
+
+    ((summary?.closings || []) as DailyClosing[]).forEach(closing => {
+      getClosingStockItems(closing).forEach(item => {
+        if (!item.sold) return;
+        if (!map.has(item.productId)) {
+          const info = products.find(p => p.id === item.productId);
+          map.set(item.productId, {
+            productId: item.productId,
+            name: info?.name || 'Deleted product',
+            unit: info?.unit || '',
+            sold: 0,
+            revenue: 0,
+            cost: 0,
+            uncostedSold: 0
+          });
+        }
+        const row = map.get(item.productId)!;
+        row.sold += item.sold;
+        row.revenue += item.sold * (item.salePrice || 0);
+        if (item.unitCost != null) {
+          row.cost += item.sold * item.unitCost;
+        } else {
+          row.uncostedSold += item.sold;
+        }
+      });
+    });
+
+    return Array.from(map.values()).sort((a, b) => (b.revenue - b.cost) - (a.revenue - a.cost));
+  }, [summary, products]);
+
+  // Every date in the report range, oldest first
+  const rangeDates = useMemo(() => {
+    const { start, end } = getDateRange();
+    const dates: string[] = [];
+    for (let d = start; d <= end; d = shiftDateString(d, 1)) dates.push(d);
+    return dates;
+  }, [dateRange, customStart, customEnd]);
+
+  // Per-product sales from the closing counts, with wastage and stock-in
+  // from the period's transactions, broken down by day
+  const productSales = useMemo((): ProductSales[] => {
+    const map = new Map<number, ProductSales>();
+    const rowFor = (productId: number, dateStr: string) => {
+      if (!map.has(productId)) {
+        const info = products.find(p => p.id === productId);
+        map.set(productId, {
+          productId,
+          name: info?.name || 'Deleted product',
+          unit: info?.unit || '',
+          sold: 0,
+          revenue: 0,
+          wastage: 0,
+          stockIn: 0,
+          days: {},
+          trend: null
+        });
+      }
+      const row = map.get(productId)!;
+      if (!row.days[dateStr]) row.days[dateStr] = { sold: 0, revenue: 0, wastage: 0, stockIn: 0 };
+      return { row, day: row.days[dateStr] };
+    };
+
+    ((summary?.closings || []) as DailyClosing[]).forEach(closing => {
+      getClosingStockItems(closing).forEach(item => {
+        if (!item.sold) return;
+        // Older closings didn't keep the day's price; use the current one
+        const price = item.salePrice ?? products.find(p => p.id === item.productId)?.sale_price ?? 0;
+        const { row, day } = rowFor(item.productId, closing.date_str);
+        row.sold += item.sold;
+        day.sold += item.sold;
+        row.revenue += item.sold * price;
+        day.revenue += item.sold * price;
+      });
+    });
+
+    // Reversals and returns are negative rows, so plain sums are net
+    transactions
+      .filter(t => t.product_id && (t.type === 'WASTAGE' || t.type === 'STOCK_IN'))
+      .forEach(t => {
+        const { row, day } = rowFor(t.product_id, t.date_str);
+        if (t.type === 'WASTAGE') {
+          row.wastage += t.quantity || 0;
+          day.wastage += t.quantity || 0;
+        } else {
+          row.stockIn += t.quantity || 0;
+          day.stockIn += t.quantity || 0;
+        }
+      });
+
+    const half = Math.floor(rangeDates.length / 2);
+    map.forEach(row => {
+      if (half === 0) return;
+      const soldIn = (dates: string[]) => dates.reduce((sum, d) => sum + (row.days[d]?.sold || 0), 0);
+      const first = soldIn(rangeDates.slice(0, half));
+      const second = soldIn(rangeDates.slice(rangeDates.length - half));
+      row.trend = first > 0 ? ((second - first) / first) * 100 : null;
+    });
+
+    return Array.from(map.values())
+      .filter(row => row.sold !== 0 || row.wastage !== 0 || row.stockIn !== 0)
+      .sort((a, b) => b[productSort] - a[productSort]);
+  }, [summary, transactions, products, rangeDates, productSort]);
+
+  const selectedProductSales = productSales.find(p => p.productId === selectedProductId) || null;
+
   const incomeBreakdown = useMemo((): CategoryBreakdown[] => {
     const incomes = transactions.filter(t => t.type === 'INCOME' && !t.is_return);
     const totalIncome = incomes.reduce((sum, t) => sum + (t.amount || 0), 0);
@@ -262,6 +518,22 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
     return result.sort((a, b) => b.total - a.total);
   }, [transactions]);
 
+  // Received per payment method, configured methods first, then any removed since
+  const paymentBreakdown = useMemo(() => {
+    const totals: Record<string, number> = summary?.paymentTotals || {};
+    const ids = [
+      ...paymentMethods.map(m => m.id).filter(id => id in totals),
+      ...Object.keys(totals).filter(id => !paymentMethods.some(m => m.id === id))
+    ];
+    const grandTotal = ids.reduce((sum, id) => sum + (totals[id] || 0), 0);
+    return ids.map(id => ({
+      id,
+      label: paymentMethods.find(m => m.id === id)?.label || id,
+      amount: totals[id] || 0,
+      percentage: grandTotal > 0 ? ((totals[id] || 0) / grandTotal) * 100 : 0
+    }));
+  }, [summary, paymentMethods]);
+
   const totalExpenseAmount = useMemo(() =>
     expenseBreakdown.filter(e => !e.subCategory).reduce((sum, e) => sum + e.total, 0)
     , [expenseBreakdown]);
@@ -276,7 +548,8 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
     return date.toLocaleDateString('en-PK', {
       day: 'numeric',
       month: 'short',
-      year: 'numeric'
+      year: 'numeric',
+      timeZone: 'UTC' // date_str is a business date, not a moment in time
     });
   };
 
@@ -294,6 +567,8 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
       case 'STOCK_IN': return 'bg-blue-100 text-blue-700';
       case 'EXPENSE': return 'bg-orange-100 text-orange-700';
       case 'INCOME': return 'bg-teal-100 text-teal-700';
+      case 'ADJUSTMENT': return 'bg-purple-100 text-purple-700';
+      case 'WASTAGE': return 'bg-rose-100 text-rose-700';
       default: return 'bg-slate-100 text-slate-700';
     }
   };
@@ -303,6 +578,8 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
       case 'STOCK_IN': return <Package size={14} />;
       case 'EXPENSE': return <Receipt size={14} />;
       case 'INCOME': return <HandCoins size={14} />;
+      case 'ADJUSTMENT': return <SlidersHorizontal size={14} />;
+      case 'WASTAGE': return <Trash2 size={14} />;
       default: return <Clock size={14} />;
     }
   };
@@ -348,6 +625,10 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
             { id: 'categories', label: 'Categories', icon: Receipt },
             { id: 'transactions', label: 'Transactions', icon: Clock },
             { id: 'closings', label: 'Daily', icon: BarChart3 },
+            { id: 'products', label: 'Products', icon: Package },
+            { id: 'wastage', label: 'Wastage', icon: Trash2 },
+            { id: 'margins', label: 'Margins', icon: Percent },
+            { id: 'stock', label: 'Stock History', icon: Boxes },
           ].map(tab => (
             <button
               key={tab.id}
@@ -413,7 +694,7 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                       <Wallet size={12} /> Net Profit
                     </div>
                     <div className="text-2xl font-bold">Rs {summary.netProfit?.toLocaleString()}</div>
-                    <div className="text-xs opacity-80 mt-1">Sales + Income - Expenses</div>
+                    <div className="text-xs opacity-80 mt-1">Gross Profit + Income - Expenses</div>
                   </div>
                 </div>
 
@@ -426,7 +707,7 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                     <div className="flex-1">
                       <h3 className="font-bold text-red-800">Cash Loss Detected</h3>
                       <p className="text-red-600 text-sm">
-                        Expected: Rs {summary.totalSales?.toLocaleString()} | Received: Rs {summary.totalCashReceived?.toLocaleString()}
+                        Expected Cash: Rs {summary.totalExpectedCash?.toLocaleString()} | Received: Rs {summary.totalCashReceived?.toLocaleString()}
                       </p>
                     </div>
                     <div className="text-right">
@@ -436,6 +717,60 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                   </div>
                 )}
 
+                {/* Gross Margin */}
+                <div className="bg-white rounded-2xl border border-slate-100 p-5 shadow-sm">
+                  <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
+                    <Percent size={20} className="text-indigo-500" />
+                    Gross Margin
+                  </h3>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="bg-slate-50 rounded-xl p-3">
+                      <p className="text-xs text-slate-500 font-medium">Purchases</p>
+                      <p className="text-lg font-bold text-slate-700">Rs {summary.totalPurchases?.toLocaleString()}</p>
+                    </div>
+                    <div className="bg-slate-50 rounded-xl p-3">
+                      <p className="text-xs text-slate-500 font-medium">Cost of Goods Sold</p>
+                      <p className="text-lg font-bold text-slate-700">Rs {summary.totalCostOfGoods?.toLocaleString()}</p>
+                    </div>
+                    <div className="bg-indigo-50 rounded-xl p-3">
+                      <p className="text-xs text-indigo-600 font-medium">Gross Profit</p>
+                      <p className="text-lg font-bold text-indigo-700">Rs {summary.grossProfit?.toLocaleString()}</p>
+                    </div>
+                    <div className="bg-indigo-50 rounded-xl p-3">
+                      <p className="text-xs text-indigo-600 font-medium">Margin</p>
+                      <p className="text-lg font-bold text-indigo-700">
+                        {summary.totalSales > 0 ? `${((summary.grossProfit / summary.totalSales) * 100).toFixed(1)}%` : '-'}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Payments Received */}
+                {paymentBreakdown.length > 0 && (
+                  <div className="bg-white rounded-2xl border border-slate-100 p-5 shadow-sm">
+                    <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
+                      <CreditCard size={20} className="text-violet-500" />
+                      Payments Received
+                    </h3>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                      {paymentBreakdown.map(method => (
+                        <div
+                          key={method.id}
+                          className={`rounded-xl p-3 ${method.id === CASH_PAYMENT_METHOD ? 'bg-emerald-50' : 'bg-violet-50'}`}
+                        >
+                          <p className={`text-xs font-medium ${method.id === CASH_PAYMENT_METHOD ? 'text-emerald-600' : 'text-violet-600'}`}>
+                            {method.label}
+                          </p>
+                          <p className={`text-lg font-bold ${method.id === CASH_PAYMENT_METHOD ? 'text-emerald-700' : 'text-violet-700'}`}>
+                            Rs {method.amount.toLocaleString()}
+                          </p>
+                          <p className="text-[10px] text-slate-400">{method.percentage.toFixed(1)}%</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Quick Stats */}
                 <div className="grid md:grid-cols-3 gap-4">
                   {/* Stock In Summary */}
@@ -490,13 +825,11 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
 
                   {(() => {
                     // Generate last 30 days with data
-                    const last30Days: { date: string; revenue: number; cashReceived: number; hasData: boolean }[] = [];
-                    const today = new Date();
+                    const last30Days: { date: string; revenue: number; cashReceived: number; received: number; hasData: boolean }[] = [];
+                    const today = getTodayString();
 
                     for (let i = 29; i >= 0; i--) {
-                      const date = new Date(today);
-                      date.setDate(date.getDate() - i);
-                      const dateStr = date.toISOString().split('T')[0];
+                      const dateStr = shiftDateString(today, -i);
 
                       // Find matching data
                       const dayData = dailyData.find(d => d.date_str === dateStr);
@@ -505,6 +838,10 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                         date: dateStr,
                         revenue: dayData?.total_revenue || 0,
                         cashReceived: dayData?.cash_received || 0,
+                        // Cash plus other payment methods and credit sales, to compare with sales
+                        received: dayData
+                          ? (dayData.cash_received || 0) + getNonCashReceived(getClosingPayments(dayData)) + (dayData.credit_sales || 0)
+                          : 0,
                         hasData: !!dayData
                       });
                     }
@@ -545,9 +882,9 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                             <div className="flex items-end gap-[2px] h-40 border-l border-b border-slate-200 pl-1 pb-1">
                               {last30Days.map((day, idx) => {
                                 const height = maxRevenue > 0 ? (day.revenue / maxRevenue) * 100 : 0;
-                                const hasLoss = day.hasData && day.cashReceived < day.revenue;
+                                const hasLoss = day.hasData && day.received < day.revenue;
                                 const isToday = idx === 29;
-                                const dayNum = new Date(day.date).getDate();
+                                const dayNum = new Date(day.date).getUTCDate();
 
                                 return (
                                   <div
@@ -557,7 +894,7 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                                     {/* Tooltip */}
                                     <div className="absolute bottom-full mb-2 hidden group-hover:block z-10">
                                       <div className="bg-slate-800 text-white text-[10px] px-2 py-1 rounded shadow-lg whitespace-nowrap">
-                                        <p className="font-bold">{new Date(day.date).toLocaleDateString('en-PK', { day: 'numeric', month: 'short' })}</p>
+                                        <p className="font-bold">{new Date(day.date).toLocaleDateString('en-PK', { day: 'numeric', month: 'short', timeZone: 'UTC' })}</p>
                                         <p>Sales: Rs {day.revenue.toLocaleString()}</p>
                                         {day.hasData && <p>Cash: Rs {day.cashReceived.toLocaleString()}</p>}
                                       </div>
@@ -632,19 +969,21 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
 
                   {/* Type Filter */}
                   <div className="flex gap-2">
-                    {(['ALL', 'STOCK_IN', 'EXPENSE', 'INCOME'] as TransactionFilter[]).map(filter => (
+                    {(['ALL', 'STOCK_IN', 'ADJUSTMENT', 'WASTAGE', 'EXPENSE', 'INCOME'] as TransactionFilter[]).map(filter => (
                       <button
                         key={filter}
                         onClick={() => { setTransactionFilter(filter); setCurrentPage(1); }}
                         className={`px-3 py-2 rounded-xl text-xs font-bold transition-all ${transactionFilter === filter
                           ? filter === 'ALL' ? 'bg-slate-800 text-white'
                             : filter === 'STOCK_IN' ? 'bg-blue-600 text-white'
-                              : filter === 'EXPENSE' ? 'bg-orange-600 text-white'
-                                : 'bg-teal-600 text-white'
+                              : filter === 'ADJUSTMENT' ? 'bg-purple-600 text-white'
+                                : filter === 'WASTAGE' ? 'bg-rose-600 text-white'
+                                : filter === 'EXPENSE' ? 'bg-orange-600 text-white'
+                                  : 'bg-teal-600 text-white'
                           : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
                           }`}
                       >
-                        {filter === 'ALL' ? 'All' : filter === 'STOCK_IN' ? 'Stock In' : filter === 'EXPENSE' ? 'Expenses' : 'Income'}
+                        {filter === 'ALL' ? 'All' : filter === 'STOCK_IN' ? 'Stock In' : filter === 'ADJUSTMENT' ? 'Adjustments' : filter === 'WASTAGE' ? 'Wastage' : filter === 'EXPENSE' ? 'Expenses' : 'Income'}
                       </button>
                     ))}
                   </div>
@@ -676,7 +1015,7 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                             <div className="flex-1 min-w-0">
                               <div className="flex items-center gap-2">
                                 <span className="font-bold text-slate-800 truncate">
-                                  {txn.type === 'STOCK_IN'
+                                  {txn.type === 'STOCK_IN' || txn.type === 'ADJUSTMENT' || txn.type === 'WASTAGE'
                                     ? txn.products?.name || 'Unknown Product'
                                     : txn.category || 'Uncategorized'
                                   }
@@ -684,6 +1023,11 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                                 <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${getTypeColor(txn.type)}`}>
                                   {txn.type.replace('_', ' ')}
                                 </span>
+                                {(txn.type === 'ADJUSTMENT' || txn.type === 'WASTAGE') && (
+                                  <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">
+                                    {getReasonLabel(txn.reason_code)}
+                                  </span>
+                                )}
                               </div>
                               <div className="text-xs text-slate-400 mt-0.5">
                                 {txn.note && <span className="mr-2">{txn.note}</span>}
@@ -695,6 +1039,13 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                             <div className="text-right">
                               {txn.type === 'STOCK_IN' ? (
                                 <span className="font-bold text-blue-600">+{txn.quantity} {txn.products?.unit || ''}</span>
+                              ) : txn.type === 'ADJUSTMENT' ? (
+                                <span className="font-bold text-purple-600">{txn.quantity > 0 ? '+' : ''}{txn.quantity} {txn.products?.unit || ''}</span>
+                              ) : txn.type === 'WASTAGE' ? (
+                                <div>
+                                  <span className="font-bold text-rose-600">{txn.quantity > 0 ? '-' : '+'}{Math.abs(txn.quantity)} {txn.products?.unit || ''}</span>
+                                  <p className="text-[10px] text-slate-400">Rs {Math.abs(txn.amount || 0).toLocaleString()}</p>
+                                </div>
                               ) : (
                                 <span className={`font-bold ${txn.type === 'EXPENSE' ? 'text-orange-600' : 'text-teal-600'}`}>
                                   Rs {txn.amount?.toLocaleString()}
@@ -740,6 +1091,27 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                   {closings.length} closing records found
                 </div>
 
+                {cashierVariance.length > 0 && (
+                  <div className="bg-white rounded-2xl border border-slate-100 p-4 shadow-sm">
+                    <h3 className="font-bold text-slate-800 mb-3">Cashier Shifts</h3>
+                    <div className="space-y-2">
+                      {cashierVariance.map(c => (
+                        <div key={c.name} className="flex items-center justify-between text-sm">
+                          <div>
+                            <p className="font-medium text-slate-700">{c.name}</p>
+                            <p className="text-xs text-slate-400">{c.shifts} shifts • Sales Rs {c.sales.toLocaleString()}</p>
+                          </div>
+                          <span className={`font-bold ${c.variance < -0.5 ? 'text-red-600' : c.variance > 0.5 ? 'text-emerald-600' : 'text-slate-500'}`}>
+                            {Math.abs(c.variance) < 1
+                              ? 'No difference'
+                              : `${c.variance < 0 ? 'Short' : 'Extra'} Rs ${Math.abs(c.variance).toLocaleString()}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {closings.length === 0 ? (
                   <div className="bg-white rounded-2xl border border-slate-100 p-8 text-center text-slate-400">
                     <BarChart3 size={32} className="mx-auto mb-2 opacity-50" />
@@ -790,14 +1162,20 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                         .filter(t => t.type === 'INCOME')
                         .reduce((sum, t) => sum + (t.amount || 0), 0);
 
-                      const withdrawals = closing.total_withdrawals || 0;
+                      // Sales paid by JazzCash, bank, card etc. aren't in the drawer
+                      const dayNonCash = getNonCashReceived(getClosingPayments(closing));
 
-                      // Refined Expected Calculation
-                      const trueExpected = openingCash + sales + dayIncome - dayExpenses - withdrawals;
+                      // Refined Expected Calculation (credit sales never reached the drawer; repayments did)
+                      const trueExpected = getClosingExpectedCash(closing, transactions, customerEntries);
 
                       const loss = trueExpected - (closing.cash_received || 0);
                       const hasLoss = loss > 0;
 
+                      const costOfGoods = getClosingCostOfGoods(closing);
+                      const cashCount = getClosingCashCount(closing);
+                      const dayShifts = shifts.filter(s => s.date_str === closing.date_str && s.closed_at);
+                      const versions = closingVersions.filter(v => v.closing_id === closing.id);
+
                       return (
                         <div
                           key={closing.id}
@@ -824,6 +1202,12 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                                 <p className="text-xs text-slate-400">Sales</p>
                                 <p className="font-bold text-emerald-600">Rs {sales.toLocaleString()}</p>
                               </div>
+                              <div className="hidden md:block text-right">
+                                <p className="text-xs text-slate-400">Gross Profit</p>
+                                <p className="font-bold text-indigo-600">
+                                  {costOfGoods === null ? '-' : `Rs ${(sales - costOfGoods).toLocaleString()}`}
+                                </p>
+                              </div>
                               <div className="hidden md:block text-right">
                                 <p className="text-xs text-slate-400">Expenses</p>
                                 <p className="font-bold text-orange-600">Rs {dayExpenses.toLocaleString()}</p>
@@ -840,6 +1224,9 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                               <div className="text-right">
                                 <p className="text-xs text-slate-400">Received</p>
                                 <p className="font-bold text-blue-600">Rs {(closing.cash_received || 0).toLocaleString()}</p>
+                                {dayNonCash > 0 && (
+                                  <p className="text-[10px] text-violet-500">+ Rs {dayNonCash.toLocaleString()} other</p>
+                                )}
                               </div>
                               {hasLoss && (
                                 <div className="text-right">
@@ -861,6 +1248,56 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                               )}
                             </div>
                           </div>
+
+                          {cashCount && (
+                            <div className="mt-3 pt-3 border-t border-slate-100 flex flex-wrap gap-1.5 text-[10px] font-bold text-slate-500">
+                              {CASH_DENOMINATIONS.filter(note => cashCount.counts[note]).map(note => (
+                                <span key={note} className="bg-slate-100 px-2 py-1 rounded-lg">
+                                  Rs {note} × {cashCount.counts[note]}
+                                </span>
+                              ))}
+                              {cashCount.coins > 0 && (
+                                <span className="bg-slate-100 px-2 py-1 rounded-lg">Coins Rs {cashCount.coins}</span>
+                              )}
+                            </div>
+                          )}
+
+                          {dayShifts.length > 0 && (
+                            <div className="mt-3 pt-3 border-t border-slate-100 flex flex-wrap gap-1.5 text-[10px] font-bold">
+                              {dayShifts.map(shift => (
+                                <span
+                                  key={shift.id}
+                                  className={`px-2 py-1 rounded-lg ${(shift.variance || 0) < -0.5 ? 'bg-red-50 text-red-600' : 'bg-indigo-50 text-indigo-600'}`}
+                                >
+                                  {shift.cashier_name || 'Unknown'} • Rs {(shift.sales || 0).toLocaleString()}
+                                  {Math.abs(shift.variance || 0) >= 1 &&
+                                    ` • ${(shift.variance || 0) < 0 ? 'Short' : 'Extra'} Rs ${Math.abs(shift.variance || 0).toLocaleString()}`}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+
+                          {versions.length > 0 && (
+                            <div className="mt-3 pt-3 border-t border-slate-100 space-y-1.5">
+                              <p className="text-[10px] font-bold text-red-500 flex items-center gap-1">
+                                <RotateCcw size={12} />
+                                Reopened {versions.length}x
+                                {closing.closing_type === 'final' ? ` • showing version ${closing.version || versions.length + 1}` : ' • not locked again yet'}
+                              </p>
+                              {versions.map(v => (
+                                <div key={v.id} className="text-[10px] text-slate-500 flex flex-wrap justify-between gap-x-3">
+                                  <span>
+                                    <span className="font-bold text-slate-600">v{v.version}</span>
+                                    {' • '}{new Date(v.reopened_at).toLocaleString('en-PK', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })} by {v.reopened_by_name || 'Unknown'}: {v.reason}
+                                  </span>
+                                  <span>
+                                    Sales Rs {(v.closing.total_revenue || 0).toLocaleString()}
+                                    {' • '}Received Rs {(v.closing.cash_received || 0).toLocaleString()}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       );
                     })}
@@ -1045,6 +1482,338 @@ export const Reports: React.FC<ReportsProps> = ({ onBack, onNavigate, currentUse
                 </div>
               </div>
             )}
+
+            {/* ==================== PRODUCTS TAB ==================== */}
+            {activeTab === 'products' && (
+              <div className="space-y-4">
+                <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+                  <div className="p-5 border-b border-slate-100 bg-gradient-to-r from-emerald-50 to-white">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl bg-emerald-100 text-emerald-600 flex items-center justify-center">
+                          <Package size={20} />
+                        </div>
+                        <div>
+                          <h3 className="font-bold text-slate-800">Sales by Product</h3>
+                          <p className="text-xs text-slate-500">Units sold from closing counts · tap a product for its daily chart</p>
+                        </div>
+                      </div>
+                      <div className="flex gap-1 p-1 bg-slate-100 rounded-xl">
+                        {(['revenue', 'sold', 'wastage'] as ProductSort[]).map(key => (
+                          <button
+                            key={key}
+                            onClick={() => setProductSort(key)}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${productSort === key ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'}`}
+                          >
+                            {key === 'revenue' ? 'Sales' : key === 'sold' ? 'Units' : 'Wastage'}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="p-4">
+                    {productSales.length === 0 ? (
+                      <p className="text-center text-slate-400 py-8">No product sales or stock movement for this period</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {productSales.map((row, idx) => (
+                          <button
+                            key={row.productId}
+                            onClick={() => setSelectedProductId(selectedProductId === row.productId ? null : row.productId)}
+                            className={`w-full text-left p-3 rounded-xl transition-all ${selectedProductId === row.productId ? 'bg-emerald-50 ring-2 ring-emerald-300' : 'bg-slate-50 hover:bg-slate-100'}`}
+                          >
+                            <div className="flex items-center justify-between mb-1">
+                              <div className="flex items-center gap-2">
+                                <span className="w-6 h-6 rounded-lg bg-white text-[10px] font-bold text-slate-500 flex items-center justify-center">{idx + 1}</span>
+                                <span className="font-medium text-slate-800">{row.name}</span>
+                              </div>
+                              <span className="font-bold text-emerald-600">Rs {row.revenue.toLocaleString()}</span>
+                            </div>
+                            <div className="flex flex-wrap justify-between gap-2 text-[10px] text-slate-500 pl-8">
+                              <span>
+                                {row.sold} {row.unit} sold · In +{row.stockIn}
+                                {row.wastage !== 0 && <span className="text-rose-500"> · Wasted {row.wastage}</span>}
+                              </span>
+                              {row.trend !== null && (
+                                <span className={`flex items-center gap-0.5 font-bold ${row.trend >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                                  {row.trend >= 0 ? <ArrowUpRight size={12} /> : <ArrowDownRight size={12} />}
+                                  {Math.abs(row.trend).toFixed(0)}%
+                                </span>
+                              )}
+                            </div>
+                          </button>
+                        ))}
+                        <p className="text-[10px] text-slate-400 text-center pt-1">Trend compares units sold in the second half of the period with the first half</p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {selectedProductSales && (() => {
+                  const series = rangeDates.map(date => ({ date, ...(selectedProductSales.days[date] || { sold: 0, revenue: 0, wastage: 0, stockIn: 0 }) }));
+                  const maxSold = Math.max(...series.map(d => d.sold), 1);
+                  const labelEvery = Math.max(1, Math.ceil(series.length / 8));
+
+                  return (
+                    <div className="bg-white rounded-2xl border border-slate-100 p-5 shadow-sm">
+                      <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
+                        <BarChart3 size={20} className="text-emerald-500" />
+                        {selectedProductSales.name} - Daily Units Sold
+                      </h3>
+                      <div className="relative">
+                        <div className="absolute left-0 top-0 bottom-6 w-10 flex flex-col justify-between text-[9px] text-slate-400 text-right pr-2">
+                          <span>{maxSold}</span>
+                          <span>{Math.round(maxSold / 2)}</span>
+                          <span>0</span>
+                        </div>
+                        <div className="ml-12">
+                          <div className="flex items-end gap-[2px] h-40 border-l border-b border-slate-200 pl-1 pb-1">
+                            {series.map((day, idx) => (
+                              <div key={day.date} className="flex-1 flex flex-col items-center group relative">
+                                <div className="absolute bottom-full mb-2 hidden group-hover:block z-10">
+                                  <div className="bg-slate-800 text-white text-[10px] px-2 py-1 rounded shadow-lg whitespace-nowrap">
+                                    <p className="font-bold">{new Date(day.date).toLocaleDateString('en-PK', { day: 'numeric', month: 'short', timeZone: 'UTC' })}</p>
+                                    <p>Sold: {day.sold} {selectedProductSales.unit} (Rs {day.revenue.toLocaleString()})</p>
+                                    {day.stockIn !== 0 && <p>Stock in: {day.stockIn}</p>}
+                                    {day.wastage !== 0 && <p>Wasted: {day.wastage}</p>}
+                                  </div>
+                                </div>
+                                <div
+                                  className={`w-full rounded-t ${day.sold > 0 ? 'bg-emerald-400 hover:bg-emerald-500' : 'bg-slate-200'} ${day.wastage > 0 ? 'border-t-2 border-rose-400' : ''}`}
+                                  style={{ height: `${Math.max((day.sold / maxSold) * 100, 2)}%` }}
+                                ></div>
+                                {idx % labelEvery === 0 && (
+                                  <span className="text-[8px] mt-1 text-slate-400">{new Date(day.date).getUTCDate()}</span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-center gap-6 mt-4 text-xs">
+                        <div className="flex items-center gap-1.5">
+                          <div className="w-3 h-3 bg-emerald-400 rounded"></div>
+                          <span className="text-slate-500">Units Sold</span>
+                        </div>
+                        <div className="flex items-center gap-1.5">
+                          <div className="w-3 h-3 border-t-2 border-rose-400 bg-slate-100 rounded-sm"></div>
+                          <span className="text-slate-500">Had Wastage</span>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })()}
+              </div>
+            )}
+
+            {/* ==================== WASTAGE TAB ==================== */}
+            {activeTab === 'wastage' && (
+              <div className="space-y-4">
+                <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+                  <div className="p-5 border-b border-slate-100 bg-gradient-to-r from-rose-50 to-white">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl bg-rose-100 text-rose-600 flex items-center justify-center">
+                          <Trash2 size={20} />
+                        </div>
+                        <div>
+                          <h3 className="font-bold text-slate-800">Wastage by Product</h3>
+                          <p className="text-xs text-slate-500">Expired, spilled and damaged stock (at sale price)</p>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-2xl font-bold text-rose-600">Rs {totalWastageValue.toLocaleString()}</p>
+                        <p className="text-xs text-slate-500">Total Wastage</p>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="p-4">
+                    {wastageByProduct.length === 0 ? (
+                      <p className="text-center text-slate-400 py-8">No wastage recorded for this period</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {wastageByProduct.map(row => (
+                          <div key={row.productId ?? 'deleted'} className="p-3 bg-rose-50 rounded-xl">
+                            <div className="flex items-center justify-between mb-1">
+                              <span className="font-medium text-slate-800">{row.name}</span>
+                              <span className="font-bold text-rose-600">Rs {row.value.toLocaleString()}</span>
+                            </div>
+                            <div className="h-2 bg-rose-100 rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-rose-500 rounded-full transition-all"
+                                style={{ width: `${totalWastageValue > 0 ? (row.value / totalWastageValue) * 100 : 0}%` }}
+                              ></div>
+                            </div>
+                            <div className="flex flex-wrap justify-between gap-2 mt-1 text-[10px] text-slate-500">
+                              <span>{row.quantity} {row.unit} wasted</span>
+                              <span>
+                                {Object.entries(row.byReason)
+                                  .filter(([, qty]) => qty !== 0)
+                                  .map(([code, qty]) => `${getReasonLabel(code)}: ${qty}`)
+                                  .join(' · ')}
+                              </span>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* ==================== MARGINS TAB ==================== */}
+            {activeTab === 'margins' && (
+              <div className="space-y-4">
+                <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+                  <div className="p-5 border-b border-slate-100 bg-gradient-to-r from-indigo-50 to-white">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl bg-indigo-100 text-indigo-600 flex items-center justify-center">
+                          <Percent size={20} />
+                        </div>
+                        <div>
+                          <h3 className="font-bold text-slate-800">Gross Margin by Product</h3>
+                          <p className="text-xs text-slate-500">Sold quantities from closings, at the day's sale price and unit cost</p>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-2xl font-bold text-indigo-600">Rs {summary?.grossProfit?.toLocaleString() || 0}</p>
+                        <p className="text-xs text-slate-500">Gross Profit</p>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="p-4">
+                    {marginByProduct.length === 0 ? (
+                      <p className="text-center text-slate-400 py-8">No sales recorded in closings for this period</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {marginByProduct.map(row => {
+                          const profit = row.revenue - row.cost;
+                          const costedRevenue = row.sold > row.uncostedSold
+                            ? row.revenue * (row.sold - row.uncostedSold) / row.sold
+                            : 0;
+                          return (
+                            <div key={row.productId} className="p-3 bg-slate-50 rounded-xl">
+                              <div className="flex items-center justify-between mb-1">
+                                <span className="font-medium text-slate-800">{row.name}</span>
+                                <span className={`font-bold ${profit >= 0 ? 'text-indigo-600' : 'text-red-600'}`}>
+                                  Rs {profit.toLocaleString()}
+                                </span>
+                              </div>
+                              <div className="flex flex-wrap justify-between gap-2 text-[10px] text-slate-500">
+                                <span>{row.sold} {row.unit} sold · Sales Rs {row.revenue.toLocaleString()} · Cost Rs {row.cost.toLocaleString()}</span>
+                                <span className="font-bold">
+                                  {costedRevenue > 0 ? `${(((costedRevenue - row.cost) / costedRevenue) * 100).toFixed(1)}% margin` : 'No cost recorded'}
+                                </span>
+                              </div>
+                              {row.uncostedSold > 0 && costedRevenue > 0 && (
+                                <p className="text-[10px] text-amber-600 mt-1">
+                                  {row.uncostedSold} {row.unit} sold before a cost was recorded (counted at no cost)
+                                </p>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* ==================== STOCK HISTORY TAB ==================== */}
+            {activeTab === 'stock' && (
+              <div className="space-y-4">
+                <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+                  <div className="p-5 border-b border-slate-100 bg-gradient-to-r from-teal-50 to-white">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl bg-teal-100 text-teal-600 flex items-center justify-center">
+                          <Boxes size={20} />
+                        </div>
+                        <div>
+                          <h3 className="font-bold text-slate-800">Stock on Hand</h3>
+                          <p className="text-xs text-slate-500">Closing stock as of the last locked day on or before the date</p>
+                        </div>
+                      </div>
+                      <input
+                        type="date"
+                        value={stockDate}
+                        max={getTodayString()}
+                        onChange={(e) => setStockDate(e.target.value)}
+                        className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-teal-500 outline-none"
+                      />
+                    </div>
+                    {!stockLoading && stockRows.length > 0 && (
+                      <div className="flex flex-wrap gap-4 mt-4 text-sm">
+                        <span className="text-slate-600">
+                          Value at cost: <span className="font-bold text-teal-700">Rs {stockRows.reduce((sum, r) => sum + r.value, 0).toLocaleString()}</span>
+                        </span>
+                        {stockChainBreaks === 0 ? (
+                          <span className="text-green-600 font-medium">Stock chain checks out</span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-amber-600 font-medium">
+                            <AlertTriangle size={14} />
+                            {stockChainBreaks} product{stockChainBreaks > 1 ? 's' : ''} don't add up
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="p-4">
+                    {stockLoading ? (
+                      <div className="h-32 bg-slate-100 rounded-xl animate-pulse"></div>
+                    ) : stockRows.length === 0 ? (
+                      <p className="text-center text-slate-400 py-8">No locked closing on or before this date</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {stockRows.map(({ snap, name, unit, value, movementGap, openingGap }) => (
+                          <div key={snap.product_id} className="p-3 bg-slate-50 rounded-xl">
+                            <div className="flex items-center justify-between mb-1">
+                              <div>
+                                <span className="font-medium text-slate-800">{name}</span>
+                                {snap.date_str !== stockDate && (
+                                  <span className="ml-2 text-[10px] text-slate-400">as of {snap.date_str}</span>
+                                )}
+                              </div>
+                              <div className="text-right">
+                                <span className="font-bold text-teal-700">{snap.closing} {unit}</span>
+                                {snap.unit_cost ? (
+                                  <p className="text-[10px] text-slate-400">Rs {value.toLocaleString()}</p>
+                                ) : null}
+                              </div>
+                            </div>
+                            <div className="text-[10px] text-slate-500">
+                              Opening {snap.opening}
+                              {snap.stock_in !== 0 && <> · In +{snap.stock_in}</>}
+                              {snap.stock_returns !== 0 && <> · Returned -{snap.stock_returns}</>}
+                              {snap.adjustments !== 0 && <> · Adjusted {snap.adjustments > 0 ? '+' : ''}{snap.adjustments}</>}
+                              {snap.wastage !== 0 && <> · Wasted -{snap.wastage}</>}
+                              {' · '}Sold -{snap.sold}
+                            </div>
+                            {Math.abs(movementGap) > 0.001 && (
+                              <p className="text-[10px] text-amber-600 mt-1">
+                                Movement doesn't add up: closing is {movementGap > 0 ? '+' : ''}{movementGap} against the entries
+                              </p>
+                            )}
+                            {Math.abs(openingGap) > 0.001 && (
+                              <p className="text-[10px] text-amber-600 mt-1">
+                                Opening {snap.opening} doesn't match the previous closing {snap.previous_closing}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
           </>
         )}
       </div>
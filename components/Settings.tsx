@@ -1,8 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { Layout } from './Layout';
-import { fetchUsers, addUser, updateUser, deleteUser, fetchCategories, addCategory, updateCategory, deleteCategory, deleteDataByType, resetProductStock, getDataCounts, DeleteDataType, fetchProducts, supabase } from '../services/supabase';
-import { User, ViewState, Category, Product } from '../types';
-import { Users, UserPlus, Trash2, Lock, CheckSquare, Pencil, X, Tags, Plus, Shield, Hash, Briefcase, FolderPlus, TrendingDown, TrendingUp, ShieldCheck, Database, AlertTriangle, RefreshCw, PackageMinus, Receipt, HandCoins, Archive, Package, Save, CheckCircle, Wallet, FileText } from 'lucide-react';
+import { fetchUsers, addUser, updateUser, setUserPin, deleteUser, fetchRoles, addRole, updateRole, deleteRole, fetchCategories, addCategory, updateCategory, deleteCategory, deleteDataByType, resetProductStock, getDataCounts, DeleteDataType, fetchProducts, recordStockAdjustments, fetchTodayAdjustments, sumQuantityByProduct, isFinalClosingDoneToday, ADJUSTMENT_REASONS, getBusinessDaySettings, getBusinessDateString, saveBusinessDaySettings, loadPaymentMethods, savePaymentMethods, CASH_PAYMENT_METHOD, fetchAuditLog, AuditLogFilters, getTodayString, shiftDateString } from '../services/supabase';
+import { User, ViewState, Category, Product, BusinessDaySettings, PaymentMethod, Role, AuditEntry, AdjustmentReason } from '../types';
+import { can, canEditUser, isAdminUser, PERMISSION_OPTIONS } from '../services/permissions';
+import { Users, UserPlus, Trash2, Lock, CheckSquare, Pencil, X, Tags, Plus, Shield, Hash, Briefcase, FolderPlus, TrendingDown, TrendingUp, ShieldCheck, Database, AlertTriangle, RefreshCw, PackageMinus, Receipt, HandCoins, Archive, Package, Save, CheckCircle, Wallet, FileText, Clock, KeyRound, History, CreditCard } from 'lucide-react';
 
 interface SettingsProps {
   onBack: () => void;
@@ -10,34 +11,40 @@ interface SettingsProps {
   currentUser: User | null;
 }
 
-// Settings permission is NOT available for other users - only Owner/Admin has it
-const AVAILABLE_PERMISSIONS = [
-  { id: ViewState.STOCK_IN, label: 'Stock In' },
-  { id: ViewState.EXPENSES, label: 'Expenses' },
-  { id: ViewState.INCOME, label: 'Other Income' },
-  { id: ViewState.CLOSING, label: 'Day Closing' },
-  { id: ViewState.PRODUCTS, label: 'Manage Products' },
-  { id: ViewState.REPORTS, label: 'Reports & History' },
-  // Settings is NOT included - only Owner/Admin can access
+// Built-in role offered next to the custom roles; it has every screen
+const MANAGER_ROLE = 'Manager';
+
+// Tables recorded in audit_log (see migrations/0012_audit_log.sql)
+const AUDIT_ENTITIES: { id: string; label: string }[] = [
+  { id: 'transactions', label: 'Entries' },
+  { id: 'products', label: 'Products' },
+  { id: 'categories', label: 'Categories' },
+  { id: 'daily_closings', label: 'Closings' },
+  { id: 'cash_withdrawals', label: 'Withdrawals' },
+  { id: 'users', label: 'Staff' },
+  { id: 'roles', label: 'Roles' },
+  { id: 'app_settings', label: 'Settings' },
 ];
 
-// Check if user is protected (Owner/Admin)
-const isProtectedUser = (user: User): boolean => {
-  const role = user.role?.toLowerCase() || '';
-  return role === 'owner' || role === 'admin' || role === 'administrator';
+const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
 };
 
-// Check if current user can edit target user
-const canEditUser = (targetUser: User, currentUser: User | null): boolean => {
-  if (!currentUser) return false;
-  
-  // User can always edit themselves (for PIN change)
-  if (targetUser.id === currentUser.id) return true;
-  
-  // Protected users can only be edited by themselves
-  if (isProtectedUser(targetUser)) return false;
-  
-  return true;
+// Short, readable list of what an audit entry changed
+const describeAuditChanges = (entry: AuditEntry): string[] => {
+  if (entry.action === 'UPDATE') {
+    const before = entry.before_data || {};
+    const after = entry.after_data || {};
+    return Object.keys(after)
+      .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+      .map(key => key === 'pin_changed' ? 'PIN changed' : `${key}: ${formatAuditValue(before[key])} → ${formatAuditValue(after[key])}`);
+  }
+  const row = entry.after_data || entry.before_data || {};
+  return ['name', 'description', 'amount', 'quantity', 'total_revenue', 'date_str', 'role', 'key']
+    .filter(key => row[key] !== undefined && row[key] !== null)
+    .map(key => `${key}: ${formatAuditValue(row[key])}`);
 };
 
 export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentUser }) => {
@@ -52,7 +59,9 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
   const [userName, setUserName] = useState('');
   const [pin, setPin] = useState('');
   const [role, setRole] = useState('');
+  const [roleId, setRoleId] = useState<number | null>(null);
   const [permissions, setPermissions] = useState<string[]>([]);
+  const [deniedPermissions, setDeniedPermissions] = useState<string[]>([]);
   const [userSaving, setUserSaving] = useState(false);
 
   // Category Modal State
@@ -64,8 +73,22 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
   const [categorySaving, setCategorySaving] = useState(false);
   const [expandedCategories, setExpandedCategories] = useState<Set<number>>(new Set());
 
+  // Roles State (edited in place, saved together)
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [roleEdits, setRoleEdits] = useState<Record<number, string[]>>({});
+  const [newRoleName, setNewRoleName] = useState('');
+  const [savingRoles, setSavingRoles] = useState(false);
+
+  // Audit Log State
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditFilters, setAuditFilters] = useState<AuditLogFilters>({
+    startDate: shiftDateString(getTodayString(), -7),
+    endDate: getTodayString()
+  });
+  const [auditLoading, setAuditLoading] = useState(false);
+
   // Active Tab
-  const [activeTab, setActiveTab] = useState<'users' | 'categories' | 'stock' | 'data'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'roles' | 'categories' | 'stock' | 'business' | 'audit' | 'data'>('users');
 
   // Data Management State
   const [dataCounts, setDataCounts] = useState({ transactions: 0, stockIn: 0, expenses: 0, income: 0, closings: 0, withdrawals: 0 });
@@ -75,33 +98,51 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
   // Stock Adjustment State
   const [products, setProducts] = useState<Product[]>([]);
   const [stockAdjustments, setStockAdjustments] = useState<Record<number, string>>({});
+  // Opening stock including today's adjustments, per product id
+  const [stockLevels, setStockLevels] = useState<Record<number, number>>({});
+  const [adjustmentReason, setAdjustmentReason] = useState<AdjustmentReason | ''>('');
+  const [adjustmentNote, setAdjustmentNote] = useState('');
   const [savingStock, setSavingStock] = useState(false);
   const [stockSaveSuccess, setStockSaveSuccess] = useState(false);
 
+  // Business Day State
+  const [businessDay, setBusinessDay] = useState<BusinessDaySettings>(getBusinessDaySettings());
+  const [savingBusinessDay, setSavingBusinessDay] = useState(false);
+
+  // Payment Methods State
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [newPaymentMethod, setNewPaymentMethod] = useState('');
+  const [savingPaymentMethods, setSavingPaymentMethods] = useState(false);
+
   useEffect(() => {
     loadData();
   }, []);
 
+  useEffect(() => {
+    if (activeTab === 'audit') loadAuditLog();
+  }, [activeTab, auditFilters]);
+
+  useEffect(() => {
+    if (activeTab === 'business') {
+      loadPaymentMethods().then(setPaymentMethods).catch(err => console.error(err));
+    }
+  }, [activeTab]);
+
   const loadData = async () => {
     setLoading(true);
     try {
-      const [userData, catData, counts, productsData] = await Promise.all([
+      const [userData, roleData, catData, counts] = await Promise.all([
         fetchUsers(), 
+        fetchRoles(),
         fetchCategories(),
         getDataCounts(),
-        fetchProducts()
+        loadStockLevels()
       ]);
       setUsers(userData);
+      setRoles(roleData);
+      setRoleEdits({});
       setCategories(catData);
       setDataCounts(counts);
-      setProducts(productsData);
-      
-      // Initialize stock adjustments with current values
-      const initialAdjustments: Record<number, string> = {};
-      productsData.forEach(p => {
-        if (p.id) initialAdjustments[p.id] = (p.current_opening_stock || 0).toString();
-      });
-      setStockAdjustments(initialAdjustments);
     } catch (err) {
       console.error(err);
     } finally {
@@ -109,58 +150,112 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
     }
   };
 
+  const loadStockLevels = async () => {
+    const [productsData, adjustments, dayLocked] = await Promise.all([
+      fetchProducts(),
+      fetchTodayAdjustments(),
+      isFinalClosingDoneToday()
+    ]);
+    // After the final closing, today's adjustments are already in current_opening_stock
+    const adjusted = dayLocked ? {} : sumQuantityByProduct(adjustments);
+
+    const levels: Record<number, number> = {};
+    const initialAdjustments: Record<number, string> = {};
+    productsData.forEach(p => {
+      levels[p.id] = (p.current_opening_stock || 0) + (adjusted[p.id] || 0);
+      initialAdjustments[p.id] = levels[p.id].toString();
+    });
+
+    setProducts(productsData);
+    setStockLevels(levels);
+    setStockAdjustments(initialAdjustments);
+  };
+
   // ============ USER HANDLERS ============
   const openAddUserModal = () => {
     setEditingUser(null);
     setUserName('');
     setPin('');
     setRole('');
+    setRoleId(null);
     setPermissions([]);
+    setDeniedPermissions([]);
     setShowUserModal(true);
   };
 
   const openEditUserModal = (user: User) => {
     // Check if current user can edit this user
-    if (!canEditUser(user, currentUser)) {
+    if (!canEditUser(currentUser, user)) {
       alert('You cannot edit this account.');
       return;
     }
     
     setEditingUser(user);
     setUserName(user.name);
-    setPin(user.pin);
+    setPin(''); // PINs are stored hashed; leave blank to keep the current one
     setRole(user.role);
+    setRoleId(user.role_id ?? null);
     // Filter out 'settings' from permissions if present
     setPermissions((user.permissions || []).filter(p => p.toLowerCase() !== 'settings'));
+    setDeniedPermissions(user.denied_permissions || []);
     setShowUserModal(true);
   };
   
   // Check if editing own account (for restricted edit mode)
   const isEditingSelf = editingUser?.id === currentUser?.id;
-  const isEditingProtectedUser = editingUser ? isProtectedUser(editingUser) : false;
+  const isEditingProtectedUser = editingUser ? isAdminUser(editingUser) : false;
 
   const closeUserModal = () => {
     setShowUserModal(false);
     setEditingUser(null);
   };
 
+  const selectedRole = roles.find(r => r.id === roleId);
+  const rolePermissions = selectedRole?.permissions || [];
+
+  const handleSelectRole = (value: string) => {
+    if (value === MANAGER_ROLE) {
+      setRole(MANAGER_ROLE);
+      setRoleId(null);
+    } else {
+      const selected = roles.find(r => r.id === Number(value));
+      setRole(selected?.name || '');
+      setRoleId(selected?.id ?? null);
+    }
+    // Overrides only make sense against the role they were made for
+    setPermissions([]);
+    setDeniedPermissions([]);
+  };
+
+  // Role permissions toggle a per-user denial; anything else toggles an extra grant
   const handleTogglePermission = (permId: string) => {
-    setPermissions(prev => 
-      prev.includes(permId) 
-        ? prev.filter(p => p !== permId)
-        : [...prev, permId]
-    );
+    const toggle = (prev: string[]) =>
+      prev.includes(permId) ? prev.filter(p => p !== permId) : [...prev, permId];
+
+    if (rolePermissions.includes(permId)) {
+      setDeniedPermissions(toggle);
+    } else {
+      setPermissions(toggle);
+    }
   };
 
+  const hasPermission = (permId: string) =>
+    rolePermissions.includes(permId)
+      ? !deniedPermissions.includes(permId)
+      : permissions.includes(permId);
+
   const handleSaveUser = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!userName || !pin || !role) return;
+    if (!userName || !role) return;
+    // New users need a PIN; when editing, a blank PIN keeps the current one
+    if ((!editingUser || pin) && pin.length !== 4) return;
     
     setUserSaving(true);
     try {
       // If editing protected user (themselves), only update PIN
-      if (editingUser && isProtectedUser(editingUser) && editingUser.id === currentUser?.id) {
-        await updateUser(editingUser.id, { pin });
+      if (editingUser && isAdminUser(editingUser) && editingUser.id === currentUser?.id) {
+        if (!pin) return;
+        await setUserPin(editingUser.id!, pin);
         closeUserModal();
         const newUsers = await fetchUsers();
         setUsers(newUsers);
@@ -168,8 +263,7 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
       }
       
       // Prevent creating admin/owner roles for new users
-      const roleLower = role.toLowerCase();
-      if (!editingUser && (roleLower === 'admin' || roleLower === 'owner' || roleLower === 'administrator')) {
+      if (!editingUser && isAdminUser({ name: userName, role })) {
         alert('Cannot create users with Admin/Owner role. These are reserved roles.');
         setUserSaving(false);
         return;
@@ -182,15 +276,17 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
       const payload = { 
         name: userName, 
         username: userName.toLowerCase().replace(/\s+/g, ''), // Auto-generate username from name
-        pin, 
         role, 
-        permissions: finalPermissions 
+        role_id: roleId,
+        permissions: finalPermissions,
+        denied_permissions: deniedPermissions.filter(p => rolePermissions.includes(p))
       };
       
       if (editingUser?.id) {
         await updateUser(editingUser.id, payload);
+        if (pin) await setUserPin(editingUser.id, pin);
       } else {
-        await addUser(payload);
+        await addUser(payload, pin);
       }
       closeUserModal();
       const newUsers = await fetchUsers();
@@ -205,7 +301,7 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
 
   const handleDeleteUser = async (id: number, user: User) => {
     // Don't allow deleting protected users
-    if (isProtectedUser(user)) {
+    if (isAdminUser(user)) {
       alert('Administrator account cannot be deleted.');
       return;
     }
@@ -221,6 +317,81 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
     }
   };
 
+  // ============ AUDIT LOG ============
+  const loadAuditLog = async () => {
+    setAuditLoading(true);
+    try {
+      setAuditEntries(await fetchAuditLog(auditFilters));
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setAuditLoading(false);
+    }
+  };
+
+  // ============ ROLE HANDLERS ============
+  const getRolePermissions = (r: Role) => roleEdits[r.id] ?? r.permissions;
+
+  const handleToggleRolePermission = (r: Role, permId: string) => {
+    const current = getRolePermissions(r);
+    setRoleEdits(prev => ({
+      ...prev,
+      [r.id]: current.includes(permId) ? current.filter(p => p !== permId) : [...current, permId]
+    }));
+  };
+
+  const handleAddRole = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newRoleName.trim()) return;
+    try {
+      const created = await addRole(newRoleName);
+      setRoles(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewRoleName('');
+    } catch (err: any) {
+      console.error(err);
+      alert('Failed to add role: ' + (err.message || 'Unknown error'));
+    }
+  };
+
+  const handleRenameRole = async (r: Role) => {
+    const name = window.prompt('Role name', r.name);
+    if (!name || name.trim() === r.name) return;
+    try {
+      await updateRole(r.id, { name });
+      await loadData();
+    } catch (err: any) {
+      console.error(err);
+      alert('Failed to rename role: ' + (err.message || 'Unknown error'));
+    }
+  };
+
+  const handleDeleteRole = async (r: Role) => {
+    if (!window.confirm(`Delete the "${r.name}" role?`)) return;
+    try {
+      await deleteRole(r.id);
+      setRoles(prev => prev.filter(x => x.id !== r.id));
+    } catch (err: any) {
+      console.error(err);
+      alert(err.message || 'Failed to delete role');
+    }
+  };
+
+  const handleSaveRoles = async () => {
+    setSavingRoles(true);
+    try {
+      for (const id of Object.keys(roleEdits)) {
+        await updateRole(Number(id), { permissions: roleEdits[Number(id)] });
+      }
+      // Staff cards show role permissions, so reload both
+      await loadData();
+    } catch (err: any) {
+      console.error(err);
+      alert('Failed to save roles: ' + (err.message || 'Unknown error'));
+    } finally {
+      setSavingRoles(false);
+    }
+  };
+
   // ============ CATEGORY HANDLERS ============
   const openAddCategoryModal = (type: 'EXPENSE' | 'INCOME', parentId?: number) => {
     setEditingCategory(null);
@@ -357,20 +528,49 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
     setStockSaveSuccess(false);
   };
 
+  // ============ BUSINESS DAY HANDLERS ============
+  const handleSaveBusinessDay = async () => {
+    setSavingBusinessDay(true);
+    const result = await saveBusinessDaySettings(businessDay);
+    setSavingBusinessDay(false);
+    alert(result.message);
+  };
+
+  // ============ PAYMENT METHOD HANDLERS ============
+  const handleAddPaymentMethod = () => {
+    const label = newPaymentMethod.trim();
+    if (!label) return;
+    const id = label.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+    if (!id || paymentMethods.some(m => m.id === id)) {
+      alert('This payment method already exists.');
+      return;
+    }
+    setPaymentMethods([...paymentMethods, { id, label }]);
+    setNewPaymentMethod('');
+  };
+
+  const handleSavePaymentMethods = async () => {
+    setSavingPaymentMethods(true);
+    const result = await savePaymentMethods(paymentMethods);
+    setSavingPaymentMethods(false);
+    alert(result.message);
+  };
+
   const handleSaveStockAdjustments = async () => {
-    const changes: { id: number; name: string; oldStock: number; newStock: number }[] = [];
+    const changes: { productId: number; name: string; oldStock: number; newStock: number; quantity: number }[] = [];
     
     // Find all products with changes
     products.forEach(product => {
       if (!product.id) return;
       const newValue = parseInt(stockAdjustments[product.id] || '0');
-      const oldValue = product.current_opening_stock || 0;
+      const oldValue = stockLevels[product.id] || 0;
       if (newValue !== oldValue) {
         changes.push({
-          id: product.id,
+          productId: product.id,
           name: product.name,
           oldStock: oldValue,
-          newStock: newValue
+          newStock: newValue,
+          quantity: newValue - oldValue
         });
       }
     });
@@ -380,43 +580,37 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
       return;
     }
 
+    if (!adjustmentReason) {
+      alert('Please select a reason for the adjustment.');
+      return;
+    }
+
     // Confirm changes
     const changesList = changes.map(c => `• ${c.name}: ${c.oldStock} → ${c.newStock}`).join('\n');
     if (!window.confirm(`Save these stock adjustments?\n\n${changesList}`)) return;
 
     setSavingStock(true);
     try {
-      // Update each product
-      for (const change of changes) {
-        const { error } = await supabase
-          .from('products')
-          .update({ current_opening_stock: change.newStock })
-          .eq('id', change.id);
-        
-        if (error) throw error;
-      }
-
-      // Reload products
-      const updatedProducts = await fetchProducts();
-      setProducts(updatedProducts);
-      
-      // Update adjustments state
-      const newAdjustments: Record<number, string> = {};
-      updatedProducts.forEach(p => {
-        if (p.id) newAdjustments[p.id] = (p.current_opening_stock || 0).toString();
-      });
-      setStockAdjustments(newAdjustments);
+      await recordStockAdjustments(changes, adjustmentReason, adjustmentNote.trim());
+      await loadStockLevels();
+      setAdjustmentReason('');
+      setAdjustmentNote('');
       
       setStockSaveSuccess(true);
       setTimeout(() => setStockSaveSuccess(false), 3000);
-    } catch (err) {
+    } catch (err: any) {
       console.error(err);
-      alert('Failed to save stock adjustments');
+      alert('Failed to save stock adjustments: ' + (err.message || 'Unknown error'));
     } finally {
       setSavingStock(false);
     }
   };
 
+  // Role permissions plus extras, minus what was removed for this user
+  const getUserPermissionBadges = (user: User) =>
+    Array.from(new Set([...(user.role_permissions || []), ...(user.permissions || [])]))
+      .filter(p => p.toLowerCase() !== 'settings' && !(user.denied_permissions || []).includes(p));
+
   // Main categories (no parent)
   const expenseCategories = categories.filter(c => c.type === 'EXPENSE' && !c.parent_id);
   const incomeCategories = categories.filter(c => c.type === 'INCOME' && !c.parent_id);
@@ -447,39 +641,84 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
             <Users size={14} />
             Staff
           </button>
-          <button
-            onClick={() => setActiveTab('categories')}
-            className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold transition-all whitespace-nowrap ${
-              activeTab === 'categories' 
-                ? 'bg-white text-slate-800 shadow-sm' 
-                : 'text-slate-500'
-            }`}
-          >
-            <Tags size={14} />
-            Categories
-          </button>
-          <button
-            onClick={() => setActiveTab('stock')}
-            className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold transition-all whitespace-nowrap ${
-              activeTab === 'stock' 
-                ? 'bg-white text-slate-800 shadow-sm' 
-                : 'text-slate-500'
-            }`}
-          >
-            <Package size={14} />
-            Stock
-          </button>
-          <button
-            onClick={() => setActiveTab('data')}
-            className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold transition-all whitespace-nowrap ${
-              activeTab === 'data' 
-                ? 'bg-white text-slate-800 shadow-sm' 
-                : 'text-slate-500'
-            }`}
-          >
-            <Database size={14} />
-            Data
-          </button>
+          {can(currentUser, 'MANAGE_USERS') && (
+            <button
+              onClick={() => setActiveTab('roles')}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold transition-all whitespace-nowrap ${
+                activeTab === 'roles' 
+                  ? 'bg-white text-slate-800 shadow-sm' 
+                  : 'text-slate-500'
+              }`}
+            >
+              <KeyRound size={14} />
+              Roles
+            </button>
+          )}
+          {can(currentUser, 'MANAGE_CATEGORIES') && (
+            <button
+              onClick={() => setActiveTab('categories')}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold transition-all whitespace-nowrap ${
+                activeTab === 'categories' 
+                  ? 'bg-white text-slate-800 shadow-sm' 
+                  : 'text-slate-500'
+              }`}
+            >
+              <Tags size={14} />
+              Categories
+            </button>
+          )}
+          {can(currentUser, 'ADJUST_STOCK') && (
+            <button
+              onClick={() => setActiveTab('stock')}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold transition-all whitespace-nowrap ${
+                activeTab === 'stock' 
+                  ? 'bg-white text-slate-800 shadow-sm' 
+                  : 'text-slate-500'
+              }`}
+            >
+              <Package size={14} />
+              Stock
+            </button>
+          )}
+          {can(currentUser, 'MANAGE_SETTINGS') && (
+            <button
+              onClick={() => setActiveTab('business')}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold transition-all whitespace-nowrap ${
+                activeTab === 'business' 
+                  ? 'bg-white text-slate-800 shadow-sm' 
+                  : 'text-slate-500'
+              }`}
+            >
+              <Clock size={14} />
+              Business Day
+            </button>
+          )}
+          {can(currentUser, 'VIEW_AUDIT_LOG') && (
+            <button
+              onClick={() => setActiveTab('audit')}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold transition-all whitespace-nowrap ${
+                activeTab === 'audit' 
+                  ? 'bg-white text-slate-800 shadow-sm' 
+                  : 'text-slate-500'
+              }`}
+            >
+              <History size={14} />
+              Audit
+            </button>
+          )}
+          {can(currentUser, 'DELETE_DATA') && (
+            <button
+              onClick={() => setActiveTab('data')}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold transition-all whitespace-nowrap ${
+                activeTab === 'data' 
+                  ? 'bg-white text-slate-800 shadow-sm' 
+                  : 'text-slate-500'
+              }`}
+            >
+              <Database size={14} />
+              Data
+            </button>
+          )}
         </div>
 
         {/* ============ USERS TAB ============ */}
@@ -522,9 +761,9 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
             ) : (
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
                 {users.map(user => {
-                  const isProtected = isProtectedUser(user);
+                  const isProtected = isAdminUser(user);
                   const isSelf = user.id === currentUser?.id;
-                  const canEdit = canEditUser(user, currentUser);
+                  const canEdit = canEditUser(currentUser, user);
                   
                   return (
                     <div 
@@ -564,6 +803,11 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
                             }`}>
                               {user.role}
                             </span>
+                            {user.locked_until && new Date(user.locked_until) > new Date() && (
+                              <span className="ml-1 text-[10px] font-bold px-2 py-0.5 rounded-md uppercase bg-red-100 text-red-600">
+                                Locked till {new Date(user.locked_until).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                              </span>
+                            )}
                           </div>
                         </div>
                  
@@ -609,8 +853,8 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
                           <span className="text-[10px] font-bold uppercase bg-amber-100 text-amber-600 px-2 py-1 rounded-md">
                             Full Access (All Permissions)
                           </span>
-                        ) : user.permissions && user.permissions.length > 0 ? (
-                          user.permissions.filter(p => p.toLowerCase() !== 'settings').slice(0, 4).map(p => (
+                        ) : getUserPermissionBadges(user).length > 0 ? (
+                          getUserPermissionBadges(user).slice(0, 4).map(p => (
                             <span 
                               key={p} 
                               className="text-[10px] font-bold uppercase bg-slate-100 text-slate-500 px-2 py-1 rounded-md"
@@ -623,9 +867,9 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
                             Default Access
                           </span>
                         )}
-                        {!isProtected && user.permissions && user.permissions.filter(p => p.toLowerCase() !== 'settings').length > 4 && (
+                        {!isProtected && getUserPermissionBadges(user).length > 4 && (
                           <span className="text-[10px] font-bold bg-slate-200 text-slate-500 px-2 py-1 rounded-md">
-                            +{user.permissions.filter(p => p.toLowerCase() !== 'settings').length - 4} more
+                            +{getUserPermissionBadges(user).length - 4} more
                           </span>
                         )}
                       </div>
@@ -637,8 +881,122 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
           </div>
         )}
 
+        {/* ============ ROLES TAB ============ */}
+        {activeTab === 'roles' && can(currentUser, 'MANAGE_USERS') && (
+          <div className="space-y-4">
+            {/* Header */}
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <h2 className="text-base font-bold text-slate-800">Roles</h2>
+                <p className="text-xs text-slate-500 hidden sm:block">What each role can see and do. Staff get their role's access plus any overrides.</p>
+              </div>
+              <button
+                onClick={handleSaveRoles}
+                disabled={savingRoles || Object.keys(roleEdits).length === 0}
+                className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-xl text-xs font-bold shadow-md shadow-blue-200 transition-all flex-shrink-0 disabled:opacity-50"
+              >
+                <Save size={16} />
+                {savingRoles ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+
+            {/* Add Role */}
+            <form onSubmit={handleAddRole} className="flex gap-2">
+              <input
+                type="text"
+                value={newRoleName}
+                onChange={e => setNewRoleName(e.target.value)}
+                placeholder="New role, e.g. Cashier"
+                className="flex-1 px-4 py-2.5 rounded-xl border border-slate-200 bg-white focus:border-blue-500 outline-none transition-all text-sm"
+              />
+              <button
+                type="submit"
+                disabled={!newRoleName.trim()}
+                className="flex items-center gap-1.5 bg-slate-800 hover:bg-slate-900 text-white px-3 py-2 rounded-xl text-xs font-bold transition-all disabled:opacity-50"
+              >
+                <Plus size={16} /> Add Role
+              </button>
+            </form>
+
+            {/* Permission Matrix */}
+            {roles.length === 0 ? (
+              <div className="bg-white rounded-2xl p-8 border border-slate-100 text-center text-sm text-slate-400">
+                No roles yet. Add one above.
+              </div>
+            ) : (
+              <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-100 bg-slate-50">
+                      <th className="text-left px-4 py-3 text-[10px] font-bold text-slate-500 uppercase">Permission</th>
+                      {roles.map(r => (
+                        <th key={r.id} className="px-3 py-3 text-center min-w-[110px]">
+                          <div className="flex items-center justify-center gap-1">
+                            <button
+                              onClick={() => handleRenameRole(r)}
+                              className="text-xs font-bold text-slate-700 hover:text-blue-600"
+                              title="Rename role"
+                            >
+                              {r.name}
+                            </button>
+                            <button
+                              onClick={() => handleDeleteRole(r)}
+                              className="p-1 text-slate-300 hover:text-red-600 rounded"
+                              title="Delete role"
+                            >
+                              <Trash2 size={12} />
+                            </button>
+                          </div>
+                          <p className="text-[10px] font-medium text-slate-400">
+                            {users.filter(u => u.role_id === r.id).length} staff
+                          </p>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {PERMISSION_OPTIONS.map(perm => (
+                      <tr key={perm.id} className="border-b border-slate-50 last:border-0">
+                        <td className="px-4 py-2.5">
+                          <span className="font-medium text-slate-700">{perm.label}</span>
+                          <span className={`ml-2 text-[9px] font-bold uppercase px-1.5 py-0.5 rounded ${
+                            perm.kind === 'view' ? 'bg-blue-50 text-blue-500' : 'bg-purple-50 text-purple-500'
+                          }`}>
+                            {perm.kind === 'view' ? 'Screen' : 'Action'}
+                          </span>
+                        </td>
+                        {roles.map(r => {
+                          const checked = getRolePermissions(r).includes(perm.id);
+                          return (
+                            <td key={r.id} className="px-3 py-2.5 text-center">
+                              <button
+                                onClick={() => handleToggleRolePermission(r, perm.id)}
+                                className={`w-6 h-6 rounded-md border inline-flex items-center justify-center transition-all ${
+                                  checked
+                                    ? 'bg-blue-600 border-blue-600 text-white'
+                                    : 'border-slate-300 hover:border-blue-400'
+                                }`}
+                              >
+                                {checked && <CheckSquare size={12} />}
+                              </button>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <p className="text-[11px] text-slate-400">
+              Owner, Admin and Manager are built-in roles with full screen access and are not listed here.
+            </p>
+          </div>
+        )}
+
         {/* ============ CATEGORIES TAB ============ */}
-        {activeTab === 'categories' && (
+        {activeTab === 'categories' && can(currentUser, 'MANAGE_CATEGORIES') && (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {/* Expense Categories */}
             <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
@@ -861,7 +1219,7 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
         )}
 
         {/* ============ STOCK ADJUSTMENT TAB ============ */}
-        {activeTab === 'stock' && (
+        {activeTab === 'stock' && can(currentUser, 'ADJUST_STOCK') && (
           <div className="space-y-6">
             {/* Header */}
             <div className="bg-white rounded-2xl border border-slate-200 p-5">
@@ -912,11 +1270,38 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
               <div>
                 <p className="text-sm text-amber-800 font-medium">When to use Stock Adjustment?</p>
                 <p className="text-xs text-amber-700 mt-1">
-                  Use this when physical stock count doesn't match the system. Adjust here to correct any discrepancies.
+                  Use this when physical stock count doesn't match the system. Each change is saved as an adjustment with its reason and shows up in Stock In history and Reports.
                 </p>
                                         </div>
                                     </div>
 
+            {/* Reason - required for every adjustment */}
+            <div className="bg-white rounded-2xl border border-slate-200 p-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Reason *</label>
+                <select
+                  value={adjustmentReason}
+                  onChange={(e) => setAdjustmentReason(e.target.value as AdjustmentReason)}
+                  className="w-full px-3 py-2.5 text-sm rounded-xl border border-slate-200 bg-slate-50 outline-none focus:border-blue-400"
+                >
+                  <option value="" disabled>Select reason</option>
+                  {ADJUSTMENT_REASONS.map(r => (
+                    <option key={r.id} value={r.id}>{r.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Note</label>
+                <input
+                  type="text"
+                  value={adjustmentNote}
+                  onChange={(e) => setAdjustmentNote(e.target.value)}
+                  placeholder="Optional details"
+                  className="w-full px-3 py-2.5 text-sm rounded-xl border border-slate-200 bg-slate-50 outline-none focus:border-blue-400"
+                />
+              </div>
+            </div>
+
             {/* Products List - Mobile friendly */}
             <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden">
               {/* Products */}
@@ -927,7 +1312,7 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
                   <div className="p-8 text-center text-slate-400">No products found</div>
                 ) : (
                   products.map(product => {
-                    const currentStock = product.current_opening_stock || 0;
+                    const currentStock = stockLevels[product.id] || 0;
                     const newStock = parseInt(stockAdjustments[product.id!] || '0');
                     const hasChange = newStock !== currentStock;
                     
@@ -967,8 +1352,249 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
           </div>
         )}
 
+        {/* ============ BUSINESS DAY TAB ============ */}
+        {activeTab === 'business' && can(currentUser, 'MANAGE_SETTINGS') && (
+          <div className="space-y-4">
+            <div className="bg-white rounded-2xl border border-slate-200 p-5 space-y-4">
+              <div className="flex items-center gap-3">
+                <div className="w-12 h-12 bg-indigo-100 rounded-xl flex items-center justify-center">
+                  <Clock size={24} className="text-indigo-600" />
+                </div>
+                <div>
+                  <h2 className="font-bold text-slate-800">Business Day</h2>
+                  <p className="text-sm text-slate-500">Timezone aur din badalne ka waqt</p>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Timezone</label>
+                <input
+                  type="text"
+                  value={businessDay.timezone}
+                  onChange={(e) => setBusinessDay({ ...businessDay, timezone: e.target.value })}
+                  placeholder="Asia/Karachi"
+                  className="w-full px-3 py-2.5 text-sm rounded-xl border border-slate-200 bg-slate-50 outline-none focus:border-indigo-400"
+                />
+                <p className="text-[10px] text-slate-400 mt-1">IANA name, e.g. Asia/Karachi, Asia/Dubai, Europe/London</p>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Day starts at</label>
+                <select
+                  value={businessDay.cutoverHour}
+                  onChange={(e) => setBusinessDay({ ...businessDay, cutoverHour: parseInt(e.target.value) })}
+                  className="w-full px-3 py-2.5 text-sm rounded-xl border border-slate-200 bg-slate-50 outline-none focus:border-indigo-400"
+                >
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <option key={hour} value={hour}>
+                      {hour.toString().padStart(2, '0')}:00{hour === 0 ? ' (midnight)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-[10px] text-slate-400 mt-1">
+                  Entries before this hour count towards the previous day (for shops open past midnight)
+                </p>
+              </div>
+
+              <div className="bg-slate-50 rounded-xl p-3 text-sm text-slate-600">
+                Business date right now:{' '}
+                <span className="font-bold text-slate-800">
+                  {(() => {
+                    try {
+                      return getBusinessDateString(new Date(), businessDay);
+                    } catch {
+                      return 'Invalid timezone';
+                    }
+                  })()}
+                </span>
+              </div>
+
+              <button
+                onClick={handleSaveBusinessDay}
+                disabled={savingBusinessDay}
+                className="w-full flex items-center justify-center gap-2 px-5 py-2.5 rounded-xl text-sm font-bold bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {savingBusinessDay ? <RefreshCw size={16} className="animate-spin" /> : <Save size={16} />}
+                {savingBusinessDay ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start gap-3">
+              <AlertTriangle size={20} className="text-amber-600 flex-shrink-0 mt-0.5" />
+              <p className="text-xs text-amber-700">
+                Change this only after today's final closing. Entries already saved keep the date they were recorded with.
+              </p>
+            </div>
+
+            {/* Payment Methods */}
+            <div className="bg-white rounded-2xl border border-slate-200 p-5 space-y-4">
+              <div className="flex items-center gap-3">
+                <div className="w-12 h-12 bg-violet-100 rounded-xl flex items-center justify-center">
+                  <CreditCard size={24} className="text-violet-600" />
+                </div>
+                <div>
+                  <h2 className="font-bold text-slate-800">Payment Methods</h2>
+                  <p className="text-sm text-slate-500">Closing mein har method ka amount alag likha jayega</p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {paymentMethods.map((method, idx) => (
+                  <div key={method.id} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={method.label}
+                      onChange={(e) => setPaymentMethods(paymentMethods.map((m, i) => i === idx ? { ...m, label: e.target.value } : m))}
+                      className="flex-1 px-3 py-2 text-sm rounded-xl border border-slate-200 bg-slate-50 outline-none focus:border-violet-400"
+                    />
+                    {method.id === CASH_PAYMENT_METHOD ? (
+                      <span className="w-9 flex justify-center text-slate-300" title="Cash is the drawer and can't be removed">
+                        <Lock size={16} />
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => setPaymentMethods(paymentMethods.filter((_, i) => i !== idx))}
+                        className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newPaymentMethod}
+                  onChange={(e) => setNewPaymentMethod(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddPaymentMethod()}
+                  placeholder="e.g. SadaPay"
+                  className="flex-1 px-3 py-2 text-sm rounded-xl border border-slate-200 bg-slate-50 outline-none focus:border-violet-400"
+                />
+                <button
+                  onClick={handleAddPaymentMethod}
+                  disabled={!newPaymentMethod.trim()}
+                  className="px-4 py-2 rounded-xl text-sm font-bold bg-violet-100 text-violet-700 hover:bg-violet-200 disabled:opacity-50 flex items-center gap-1"
+                >
+                  <Plus size={16} /> Add
+                </button>
+              </div>
+
+              <button
+                onClick={handleSavePaymentMethods}
+                disabled={savingPaymentMethods}
+                className="w-full flex items-center justify-center gap-2 px-5 py-2.5 rounded-xl text-sm font-bold bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-50"
+              >
+                {savingPaymentMethods ? <RefreshCw size={16} className="animate-spin" /> : <Save size={16} />}
+                {savingPaymentMethods ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* ============ AUDIT LOG TAB ============ */}
+        {activeTab === 'audit' && can(currentUser, 'VIEW_AUDIT_LOG') && (
+          <div className="space-y-4">
+            {/* Filters */}
+            <div className="bg-white rounded-2xl border border-slate-200 p-4 grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Staff</label>
+                <select
+                  value={auditFilters.userId || ''}
+                  onChange={(e) => setAuditFilters({ ...auditFilters, userId: e.target.value ? Number(e.target.value) : undefined })}
+                  className="w-full px-3 py-2 text-sm rounded-xl border border-slate-200 bg-slate-50 outline-none focus:border-blue-400"
+                >
+                  <option value="">Everyone</option>
+                  {users.map(u => (
+                    <option key={u.id} value={u.id}>{u.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Record</label>
+                <select
+                  value={auditFilters.entity || ''}
+                  onChange={(e) => setAuditFilters({ ...auditFilters, entity: e.target.value || undefined })}
+                  className="w-full px-3 py-2 text-sm rounded-xl border border-slate-200 bg-slate-50 outline-none focus:border-blue-400"
+                >
+                  <option value="">All</option>
+                  {AUDIT_ENTITIES.map(e => (
+                    <option key={e.id} value={e.id}>{e.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">From</label>
+                <input
+                  type="date"
+                  value={auditFilters.startDate || ''}
+                  onChange={(e) => setAuditFilters({ ...auditFilters, startDate: e.target.value || undefined })}
+                  className="w-full px-3 py-2 text-sm rounded-xl border border-slate-200 bg-slate-50 outline-none focus:border-blue-400"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">To</label>
+                <input
+                  type="date"
+                  value={auditFilters.endDate || ''}
+                  onChange={(e) => setAuditFilters({ ...auditFilters, endDate: e.target.value || undefined })}
+                  className="w-full px-3 py-2 text-sm rounded-xl border border-slate-200 bg-slate-50 outline-none focus:border-blue-400"
+                />
+              </div>
+            </div>
+
+            {/* Entries */}
+            <div className="bg-white rounded-2xl border border-slate-100 shadow-sm divide-y divide-slate-50">
+              {auditLoading ? (
+                <div className="p-8 text-center text-sm text-slate-400">Loading...</div>
+              ) : auditEntries.length === 0 ? (
+                <div className="p-8 text-center text-sm text-slate-400">No changes recorded for these filters.</div>
+              ) : (
+                auditEntries.map(entry => (
+                  <div key={entry.id} className="px-4 py-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-md ${
+                          entry.action === 'INSERT'
+                            ? 'bg-emerald-100 text-emerald-700'
+                            : entry.action === 'UPDATE'
+                            ? 'bg-blue-100 text-blue-700'
+                            : 'bg-red-100 text-red-700'
+                        }`}>
+                          {entry.action === 'INSERT' ? 'Added' : entry.action === 'UPDATE' ? 'Changed' : 'Deleted'}
+                        </span>
+                        <span className="text-sm font-bold text-slate-800 truncate">
+                          {AUDIT_ENTITIES.find(e => e.id === entry.entity)?.label || entry.entity}
+                          {entry.entity_id && <span className="text-slate-400 font-medium"> #{entry.entity_id}</span>}
+                        </span>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <p className="text-xs font-bold text-slate-600">{entry.user_name || 'System'}</p>
+                        <p className="text-[10px] text-slate-400">
+                          {new Date(entry.created_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                        </p>
+                      </div>
+                    </div>
+                    {describeAuditChanges(entry).length > 0 && (
+                      <ul className="mt-1.5 space-y-0.5">
+                        {describeAuditChanges(entry).map((change, i) => (
+                          <li key={i} className="text-[11px] text-slate-500 font-mono break-all">{change}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+            {auditEntries.length >= 200 && (
+              <p className="text-[11px] text-slate-400 text-center">Showing the latest 200 changes. Narrow the filters to see older ones.</p>
+            )}
+          </div>
+        )}
+
         {/* ============ DATA MANAGEMENT TAB ============ */}
-        {activeTab === 'data' && (
+        {activeTab === 'data' && can(currentUser, 'DELETE_DATA') && (
           <div className="space-y-4">
             {/* Warning Banner - Compact */}
             <div className="bg-red-50 border border-red-200 rounded-xl p-3 flex items-center gap-3">
@@ -1299,14 +1925,14 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
                   <div className="grid grid-cols-2 gap-3">
                     <div className="space-y-1.5">
                       <label className="text-xs font-bold text-slate-500 uppercase tracking-wide flex items-center gap-1.5">
-                        <Hash size={12} /> 4-Digit PIN
+                        <Hash size={12} /> {editingUser ? 'New PIN' : '4-Digit PIN'}
                       </label>
                       <input
                         type="text"
                                 value={pin} 
                         onChange={e => setPin(e.target.value.replace(/\D/g, '').slice(0, 4))}
-                        placeholder="••••"
-                                required 
+                        placeholder={editingUser ? 'Same' : '••••'}
+                                required={!editingUser}
                                 maxLength={4} 
                                 inputMode="numeric"
                         className="w-full px-4 py-3 rounded-xl border border-slate-200 bg-slate-50 focus:bg-white focus:border-blue-500 outline-none transition-all text-sm font-mono tracking-[0.5em] text-center"
@@ -1316,14 +1942,21 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
                       <label className="text-xs font-bold text-slate-500 uppercase tracking-wide flex items-center gap-1.5">
                         <Shield size={12} /> Role
                       </label>
-                      <input
-                        type="text"
-                            value={role} 
-                            onChange={e => setRole(e.target.value)} 
-                        placeholder="e.g. Manager, Cashier"
-                            required 
+                      <select
+                        value={roleId !== null ? String(roleId) : role.toLowerCase() === 'manager' ? MANAGER_ROLE : ''}
+                        onChange={e => handleSelectRole(e.target.value)}
+                        required
                         className="w-full px-4 py-3 rounded-xl border border-slate-200 bg-slate-50 focus:bg-white focus:border-blue-500 outline-none transition-all text-sm"
-                        />
+                      >
+                        <option value="" disabled>Select role</option>
+                        {roles.map(r => (
+                          <option key={r.id} value={String(r.id)}>{r.name}</option>
+                        ))}
+                        {/* Only an owner/admin can make someone a manager */}
+                        {(isAdminUser(currentUser) || role.toLowerCase() === 'manager') && (
+                          <option value={MANAGER_ROLE}>{MANAGER_ROLE}</option>
+                        )}
+                      </select>
                     </div>
                   </div>
 
@@ -1340,27 +1973,37 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
                     <label className="text-xs font-bold text-slate-500 uppercase tracking-wide flex items-center gap-1.5">
                                 <Lock size={12} /> Access Permissions
                     </label>
+                    {selectedRole && (
+                      <p className="text-[10px] text-slate-400 ml-1">
+                        Marked "Role" come from {selectedRole.name}. Click to remove for this person, or tick others to add extra access.
+                      </p>
+                    )}
                     <div className="bg-slate-50 rounded-xl p-3 border border-slate-100">
                              <div className="grid grid-cols-2 gap-2">
-                                {AVAILABLE_PERMISSIONS.map(perm => (
+                                {PERMISSION_OPTIONS.map(perm => (
                           <button
                             key={perm.id}
                             type="button"
                             onClick={() => handleTogglePermission(perm.id)}
                             className={`flex items-center gap-2 px-3 py-2.5 rounded-lg text-xs font-medium transition-all ${
-                              permissions.includes(perm.id)
+                              hasPermission(perm.id)
                                 ? 'bg-blue-600 text-white shadow-sm'
+                                : rolePermissions.includes(perm.id)
+                                ? 'bg-white text-slate-400 border border-dashed border-slate-300 line-through'
                                 : 'bg-white text-slate-600 border border-slate-200 hover:border-blue-300'
                             }`}
                           >
                             <div className={`w-4 h-4 rounded border flex items-center justify-center ${
-                              permissions.includes(perm.id)
+                              hasPermission(perm.id)
                                 ? 'bg-white/20 border-white/30'
                                 : 'border-slate-300'
                             }`}>
-                              {permissions.includes(perm.id) && <CheckSquare size={10} />}
+                              {hasPermission(perm.id) && <CheckSquare size={10} />}
                                         </div>
-                            {perm.label}
+                            <span className="flex-1 text-left">{perm.label}</span>
+                            {rolePermissions.includes(perm.id) && (
+                              <span className="text-[9px] font-bold uppercase opacity-70">Role</span>
+                            )}
                           </button>
                                 ))}
                              </div>
@@ -1380,7 +2023,10 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, onNavigate, currentU
                 </button>
                 <button
                           type="submit" 
-                  disabled={userSaving || !userName || !pin || !role}
+                  disabled={
+                    userSaving || !userName || !role ||
+                    (isEditingSelf && isEditingProtectedUser ? pin.length !== 4 : (!editingUser || pin !== '') && pin.length !== 4)
+                  }
                   className={`flex-1 px-4 py-3 rounded-xl text-white font-bold text-sm transition-all disabled:opacity-50 ${
                     isEditingSelf && isEditingProtectedUser
                       ? 'bg-amber-600 hover:bg-amber-700 shadow-lg shadow-amber-200'
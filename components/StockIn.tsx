@@ -1,10 +1,12 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Layout } from './Layout';
 import { Button } from './Button';
 import { Input } from './Input';
-import { fetchProducts, addTransaction, fetchTodayStockIn, returnTransaction, getTodayString } from '../services/supabase';
-import { Product, ViewState, Transaction, User } from '../types';
-import { PackagePlus, RotateCcw, Box, TrendingUp, X } from 'lucide-react';
+import { fetchProducts, fetchSuppliers, addTransaction, fetchTodayStockIn, fetchTodayAdjustments, fetchTodayWastage, fetchSoldHistory, getStockOnHand, isLowStock, getReasonLabel, returnTransaction, getTodayString, getWorkingDateString, shiftDateString } from '../services/supabase';
+import { forecastDemand, suggestedOrder, SoldRecord } from '../services/forecast';
+import { can } from '../services/permissions';
+import { Product, ViewState, Transaction, User, Supplier } from '../types';
+import { PackagePlus, RotateCcw, Box, TrendingUp, X, SlidersHorizontal, ClipboardList } from 'lucide-react';
 
 interface StockInProps {
   onBack: () => void;
@@ -12,11 +14,27 @@ interface StockInProps {
   currentUser: User | null;
 }
 
+// Stock in entries and today's stock adjustments, newest first
+const fetchTodayStockHistory = async (): Promise<Transaction[]> => {
+  const [stockIn, adjustments] = await Promise.all([
+    fetchTodayStockIn(true), // Include returns to show full history
+    fetchTodayAdjustments()
+  ]);
+  return [...stockIn, ...adjustments].sort(
+    (a, b) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime()
+  );
+};
+
 export const StockIn: React.FC<StockInProps> = ({ onBack, onNavigate, currentUser }) => {
   const [products, setProducts] = useState<Product[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [selectedSupplierId, setSelectedSupplierId] = useState<number | ''>('');
   const [selectedProductId, setSelectedProductId] = useState<number | ''>('');
   const [quantity, setQuantity] = useState('');
+  const [unitCost, setUnitCost] = useState('');
   const [note, setNote] = useState('');
+  const [batchCode, setBatchCode] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
   
   const [history, setHistory] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(false);
@@ -29,18 +47,41 @@ export const StockIn: React.FC<StockInProps> = ({ onBack, onNavigate, currentUse
   const [returnReason, setReturnReason] = useState('');
   const [returningTxn, setReturningTxn] = useState(false);
 
+  // Suggested order
+  const [soldHistory, setSoldHistory] = useState<SoldRecord[]>([]);
+  const [todayWastage, setTodayWastage] = useState<Transaction[]>([]);
+  const [forecastDays, setForecastDays] = useState(1);
+
   useEffect(() => {
     loadAllData();
+    loadForecastData();
   }, []);
 
+  // 8 weeks of weekday history plus 4 weeks to measure the forecast error on
+  const loadForecastData = async () => {
+    try {
+      const workingDate = getWorkingDateString();
+      const [snapshots, wastage] = await Promise.all([
+        fetchSoldHistory(shiftDateString(workingDate, -84), shiftDateString(workingDate, -1)),
+        fetchTodayWastage()
+      ]);
+      setSoldHistory(snapshots);
+      setTodayWastage(wastage);
+    } catch (error) {
+      console.error('Error loading sales history:', error);
+    }
+  };
+
   const loadAllData = async () => {
     setLoadingData(true);
     try {
-      const [productsData, historyDataRaw] = await Promise.all([
+      const [productsData, historyDataRaw, suppliersData] = await Promise.all([
         fetchProducts(),
-        fetchTodayStockIn(true) // Include returns to show full history
+        fetchTodayStockHistory(),
+        fetchSuppliers()
       ]);
       setProducts(productsData);
+      setSuppliers(suppliersData);
       
       // Manual Join: Match product IDs to Product Objects for the UI
       const enrichedHistory = historyDataRaw.map(item => ({
@@ -60,7 +101,7 @@ export const StockIn: React.FC<StockInProps> = ({ onBack, onNavigate, currentUse
   const loadStockHistory = async () => {
     setLoadingHistory(true);
     try {
-      const data = await fetchTodayStockIn(true); // Include returns
+      const data = await fetchTodayStockHistory();
       // Manual Join
       const enrichedHistory = data.map(item => ({
         ...item,
@@ -84,25 +125,54 @@ export const StockIn: React.FC<StockInProps> = ({ onBack, onNavigate, currentUse
         type: 'STOCK_IN',
         product_id: Number(selectedProductId),
         quantity: Number(quantity),
+        supplier_id: selectedSupplierId === '' ? null : selectedSupplierId,
+        unit_cost: unitCost === '' ? null : Number(unitCost),
+        amount: unitCost === '' ? null : Number(quantity) * Number(unitCost),
         note: note,
-        date_str: getTodayString()
+        batch_code: batchCode.trim() || null,
+        expiry_date: expiryDate || null,
+        date_str: getWorkingDateString()
       });
       
       // Reset form
       setSelectedProductId('');
       setQuantity('');
+      setUnitCost('');
       setNote('');
+      setBatchCode('');
+      setExpiryDate('');
       
       // Refresh history
       await loadStockHistory();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error adding stock:', error);
-      alert('Failed to add stock. Please check connection.');
+      alert('Failed to add stock: ' + (error.message || 'Please check connection.'));
     } finally {
       setLoading(false);
     }
   };
 
+  // Unit cost defaults to the supplier's usual price for the product, else
+  // to what was paid last time
+  const getDefaultCost = (productId: number | '', supplierId: number | '') => {
+    const supplierCost = suppliers
+      .find(sup => sup.id === supplierId)?.supplier_products
+      ?.find(sp => sp.product_id === productId)?.default_cost;
+    const lastCost = products.find(p => p.id === productId)?.cost_price;
+    const cost = supplierCost ?? lastCost;
+    return cost != null ? String(cost) : '';
+  };
+
+  const handleProductChange = (productId: number) => {
+    setSelectedProductId(productId);
+    setUnitCost(getDefaultCost(productId, selectedSupplierId));
+  };
+
+  const handleSupplierChange = (supplierId: number | '') => {
+    setSelectedSupplierId(supplierId);
+    if (selectedProductId) setUnitCost(getDefaultCost(selectedProductId, supplierId));
+  };
+
   const openReturnModal = (txn: Transaction) => {
     setReturnTxn(txn);
     setReturnReason('');
@@ -134,6 +204,30 @@ export const StockIn: React.FC<StockInProps> = ({ onBack, onNavigate, currentUse
     }
   };
 
+  // Forecast from the working date, against what's on hand now: opening stock
+  // plus today's deliveries and adjustments (returns are negative) less wastage
+  const orderSuggestions = useMemo(() => {
+    if (soldHistory.length === 0) return [];
+    const forecasts = forecastDemand(soldHistory, products.map(p => p.id!), getWorkingDateString(), forecastDays);
+
+    return forecasts
+      .map(forecast => {
+        const product = products.find(p => p.id === forecast.productId)!;
+        const moved = (rows: Transaction[]) => rows
+          .filter(t => t.product_id === product.id)
+          .reduce((sum, t) => sum + (t.quantity || 0), 0);
+        const available = (product.current_opening_stock || 0) + moved(history) - moved(todayWastage);
+        return { product, forecast, available, order: suggestedOrder(forecast, available) };
+      })
+      .filter(row => row.forecast.total > 0)
+      .sort((a, b) => b.order - a.order);
+  }, [soldHistory, todayWastage, products, history, forecastDays]);
+
+  const applySuggestion = (productId: number, order: number) => {
+    handleProductChange(productId);
+    setQuantity(String(order));
+  };
+
   // Find selected product for unit display
   const selectedProduct = products.find(p => p.id === Number(selectedProductId));
 
@@ -155,7 +249,7 @@ export const StockIn: React.FC<StockInProps> = ({ onBack, onNavigate, currentUse
               <span>Stock Today</span>
             </div>
             <div className="text-xl font-bold tracking-tight">
-              {history.length} <span className="text-sm font-medium text-blue-100 opacity-80">Items</span>
+              {history.filter(item => item.type === 'STOCK_IN').length} <span className="text-sm font-medium text-blue-100 opacity-80">Items</span>
             </div>
           </div>
           
@@ -164,6 +258,68 @@ export const StockIn: React.FC<StockInProps> = ({ onBack, onNavigate, currentUse
           </div>
         </div>
 
+        {/* Suggested Order */}
+        {orderSuggestions.length > 0 && (
+          <div className="bg-white p-5 md:p-6 rounded-3xl shadow-sm border border-slate-100">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+                <ClipboardList size={16} className="text-blue-500" />
+                Suggested Order
+              </h3>
+              <div className="flex gap-1 p-1 bg-slate-100 rounded-xl">
+                {[1, 2, 3].map(days => (
+                  <button
+                    key={days}
+                    type="button"
+                    onClick={() => setForecastDays(days)}
+                    className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${forecastDays === days ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'}`}
+                  >
+                    {days === 1 ? 'Aaj' : `${days} Days`}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-[10px] text-slate-400 mb-3">
+              Forecast from the same weekday in past closings, minus stock on hand. ± is how far off the forecast was on average over recent days.
+            </p>
+            <div className="space-y-2">
+              {orderSuggestions.map(({ product, forecast, available, order }) => (
+                <div key={product.id} className="flex items-center gap-3 p-3 bg-slate-50 rounded-2xl">
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-bold text-sm text-slate-800 truncate">{product.name}</h4>
+                    <p className="text-[10px] text-slate-500">
+                      Expected sale {Math.round(forecast.total * 10) / 10} · On hand {Math.round(available * 10) / 10} {product.unit || ''}
+                    </p>
+                    <p className={`text-[10px] font-medium ${
+                      forecast.errorPct === null
+                        ? 'text-slate-400'
+                        : forecast.errorPct <= 20
+                          ? 'text-emerald-600'
+                          : forecast.errorPct <= 40 ? 'text-amber-600' : 'text-red-500'
+                    }`}>
+                      {forecast.error === null
+                        ? 'Not enough history to check accuracy'
+                        : `± ${Math.round(forecast.error * 10) / 10} ${product.unit || ''}/day${forecast.errorPct !== null ? ` (${forecast.errorPct.toFixed(0)}% off)` : ''} over ${forecast.testedDays} days`}
+                    </p>
+                  </div>
+                  {order > 0 ? (
+                    <button
+                      type="button"
+                      onClick={() => applySuggestion(product.id!, order)}
+                      className="px-3 py-2 rounded-xl bg-blue-50 text-blue-600 text-sm font-bold hover:bg-blue-100 transition-colors whitespace-nowrap"
+                      title="Fill the form with this quantity"
+                    >
+                      +{order} {product.unit || ''}
+                    </button>
+                  ) : (
+                    <span className="text-xs font-bold text-emerald-600 whitespace-nowrap">Enough</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="grid md:grid-cols-2 gap-6">
           {/* Input Form */}
           <div className="bg-white p-5 md:p-6 rounded-3xl shadow-sm border border-slate-100 h-fit">
@@ -176,18 +332,40 @@ export const StockIn: React.FC<StockInProps> = ({ onBack, onNavigate, currentUse
               <div className="text-center py-8 text-slate-400">Loading products...</div>
             ) : (
               <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-1.5">
+                  <label className="text-xs font-bold text-slate-500 ml-1 uppercase">Supplier</label>
+                  <div className="relative">
+                    <select
+                      value={selectedSupplierId}
+                      onChange={(e) => handleSupplierChange(e.target.value === '' ? '' : Number(e.target.value))}
+                      className="w-full px-4 py-3 rounded-xl border border-slate-200 bg-slate-50/50 focus:border-blue-500 focus:bg-white outline-none transition-all text-slate-800 appearance-none cursor-pointer text-sm font-medium"
+                    >
+                      <option value="">-- No supplier --</option>
+                      {suppliers.map((sup) => (
+                        <option key={sup.id} value={sup.id}>{sup.name}</option>
+                      ))}
+                    </select>
+                    <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
+                    </div>
+                  </div>
+                </div>
+
                 <div className="space-y-1.5">
                   <label className="text-xs font-bold text-slate-500 ml-1 uppercase">Select Product</label>
                   <div className="relative">
                     <select
                       value={selectedProductId}
-                      onChange={(e) => setSelectedProductId(Number(e.target.value))}
+                      onChange={(e) => handleProductChange(Number(e.target.value))}
                       className="w-full px-4 py-3 rounded-xl border border-slate-200 bg-slate-50/50 focus:border-blue-500 focus:bg-white outline-none transition-all text-slate-800 appearance-none cursor-pointer text-sm font-medium"
                       required
                     >
                       <option value="" disabled>-- Choose a product --</option>
                       {products.map((p) => (
-                        <option key={p.id} value={p.id}>{p.name} {p.unit ? `(${p.unit})` : ''}</option>
+                        <option key={p.id} value={p.id}>
+                          {p.name} {p.unit ? `(${p.unit})` : ''}
+                          {isLowStock(p, getStockOnHand(p, history.filter(t => t.type === 'STOCK_IN'))) ? ' - Low stock' : ''}
+                        </option>
                       ))}
                     </select>
                     <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
@@ -209,21 +387,51 @@ export const StockIn: React.FC<StockInProps> = ({ onBack, onNavigate, currentUse
                     step="any"
                     className="py-3 text-sm"
                   />
-                  <div className="pt-7 px-2">
-                     <span className="text-slate-500 text-sm font-medium">
-                       {selectedProduct?.unit || 'Units'}
-                     </span>
-                  </div>
+                  <Input
+                    label={`Cost / ${selectedProduct?.unit || 'Unit'}`}
+                    type="number"
+                    inputMode="decimal"
+                    value={unitCost}
+                    onChange={(e) => setUnitCost(e.target.value)}
+                    placeholder="Rs"
+                    min="0"
+                    step="any"
+                    className="py-3 text-sm"
+                  />
                 </div>
 
+                {unitCost !== '' && quantity !== '' && (
+                  <p className="text-xs text-slate-500 ml-1 -mt-2">
+                    Total cost: <span className="font-bold text-slate-700">Rs {(Number(quantity) * Number(unitCost)).toLocaleString()}</span>
+                  </p>
+                )}
+
                 <Input
-                  label="Supplier / Note"
+                  label="Note"
                   value={note}
                   onChange={(e) => setNote(e.target.value)}
-                  placeholder="e.g. Nestlé"
+                  placeholder="e.g. Invoice #1234"
                   className="py-3 text-sm"
                 />
 
+                <div className="grid grid-cols-2 gap-4">
+                  <Input
+                    label="Batch Code (optional)"
+                    value={batchCode}
+                    onChange={(e) => setBatchCode(e.target.value)}
+                    placeholder="e.g. L2309"
+                    className="py-3 text-sm"
+                  />
+                  <Input
+                    label="Expiry Date (optional)"
+                    type="date"
+                    value={expiryDate}
+                    onChange={(e) => setExpiryDate(e.target.value)}
+                    min={getTodayString()}
+                    className="py-3 text-sm"
+                  />
+                </div>
+
                 <div className="pt-2">
                   <Button 
                     type="submit" 
@@ -267,6 +475,40 @@ export const StockIn: React.FC<StockInProps> = ({ onBack, onNavigate, currentUse
                   {history.map((item) => {
                     const isReturnEntry = item.is_return;
                     const hasBeenReturned = item.has_been_returned;
+
+                    if (item.type === 'ADJUSTMENT') {
+                      return (
+                        <div 
+                          key={item.id} 
+                          className="p-3 rounded-2xl border shadow-sm flex items-center gap-3 bg-purple-50 border-purple-200"
+                        >
+                          <div className="w-10 h-10 rounded-xl flex items-center justify-center flex-shrink-0 bg-purple-100 text-purple-600">
+                            <SlidersHorizontal size={18} />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex justify-between items-center gap-2">
+                              <div className="flex items-center gap-2 min-w-0">
+                                <h4 className="font-bold text-sm truncate text-slate-800">
+                                  {item.products?.name || 'Loading...'}
+                                </h4>
+                                <span className="text-[10px] font-bold bg-purple-100 text-purple-600 px-1.5 py-0.5 rounded uppercase flex-shrink-0">
+                                  {getReasonLabel(item.reason_code)}
+                                </span>
+                              </div>
+                              <span className="font-bold text-xs whitespace-nowrap px-2 py-0.5 rounded-md bg-purple-100 text-purple-600">
+                                {(item.quantity || 0) > 0 ? '+' : ''}{item.quantity} {item.products?.unit || ''}
+                              </span>
+                            </div>
+                            <p className="text-xs mt-0.5 line-clamp-1 text-purple-400">
+                              Stock adjustment{item.note ? ` - ${item.note}` : ''}
+                            </p>
+                            <p className="text-[10px] text-slate-300 mt-1">
+                              {item.created_at ? new Date(item.created_at).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}) : 'Just now'}
+                            </p>
+                          </div>
+                        </div>
+                      );
+                    }
                     
                     return (
                       <div 
@@ -310,18 +552,35 @@ export const StockIn: React.FC<StockInProps> = ({ onBack, onNavigate, currentUse
                               {isReturnEntry ? '' : '+'}{item.quantity} {item.products?.unit || ''}
                             </span>
                           </div>
+                          {item.supplier_id && (
+                            <p className="text-[10px] font-medium text-blue-500 mt-0.5">
+                              {suppliers.find(sup => sup.id === item.supplier_id)?.name || 'Supplier'}
+                            </p>
+                          )}
+                          {item.unit_cost != null && (
+                            <p className="text-[10px] text-slate-400 mt-0.5">
+                              @ Rs {item.unit_cost} = Rs {(item.amount || 0).toLocaleString()}
+                            </p>
+                          )}
                           {item.note && (
                             <p className={`text-xs mt-0.5 line-clamp-1 flex items-center gap-1 ${isReturnEntry ? 'text-red-400' : 'text-slate-400'}`}>
                               <span className={`w-1 h-1 rounded-full ${isReturnEntry ? 'bg-red-300' : 'bg-slate-300'}`}></span>
                               {item.note}
                             </p>
                           )}
+                          {(item.batch_code || item.expiry_date) && (
+                            <p className="text-[10px] font-medium text-amber-600 mt-0.5">
+                              {item.batch_code ? `Batch ${item.batch_code}` : ''}
+                              {item.batch_code && item.expiry_date ? ' • ' : ''}
+                              {item.expiry_date ? `Exp ${item.expiry_date}` : ''}
+                            </p>
+                          )}
                           <p className="text-[10px] text-slate-300 mt-1">
                             {item.created_at ? new Date(item.created_at).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}) : 'Just now'}
                           </p>
                         </div>
 
-                        {!isReturnEntry && !hasBeenReturned && (
+                        {!isReturnEntry && !hasBeenReturned && can(currentUser, 'RETURN_TRANSACTION') && (
                           <button 
                             onClick={() => openReturnModal(item)}
                             className="p-2 text-slate-300 hover:text-blue-500 hover:bg-blue-50 rounded-lg transition-colors"
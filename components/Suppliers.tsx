@@ -0,0 +1,750 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Layout } from './Layout';
+import { Button } from './Button';
+import { Input } from './Input';
+import {
+  fetchSuppliers,
+  fetchProducts,
+  addSupplier,
+  updateSupplier,
+  deleteSupplier,
+  fetchSupplierDeliveries,
+  fetchSupplierPayments,
+  fetchSupplierBalances,
+  recordSupplierPayment,
+  buildSupplierStatement,
+  getTodayString,
+  shiftDateString
+} from '../services/supabase';
+import { can } from '../services/permissions';
+import { Product, Supplier, SupplierProduct, SupplierPaymentMethod, SupplierStatement, Transaction, ViewState, User } from '../types';
+import { Plus, Pencil, Trash2, X, Save, Truck, Phone, PackagePlus, RotateCcw, Banknote, FileText } from 'lucide-react';
+
+interface SuppliersProps {
+  onBack: () => void;
+  onNavigate: (view: ViewState) => void;
+  currentUser: User | null;
+}
+
+type HistoryRange = 'month' | 'quarter' | 'all';
+type DetailTab = 'deliveries' | 'statement';
+
+export const Suppliers: React.FC<SuppliersProps> = ({ onBack, onNavigate, currentUser }) => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [balances, setBalances] = useState<Record<number, number>>({});
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  // Selected supplier history
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [historyRange, setHistoryRange] = useState<HistoryRange>('month');
+  const [deliveries, setDeliveries] = useState<Transaction[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [detailTab, setDetailTab] = useState<DetailTab>('deliveries');
+  const [statement, setStatement] = useState<SupplierStatement | null>(null);
+  const [loadingStatement, setLoadingStatement] = useState(false);
+
+  // Payment modal
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<SupplierPaymentMethod>('CASH');
+  const [paymentDeliveryId, setPaymentDeliveryId] = useState<number | ''>('');
+  const [paymentNote, setPaymentNote] = useState('');
+  const [savingPayment, setSavingPayment] = useState(false);
+
+  // Modal State
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  // Form Data
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [notes, setNotes] = useState('');
+  // product id -> default cost ('' = supplied, no usual price)
+  const [suppliedProducts, setSuppliedProducts] = useState<Record<number, string>>({});
+
+  const canManage = can(currentUser, 'MANAGE_SUPPLIERS');
+  const canPay = can(currentUser, 'PAY_SUPPLIERS');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) loadHistory(selectedId);
+  }, [selectedId, historyRange]);
+
+  useEffect(() => {
+    if (selectedId && detailTab === 'statement') loadStatement(selectedId);
+  }, [selectedId, detailTab]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [suppliersData, productsData, balancesData] = await Promise.all([
+        fetchSuppliers(),
+        fetchProducts(),
+        fetchSupplierBalances()
+      ]);
+      setSuppliers(suppliersData);
+      setProducts(productsData);
+      setBalances(balancesData);
+      if (!selectedId && suppliersData.length > 0) setSelectedId(suppliersData[0].id);
+    } catch (err) {
+      console.error(err);
+      alert('Failed to load suppliers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadHistory = async (supplierId: number) => {
+    setLoadingHistory(true);
+    try {
+      const today = getTodayString();
+      const startDate = historyRange === 'month'
+        ? shiftDateString(today, -1, 'month')
+        : historyRange === 'quarter'
+          ? shiftDateString(today, -3, 'month')
+          : undefined;
+      setDeliveries(await fetchSupplierDeliveries(supplierId, startDate));
+    } catch (err) {
+      console.error('Error loading supplier history:', err);
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  // Balance needs every delivery and payment, not just the selected period
+  const loadStatement = async (supplierId: number) => {
+    setLoadingStatement(true);
+    try {
+      const [allDeliveries, payments] = await Promise.all([
+        fetchSupplierDeliveries(supplierId),
+        fetchSupplierPayments(supplierId)
+      ]);
+      setStatement(buildSupplierStatement(allDeliveries, payments));
+    } catch (err) {
+      console.error('Error loading supplier statement:', err);
+    } finally {
+      setLoadingStatement(false);
+    }
+  };
+
+  const openPaymentModal = (deliveryId?: number, amount?: number) => {
+    setPaymentDeliveryId(deliveryId ?? '');
+    setPaymentAmount(amount ? amount.toString() : '');
+    setPaymentMethod('CASH');
+    setPaymentNote('');
+    setShowPaymentModal(true);
+  };
+
+  const handleRecordPayment = async () => {
+    if (!selectedId) return;
+    const amount = parseFloat(paymentAmount);
+    if (!amount || amount <= 0) {
+      alert('Please enter a valid amount');
+      return;
+    }
+
+    setSavingPayment(true);
+    try {
+      const result = await recordSupplierPayment(selectedId, amount, paymentMethod, {
+        transactionId: paymentDeliveryId === '' ? null : paymentDeliveryId,
+        note: paymentNote.trim()
+      });
+      if (!result.success) {
+        alert(result.message);
+        return;
+      }
+      setShowPaymentModal(false);
+      setBalances(await fetchSupplierBalances());
+      await loadStatement(selectedId);
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      alert('Failed to record payment.');
+    } finally {
+      setSavingPayment(false);
+    }
+  };
+
+  // Reversals are negative rows, so the net is a plain sum
+  const totals = useMemo(() => {
+    const delivered = deliveries.filter(t => !t.is_return);
+    const returned = deliveries.filter(t => t.is_return);
+    const deliveredAmount = delivered.reduce((sum, t) => sum + (t.amount || 0), 0);
+    const returnedAmount = returned.reduce((sum, t) => sum - (t.amount || 0), 0);
+    return {
+      deliveryCount: delivered.length,
+      returnCount: returned.length,
+      deliveredAmount,
+      returnedAmount,
+      netAmount: deliveredAmount - returnedAmount
+    };
+  }, [deliveries]);
+
+  const handleOpenModal = (supplier?: Supplier) => {
+    if (supplier) {
+      setEditingId(supplier.id);
+      setName(supplier.name);
+      setPhone(supplier.phone || '');
+      setNotes(supplier.notes || '');
+      const supplied: Record<number, string> = {};
+      (supplier.supplier_products || []).forEach(sp => {
+        supplied[sp.product_id] = sp.default_cost != null ? sp.default_cost.toString() : '';
+      });
+      setSuppliedProducts(supplied);
+    } else {
+      setEditingId(null);
+      setName('');
+      setPhone('');
+      setNotes('');
+      setSuppliedProducts({});
+    }
+    setIsModalOpen(true);
+  };
+
+  const toggleProduct = (productId: number) => {
+    setSuppliedProducts(prev => {
+      const next = { ...prev };
+      if (productId in next) {
+        delete next[productId];
+      } else {
+        next[productId] = '';
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setActionLoading(true);
+    try {
+      const payload = {
+        name: name.trim(),
+        phone: phone.trim() || null,
+        notes: notes.trim() || null
+      };
+      const productList: SupplierProduct[] = Object.keys(suppliedProducts).map(id => ({
+        product_id: Number(id),
+        default_cost: suppliedProducts[Number(id)] === '' ? null : Number(suppliedProducts[Number(id)])
+      }));
+
+      if (editingId) {
+        await updateSupplier(editingId, payload, productList);
+      } else {
+        const created = await addSupplier(payload, productList);
+        setSelectedId(created.id);
+      }
+
+      setIsModalOpen(false);
+      await loadData();
+    } catch (err: any) {
+      console.error(err);
+      alert(err?.code === '23505' ? 'A supplier with this name already exists.' : 'Failed to save supplier');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!window.confirm(`Delete ${supplier.name}? Past deliveries stay in the records without a supplier.`)) return;
+
+    try {
+      await deleteSupplier(supplier.id);
+      if (selectedId === supplier.id) {
+        setSelectedId(null);
+        setDeliveries([]);
+      }
+      await loadData();
+    } catch (err) {
+      console.error(err);
+      alert('Failed to delete supplier');
+    }
+  };
+
+  const selectedSupplier = suppliers.find(s => s.id === selectedId);
+  const productName = (productId: number) => products.find(p => p.id === productId)?.name || 'Deleted product';
+
+  return (
+    <Layout
+      title="Suppliers"
+      onBack={onBack}
+      activeView={ViewState.SUPPLIERS}
+      onNavigate={onNavigate}
+      currentUser={currentUser}
+    >
+      <div className="space-y-6 pb-24">
+        {/* Header Action */}
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-slate-700">All Suppliers</h2>
+          {canManage && (
+            <Button onClick={() => handleOpenModal()} className="px-4 py-2 text-sm shadow-md">
+              <Plus size={18} /> Add Supplier
+            </Button>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          {/* List View */}
+          <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden h-fit">
+            {loading ? (
+              <div className="p-8 text-center text-slate-400">Loading suppliers...</div>
+            ) : suppliers.length === 0 ? (
+              <div className="p-12 text-center text-slate-400">No suppliers yet. Add one to link deliveries to it.</div>
+            ) : (
+              <div className="divide-y divide-slate-100">
+                {suppliers.map(s => (
+                  <div
+                    key={s.id}
+                    onClick={() => setSelectedId(s.id)}
+                    className={`p-4 transition-colors flex items-center justify-between cursor-pointer ${selectedId === s.id ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <div className="flex items-center gap-4 min-w-0">
+                      <div className="w-10 h-10 rounded-xl bg-blue-50 text-blue-600 flex items-center justify-center flex-shrink-0">
+                        <Truck size={18} />
+                      </div>
+                      <div className="min-w-0">
+                        <h3 className="font-bold text-slate-800 truncate">{s.name}</h3>
+                        <p className="text-xs text-slate-400 truncate">
+                          {s.phone ? `${s.phone} • ` : ''}
+                          {(s.supplier_products || []).length} products
+                        </p>
+                        {(balances[s.id] || 0) !== 0 && (
+                          <p className={`text-xs font-bold ${balances[s.id] > 0 ? 'text-orange-600' : 'text-emerald-600'}`}>
+                            {balances[s.id] > 0
+                              ? `Owed Rs ${balances[s.id].toLocaleString()}`
+                              : `Advance Rs ${Math.abs(balances[s.id]).toLocaleString()}`}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    {canManage && (
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={(e) => { e.stopPropagation(); handleOpenModal(s); }}
+                          className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        >
+                          <Pencil size={18} />
+                        </button>
+                        <button
+                          onClick={(e) => { e.stopPropagation(); handleDelete(s); }}
+                          className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Supplier History */}
+          {selectedSupplier && (
+            <div className="space-y-4">
+              <div className="bg-white rounded-3xl border border-slate-200 shadow-sm p-5">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="text-lg font-bold text-slate-800">{selectedSupplier.name}</h3>
+                    {selectedSupplier.phone && (
+                      <a href={`tel:${selectedSupplier.phone}`} className="text-sm text-blue-600 flex items-center gap-1 mt-0.5">
+                        <Phone size={14} /> {selectedSupplier.phone}
+                      </a>
+                    )}
+                    {selectedSupplier.notes && <p className="text-xs text-slate-400 mt-1">{selectedSupplier.notes}</p>}
+                  </div>
+                  {detailTab === 'deliveries' && (
+                    <select
+                      value={historyRange}
+                      onChange={(e) => setHistoryRange(e.target.value as HistoryRange)}
+                      className="px-3 py-1.5 rounded-lg border border-slate-200 bg-slate-50 text-xs font-bold text-slate-600 outline-none"
+                    >
+                      <option value="month">30 Days</option>
+                      <option value="quarter">90 Days</option>
+                      <option value="all">All Time</option>
+                    </select>
+                  )}
+                </div>
+
+                {(selectedSupplier.supplier_products || []).length > 0 && (
+                  <div className="flex flex-wrap gap-1.5 mt-3">
+                    {(selectedSupplier.supplier_products || []).map(sp => (
+                      <span key={sp.product_id} className="text-[10px] font-bold bg-slate-100 text-slate-600 px-2 py-1 rounded-lg">
+                        {productName(sp.product_id)}{sp.default_cost != null ? ` @ Rs ${sp.default_cost}` : ''}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex gap-1 p-1 bg-slate-100 rounded-xl mt-4">
+                  {([
+                    { id: 'deliveries', label: 'Deliveries', icon: PackagePlus },
+                    { id: 'statement', label: 'Statement', icon: FileText }
+                  ] as const).map(tab => (
+                    <button
+                      key={tab.id}
+                      onClick={() => setDetailTab(tab.id)}
+                      className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition-all ${detailTab === tab.id
+                        ? 'bg-white text-slate-800 shadow-sm'
+                        : 'text-slate-500 hover:text-slate-700'
+                        }`}
+                    >
+                      <tab.icon size={14} /> {tab.label}
+                    </button>
+                  ))}
+                </div>
+
+                {detailTab === 'deliveries' && (
+                  <div className="grid grid-cols-3 gap-3 mt-4">
+                    <div className="bg-blue-50 rounded-xl p-3">
+                      <p className="text-[10px] text-blue-600 font-bold uppercase">Delivered</p>
+                      <p className="font-bold text-blue-700">Rs {totals.deliveredAmount.toLocaleString()}</p>
+                      <p className="text-[10px] text-blue-500">{totals.deliveryCount} deliveries</p>
+                    </div>
+                    <div className="bg-red-50 rounded-xl p-3">
+                      <p className="text-[10px] text-red-600 font-bold uppercase">Returned</p>
+                      <p className="font-bold text-red-700">Rs {totals.returnedAmount.toLocaleString()}</p>
+                      <p className="text-[10px] text-red-500">{totals.returnCount} returns</p>
+                    </div>
+                    <div className="bg-slate-50 rounded-xl p-3">
+                      <p className="text-[10px] text-slate-600 font-bold uppercase">Net</p>
+                      <p className="font-bold text-slate-800">Rs {totals.netAmount.toLocaleString()}</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {detailTab === 'statement' && (
+                loadingStatement || !statement ? (
+                  <div className="h-40 bg-white animate-pulse rounded-3xl"></div>
+                ) : (
+                  <div className="space-y-4">
+                    {/* Balance & Ageing */}
+                    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm p-5">
+                      <div className="flex items-center justify-between gap-4">
+                        <div>
+                          <p className="text-[10px] font-bold uppercase text-slate-500">
+                            {statement.outstanding >= 0 ? 'Outstanding' : 'Paid in Advance'}
+                          </p>
+                          <p className={`text-2xl font-bold ${statement.outstanding > 0 ? 'text-orange-600' : 'text-emerald-600'}`}>
+                            Rs {Math.abs(statement.outstanding).toLocaleString()}
+                          </p>
+                        </div>
+                        {canPay && (
+                          <Button onClick={() => openPaymentModal()} className="px-4 py-2 text-sm">
+                            <Banknote size={16} /> Record Payment
+                          </Button>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-4 gap-2 mt-4">
+                        {statement.ageing.map((bucket, i) => (
+                          <div key={bucket.label} className={`rounded-xl p-2 text-center ${bucket.amount > 0 && i >= 2 ? 'bg-red-50' : 'bg-slate-50'}`}>
+                            <p className="text-[10px] text-slate-500 font-bold">{bucket.label}</p>
+                            <p className={`text-sm font-bold ${bucket.amount > 0 && i >= 2 ? 'text-red-600' : 'text-slate-700'}`}>
+                              Rs {bucket.amount.toLocaleString()}
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Unpaid deliveries */}
+                    {statement.openDeliveries.length > 0 && (
+                      <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+                        <h4 className="px-4 py-3 text-xs font-bold uppercase text-slate-500 border-b border-slate-100">Unpaid Deliveries</h4>
+                        <div className="divide-y divide-slate-100">
+                          {statement.openDeliveries.map(open => (
+                            <div key={open.delivery.id} className="px-4 py-2.5 flex items-center justify-between gap-3">
+                              <div className="min-w-0">
+                                <p className="text-sm font-bold text-slate-800 truncate">
+                                  {open.delivery.products?.name || 'Deleted product'} × {open.delivery.quantity}
+                                </p>
+                                <p className="text-[10px] text-slate-400">
+                                  {open.delivery.date_str} • {open.ageDays} days • of Rs {open.total.toLocaleString()}
+                                </p>
+                              </div>
+                              <div className="flex items-center gap-2 flex-shrink-0">
+                                <span className="text-sm font-bold text-orange-600">Rs {open.outstanding.toLocaleString()}</span>
+                                {canPay && (
+                                  <button
+                                    onClick={() => openPaymentModal(open.delivery.id, open.outstanding)}
+                                    className="px-2 py-1 text-[10px] font-bold uppercase bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100"
+                                  >
+                                    Pay
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Ledger */}
+                    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+                      <h4 className="px-4 py-3 text-xs font-bold uppercase text-slate-500 border-b border-slate-100">Ledger</h4>
+                      {statement.lines.length === 0 ? (
+                        <p className="p-6 text-center text-xs text-slate-400">No deliveries or payments yet</p>
+                      ) : (
+                        <div className="divide-y divide-slate-100">
+                          {statement.lines.map((line, idx) => (
+                            <div key={idx} className="px-4 py-2 flex items-center justify-between gap-3 text-sm">
+                              <div className="min-w-0">
+                                <p className="text-slate-700 truncate">
+                                  <span className={`text-[10px] font-bold uppercase mr-2 px-1.5 py-0.5 rounded ${line.kind === 'PAYMENT'
+                                    ? 'bg-emerald-100 text-emerald-700'
+                                    : line.kind === 'RETURN'
+                                      ? 'bg-red-100 text-red-600'
+                                      : 'bg-blue-100 text-blue-700'
+                                    }`}>
+                                    {line.kind}
+                                  </span>
+                                  {line.description}
+                                </p>
+                                <p className="text-[10px] text-slate-400">{line.date_str}</p>
+                              </div>
+                              <div className="text-right flex-shrink-0">
+                                <p className={`font-bold ${line.amount < 0 ? 'text-emerald-600' : 'text-slate-800'}`}>
+                                  {line.amount < 0 ? '-' : '+'} Rs {Math.abs(line.amount).toLocaleString()}
+                                </p>
+                                <p className="text-[10px] text-slate-400">Bal Rs {line.balance.toLocaleString()}</p>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )
+              )}
+
+              {detailTab === 'deliveries' && (
+                <div className="bg-slate-50/50 rounded-3xl border border-slate-100 p-2 md:p-3 min-h-[200px]">
+                  {loadingHistory ? (
+                    <div className="space-y-2 p-1">
+                      {[1, 2, 3].map(i => (
+                        <div key={i} className="h-14 bg-white animate-pulse rounded-2xl"></div>
+                      ))}
+                    </div>
+                  ) : deliveries.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center text-slate-400 p-8">
+                      <PackagePlus size={20} className="opacity-30 mb-2" />
+                      <p className="text-xs font-medium">No deliveries in this period</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      {deliveries.map(item => (
+                        <div
+                          key={item.id}
+                          className={`p-3 rounded-2xl border shadow-sm flex items-center gap-3 ${item.is_return
+                            ? 'bg-red-50 border-red-200'
+                            : item.has_been_returned
+                              ? 'bg-slate-100 border-slate-200 opacity-60'
+                              : 'bg-white border-slate-100'
+                            }`}
+                        >
+                          <div className={`w-9 h-9 rounded-xl flex items-center justify-center flex-shrink-0 ${item.is_return ? 'bg-red-100 text-red-600' : 'bg-blue-50 text-blue-600'}`}>
+                            {item.is_return ? <RotateCcw size={16} /> : <PackagePlus size={16} />}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex justify-between items-center gap-2">
+                              <h4 className="font-bold text-sm text-slate-800 truncate">
+                                {item.products?.name || 'Deleted product'}
+                                {item.is_return && (
+                                  <span className="ml-2 text-[10px] font-bold bg-red-100 text-red-600 px-1.5 py-0.5 rounded uppercase">Return</span>
+                                )}
+                              </h4>
+                              <span className={`font-bold text-xs whitespace-nowrap ${item.is_return ? 'text-red-600' : 'text-slate-700'}`}>
+                                {item.amount != null ? `Rs ${item.amount.toLocaleString()}` : '-'}
+                              </span>
+                            </div>
+                            <p className="text-[10px] text-slate-400 mt-0.5">
+                              {item.date_str} • {item.is_return ? '' : '+'}{item.quantity} {item.products?.unit || ''}
+                              {item.unit_cost != null ? ` @ Rs ${item.unit_cost}` : ''}
+                              {item.is_return && item.return_reason ? ` • ${item.return_reason}` : ''}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Payment Modal */}
+      {showPaymentModal && selectedSupplier && statement && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white w-full max-w-md rounded-3xl p-6 shadow-2xl animate-in zoom-in-95 duration-200">
+            <div className="flex justify-between items-center mb-6">
+              <div>
+                <h3 className="text-xl font-bold text-slate-800">Pay {selectedSupplier.name}</h3>
+                <p className="text-xs text-slate-400">Outstanding: Rs {statement.outstanding.toLocaleString()}</p>
+              </div>
+              <button onClick={() => setShowPaymentModal(false)} className="p-2 text-slate-400 hover:bg-slate-100 rounded-full">
+                <X size={24} />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <Input
+                label="Amount"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="any"
+                value={paymentAmount}
+                onChange={e => setPaymentAmount(e.target.value)}
+                placeholder="Rs"
+                autoFocus
+              />
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-bold text-slate-500 ml-1 uppercase">Paid From</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { id: 'CASH', label: 'Cash Drawer' },
+                    { id: 'BANK', label: 'Bank' }
+                  ] as const).map(option => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => setPaymentMethod(option.id)}
+                      className={`py-2.5 rounded-xl text-sm font-bold border-2 transition-all ${paymentMethod === option.id
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-slate-200 text-slate-500'
+                        }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {paymentMethod === 'CASH' && (
+                  <p className="text-[10px] text-amber-600 ml-1">Recorded as a cash withdrawal in today's closing</p>
+                )}
+              </div>
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-bold text-slate-500 ml-1 uppercase">For Delivery</label>
+                <select
+                  value={paymentDeliveryId}
+                  onChange={e => setPaymentDeliveryId(e.target.value === '' ? '' : Number(e.target.value))}
+                  className="w-full px-4 py-3 rounded-xl border border-slate-200 bg-slate-50/50 focus:border-blue-500 outline-none text-sm"
+                >
+                  <option value="">On account (oldest first)</option>
+                  {statement.openDeliveries.map(open => (
+                    <option key={open.delivery.id} value={open.delivery.id}>
+                      {open.delivery.date_str} - {open.delivery.products?.name || 'Product'} (Rs {open.outstanding.toLocaleString()} due)
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <Input
+                label="Note"
+                value={paymentNote}
+                onChange={e => setPaymentNote(e.target.value)}
+                placeholder="e.g. Cheque #123"
+              />
+            </div>
+
+            <div className="pt-6 flex gap-3">
+              <Button type="button" variant="outline" fullWidth onClick={() => setShowPaymentModal(false)}>Cancel</Button>
+              <Button fullWidth isLoading={savingPayment} onClick={handleRecordPayment}>
+                <Banknote size={18} /> Record
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white w-full max-w-md rounded-3xl p-6 shadow-2xl animate-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-bold text-slate-800">{editingId ? 'Edit Supplier' : 'Add New Supplier'}</h3>
+              <button onClick={() => setIsModalOpen(false)} className="p-2 text-slate-400 hover:bg-slate-100 rounded-full">
+                <X size={24} />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                label="Supplier Name"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                required
+                placeholder="e.g. Nestlé Distributor"
+              />
+
+              <Input
+                label="Phone"
+                type="tel"
+                value={phone}
+                onChange={e => setPhone(e.target.value)}
+                placeholder="e.g. 0300 1234567"
+              />
+
+              <Input
+                label="Notes"
+                value={notes}
+                onChange={e => setNotes(e.target.value)}
+                placeholder="e.g. Delivers every morning"
+              />
+
+              <div className="space-y-2">
+                <label className="text-xs font-bold text-slate-500 ml-1 uppercase">Products Supplied (usual cost)</label>
+                <div className="border border-slate-200 rounded-xl divide-y divide-slate-100 max-h-60 overflow-y-auto">
+                  {products.length === 0 ? (
+                    <p className="p-3 text-xs text-slate-400">No products yet</p>
+                  ) : products.map(p => {
+                    const supplied = p.id in suppliedProducts;
+                    return (
+                      <div key={p.id} className="flex items-center gap-3 px-3 py-2">
+                        <label className="flex items-center gap-2 flex-1 min-w-0 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={supplied}
+                            onChange={() => toggleProduct(p.id)}
+                            className="w-4 h-4 rounded"
+                          />
+                          <span className="text-sm text-slate-700 truncate">{p.name}</span>
+                        </label>
+                        {supplied && (
+                          <input
+                            type="number"
+                            step="any"
+                            min="0"
+                            value={suppliedProducts[p.id]}
+                            onChange={e => setSuppliedProducts(prev => ({ ...prev, [p.id]: e.target.value }))}
+                            placeholder="Rs"
+                            className="w-24 px-2 py-1 rounded-lg border border-slate-200 text-sm outline-none focus:border-blue-500"
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="pt-4 flex gap-3">
+                <Button type="button" variant="outline" fullWidth onClick={() => setIsModalOpen(false)}>Cancel</Button>
+                <Button type="submit" fullWidth isLoading={actionLoading} className="shadow-lg">
+                  <Save size={18} /> Save
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+};
@@ -0,0 +1,145 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import pg from 'pg';
+
+/**
+ * Database Migration Runner
+ *
+ * Applies the SQL files in ./migrations in filename order and records each one
+ * in schema_migrations. Every migration runs in its own transaction, so a
+ * failing file leaves the database exactly as the previous migration left it.
+ *
+ *   DATABASE_URL=postgres://... node migrate.js up       apply pending migrations
+ *   DATABASE_URL=postgres://... node migrate.js status   list applied / pending
+ *
+ * Migrations are written to be idempotent, so they are also safe to run against
+ * a database that was set up by hand before this runner existed.
+ */
+
+const MIGRATIONS_DIR = join(dirname(fileURLToPath(import.meta.url)), 'migrations');
+const MIGRATION_FILE = /^(\d{4})_[\w-]+\.sql$/;
+// Arbitrary key so two runners can't apply migrations at the same time
+const MIGRATION_LOCK_ID = 727001;
+
+function loadMigrations() {
+  return readdirSync(MIGRATIONS_DIR)
+    .filter(file => MIGRATION_FILE.test(file))
+    .sort()
+    .map(file => {
+      const sql = readFileSync(join(MIGRATIONS_DIR, file), 'utf8');
+      return {
+        version: file.match(MIGRATION_FILE)[1],
+        name: file,
+        sql,
+        checksum: createHash('sha256').update(sql).digest('hex')
+      };
+    });
+}
+
+async function ensureMigrationsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+    -- Not exposed through the API
+    ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;
+  `);
+}
+
+async function fetchApplied(client) {
+  const { rows } = await client.query('SELECT version, name, checksum, applied_at FROM schema_migrations');
+  return new Map(rows.map(row => [row.version, row]));
+}
+
+async function migrateUp(client) {
+  const migrations = loadMigrations();
+  const applied = await fetchApplied(client);
+  const pending = migrations.filter(m => !applied.has(m.version));
+
+  if (pending.length === 0) {
+    console.log('✅ Database is up to date.');
+    return;
+  }
+
+  for (const migration of pending) {
+    console.log(`🔄 Applying ${migration.name}...`);
+    try {
+      await client.query('BEGIN');
+      await client.query(migration.sql);
+      await client.query(
+        'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+        [migration.version, migration.name, migration.checksum]
+      );
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw new Error(`${migration.name} failed: ${err.message}`);
+    }
+  }
+
+  console.log(`✅ Applied ${pending.length} migration(s).`);
+}
+
+async function showStatus(client) {
+  const migrations = loadMigrations();
+  const applied = await fetchApplied(client);
+
+  for (const migration of migrations) {
+    const row = applied.get(migration.version);
+    if (!row) {
+      console.log(`⏳ pending   ${migration.name}`);
+    } else if (row.checksum !== migration.checksum) {
+      console.log(`⚠️  changed   ${migration.name} (applied ${row.applied_at.toISOString()}, file edited since)`);
+    } else {
+      console.log(`✅ applied   ${migration.name} (${row.applied_at.toISOString()})`);
+    }
+  }
+
+  // Applied on this database but missing from the repo (e.g. older checkout)
+  const known = new Set(migrations.map(m => m.version));
+  for (const row of applied.values()) {
+    if (!known.has(row.version)) {
+      console.log(`❓ unknown   ${row.name} (applied ${row.applied_at.toISOString()}, no file)`);
+    }
+  }
+}
+
+async function main() {
+  const command = process.argv[2] || 'up';
+  if (command !== 'up' && command !== 'status') {
+    console.error(`Unknown command "${command}". Use "up" or "status".`);
+    process.exit(1);
+  }
+
+  if (!process.env.DATABASE_URL) {
+    console.error('DATABASE_URL is not set (Supabase: Project Settings > Database > Connection string).');
+    process.exit(1);
+  }
+
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await ensureMigrationsTable(client);
+
+    if (command === 'status') {
+      await showStatus(client);
+    } else {
+      await migrateUp(client);
+    }
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => {});
+    await client.end();
+  }
+}
+
+main().catch(err => {
+  console.error('\n❌ Migration failed:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,25 @@
+-- ============================================
+-- 0002 CASH WITHDRAWALS
+-- Cash taken out of the drawer during the day (see CashWithdrawal in types.ts)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS cash_withdrawals (
+  id SERIAL PRIMARY KEY,
+  amount NUMERIC NOT NULL,
+  reason TEXT,
+  withdrawn_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  date_str TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_withdrawals_date_str ON cash_withdrawals(date_str);
+
+ALTER TABLE cash_withdrawals ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable read access for all users" ON cash_withdrawals;
+DROP POLICY IF EXISTS "Enable insert for all users" ON cash_withdrawals;
+DROP POLICY IF EXISTS "Enable update for all users" ON cash_withdrawals;
+DROP POLICY IF EXISTS "Enable delete for all users" ON cash_withdrawals;
+CREATE POLICY "Enable read access for all users" ON cash_withdrawals FOR SELECT USING (true);
+CREATE POLICY "Enable insert for all users" ON cash_withdrawals FOR INSERT WITH CHECK (true);
+CREATE POLICY "Enable update for all users" ON cash_withdrawals FOR UPDATE USING (true);
+CREATE POLICY "Enable delete for all users" ON cash_withdrawals FOR DELETE USING (true);
@@ -0,0 +1,10 @@
+-- ============================================
+-- 0003 CATEGORY HIERARCHY
+-- Sub-categories point at their main category; deleting a main category
+-- removes its sub-categories with it.
+-- ============================================
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES categories(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
@@ -0,0 +1,12 @@
+-- ============================================
+-- 0004 TRANSACTION SUB-CATEGORY AND RETURNS
+-- Transactions are never deleted; a return is a new row with negated
+-- quantity/amount that points back at the original via return_of.
+-- ============================================
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS sub_category TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS is_return BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS return_of INTEGER REFERENCES transactions(id) ON DELETE SET NULL;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS return_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_return_of ON transactions(return_of);
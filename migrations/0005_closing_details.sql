@@ -0,0 +1,19 @@
+-- ============================================
+-- 0005 DAILY CLOSING DETAILS
+-- A day can have many partial (draft) closings but only one final closing.
+-- ============================================
+
+ALTER TABLE daily_closings ADD COLUMN IF NOT EXISTS cash_received NUMERIC;
+ALTER TABLE daily_closings ADD COLUMN IF NOT EXISTS total_withdrawals NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE daily_closings ADD COLUMN IF NOT EXISTS closing_type TEXT NOT NULL DEFAULT 'partial'
+  CHECK (closing_type IN ('partial', 'final'));
+ALTER TABLE daily_closings ADD COLUMN IF NOT EXISTS notes TEXT;
+ALTER TABLE daily_closings ADD COLUMN IF NOT EXISTS closed_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+-- {"closingStock": [{"productId": 1, "newOpeningStock": 10}, ...]}
+ALTER TABLE daily_closings ADD COLUMN IF NOT EXISTS report_json JSONB;
+
+-- date_str is no longer unique per row, only per final closing
+ALTER TABLE daily_closings DROP CONSTRAINT IF EXISTS daily_closings_date_str_key;
+CREATE INDEX IF NOT EXISTS idx_daily_closings_date_str ON daily_closings(date_str);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_closings_one_final
+  ON daily_closings(date_str) WHERE closing_type = 'final';
@@ -0,0 +1,80 @@
+-- ============================================
+-- 0006 ATOMIC FINAL CLOSING
+-- ============================================
+
+-- Rolls product stock forward and records the final closing in ONE
+-- transaction. Any error (final already done, unknown product, bad user)
+-- raises and rolls back every product update as well as the closing row.
+CREATE OR REPLACE FUNCTION perform_final_closing(
+  p_date_str TEXT,
+  p_closing_stock JSONB,
+  p_total_revenue NUMERIC,
+  p_cash_received NUMERIC DEFAULT 0,
+  p_total_withdrawals NUMERIC DEFAULT 0,
+  p_opening_cash NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_closed_by INTEGER DEFAULT NULL,
+  p_closing_id INTEGER DEFAULT NULL
+) RETURNS daily_closings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_item JSONB;
+  v_closing daily_closings;
+BEGIN
+  -- Serialise concurrent lock attempts for the same day
+  PERFORM pg_advisory_xact_lock(hashtext('daily_closing:' || p_date_str));
+
+  IF EXISTS (
+    SELECT 1 FROM daily_closings
+    WHERE date_str = p_date_str AND closing_type = 'final'
+  ) THEN
+    RAISE EXCEPTION 'Final closing has already been done for %.', p_date_str
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_closing_stock) LOOP
+    UPDATE products
+       SET current_opening_stock = (v_item->>'newOpeningStock')::NUMERIC
+     WHERE id = (v_item->>'productId')::INTEGER;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product ID % no longer exists.', v_item->>'productId'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  END LOOP;
+
+  IF p_closing_id IS NOT NULL THEN
+    -- Promote today's draft (partial) record to final
+    UPDATE daily_closings
+       SET total_revenue = p_total_revenue,
+           cash_received = p_cash_received,
+           total_withdrawals = p_total_withdrawals,
+           opening_cash = COALESCE(p_opening_cash, opening_cash),
+           closing_type = 'final',
+           notes = p_notes,
+           closed_by = p_closed_by,
+           report_json = jsonb_build_object('closingStock', p_closing_stock)
+     WHERE id = p_closing_id
+       AND date_str = p_date_str
+     RETURNING * INTO v_closing;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Draft closing % was not found for %.', p_closing_id, p_date_str
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  ELSE
+    INSERT INTO daily_closings (
+      date_str, total_revenue, cash_received, total_withdrawals,
+      opening_cash, closing_type, notes, closed_by, report_json
+    ) VALUES (
+      p_date_str, p_total_revenue, p_cash_received, p_total_withdrawals,
+      p_opening_cash, 'final', p_notes, p_closed_by,
+      jsonb_build_object('closingStock', p_closing_stock)
+    )
+    RETURNING * INTO v_closing;
+  END IF;
+
+  RETURN v_closing;
+END;
+$$;
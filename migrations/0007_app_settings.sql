@@ -0,0 +1,19 @@
+-- ============================================
+-- 0007 APP SETTINGS
+-- Key/value settings shared by every device, e.g.
+-- 'business_day' => {"timezone": "Asia/Karachi", "cutoverHour": 0}
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable read access for all users" ON app_settings;
+DROP POLICY IF EXISTS "Enable insert for all users" ON app_settings;
+DROP POLICY IF EXISTS "Enable update for all users" ON app_settings;
+CREATE POLICY "Enable read access for all users" ON app_settings FOR SELECT USING (true);
+CREATE POLICY "Enable insert for all users" ON app_settings FOR INSERT WITH CHECK (true);
+CREATE POLICY "Enable update for all users" ON app_settings FOR UPDATE USING (true);
@@ -0,0 +1,155 @@
+-- ============================================
+-- 0008 HASHED PINS AND LOGIN LOCKOUT
+-- PINs are stored as bcrypt hashes and only ever checked inside the
+-- database. Clients can no longer read or write the hash directly.
+-- ============================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_hash TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS failed_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Hash existing plaintext PINs, then drop the plaintext column
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'users' AND column_name = 'pin'
+  ) THEN
+    EXECUTE 'UPDATE users SET pin_hash = crypt(pin, gen_salt(''bf'')) WHERE pin_hash IS NULL AND pin IS NOT NULL';
+    ALTER TABLE users DROP COLUMN pin;
+  END IF;
+END;
+$$;
+
+-- Checks a PIN and tracks failed attempts. 5 wrong PINs in a row lock the
+-- account for 5 minutes. Returns JSON:
+--   {"status": "ok", "user": {...}}
+--   {"status": "invalid", "remaining_attempts": 3}   (omitted for unknown names)
+--   {"status": "locked", "locked_until": "..."}
+CREATE OR REPLACE FUNCTION login_user(p_name TEXT, p_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  c_max_attempts CONSTANT INTEGER := 5;
+  c_lock_duration CONSTANT INTERVAL := INTERVAL '5 minutes';
+  v_user users;
+BEGIN
+  SELECT * INTO v_user
+  FROM users
+  WHERE lower(name) = lower(trim(p_name)) OR lower(username) = lower(trim(p_name))
+  ORDER BY (lower(name) = lower(trim(p_name))) DESC, id
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'invalid');
+  END IF;
+
+  IF v_user.locked_until IS NOT NULL AND v_user.locked_until > NOW() THEN
+    RETURN jsonb_build_object('status', 'locked', 'locked_until', v_user.locked_until);
+  END IF;
+
+  IF v_user.pin_hash IS NOT NULL AND v_user.pin_hash = crypt(p_pin, v_user.pin_hash) THEN
+    UPDATE users SET failed_attempts = 0, locked_until = NULL WHERE id = v_user.id;
+    RETURN jsonb_build_object(
+      'status', 'ok',
+      'user', jsonb_build_object(
+        'id', v_user.id,
+        'username', v_user.username,
+        'name', v_user.name,
+        'role', v_user.role,
+        'permissions', to_jsonb(COALESCE(v_user.permissions, '{}'))
+      )
+    );
+  END IF;
+
+  IF v_user.failed_attempts + 1 >= c_max_attempts THEN
+    UPDATE users
+       SET failed_attempts = 0, locked_until = NOW() + c_lock_duration
+     WHERE id = v_user.id
+     RETURNING * INTO v_user;
+    RETURN jsonb_build_object('status', 'locked', 'locked_until', v_user.locked_until);
+  END IF;
+
+  UPDATE users SET failed_attempts = failed_attempts + 1 WHERE id = v_user.id
+  RETURNING * INTO v_user;
+  RETURN jsonb_build_object('status', 'invalid', 'remaining_attempts', c_max_attempts - v_user.failed_attempts);
+END;
+$$;
+
+-- Sets (or resets) a user's PIN. Also clears any lockout.
+CREATE OR REPLACE FUNCTION set_user_pin(p_user_id INTEGER, p_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4}$' THEN
+    RAISE EXCEPTION 'PIN must be exactly 4 digits.' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE users
+     SET pin_hash = crypt(p_pin, gen_salt('bf')),
+         failed_attempts = 0,
+         locked_until = NULL
+   WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found.', p_user_id USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+-- Creates a user and its PIN hash in one step. Callers can't be identified
+-- yet, so over the API this only sets up the first user; 0009 lets Settings
+-- users create staff once logins are bound to sessions.
+CREATE OR REPLACE FUNCTION create_user(
+  p_name TEXT,
+  p_username TEXT,
+  p_role TEXT,
+  p_permissions TEXT[],
+  p_pin TEXT
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_id INTEGER;
+BEGIN
+  IF EXISTS (SELECT 1 FROM users) THEN
+    RAISE EXCEPTION 'Not allowed to create this user.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO users (name, username, role, permissions)
+  VALUES (p_name, p_username, p_role, COALESCE(p_permissions, '{}'))
+  RETURNING id INTO v_id;
+
+  PERFORM set_user_pin(v_id, p_pin);
+  RETURN v_id;
+END;
+$$;
+
+-- API roles may read and edit profile columns only, never pin_hash
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon')
+     AND EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    REVOKE SELECT, INSERT, UPDATE ON users FROM anon, authenticated;
+    GRANT SELECT (id, username, name, role, permissions, failed_attempts, locked_until, created_at)
+      ON users TO anon, authenticated;
+    GRANT INSERT (username, name, role, permissions) ON users TO anon, authenticated;
+    GRANT UPDATE (username, name, role, permissions) ON users TO anon, authenticated;
+
+    -- No caller check in set_user_pin until 0009, so nobody may reach it
+    -- over the API (create_user still calls it as the owner)
+    REVOKE EXECUTE ON FUNCTION set_user_pin(INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+  END IF;
+END;
+$$;
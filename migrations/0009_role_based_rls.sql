@@ -0,0 +1,526 @@
+-- ============================================
+-- 0009 ROLE-BASED ROW LEVEL SECURITY
+-- Each browser gets a Supabase auth session (anonymous sign-in) which
+-- login_user binds to a row in users. Policies then check that user's role
+-- and view permissions instead of allowing everything.
+--
+--   OWNER / ADMIN  everything, including deleting data
+--   MANAGER        every screen, but cannot delete transactions/closings
+--   STAFF          only the screens in users.permissions
+-- ============================================
+
+-- Plain Postgres (local/dev) has no Supabase auth schema; mirror auth.uid()
+DO $$
+BEGIN
+  IF to_regprocedure('auth.uid()') IS NULL THEN
+    CREATE SCHEMA IF NOT EXISTS auth;
+    CREATE FUNCTION auth.uid() RETURNS UUID
+      LANGUAGE sql STABLE
+      AS $f$ SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID $f$;
+  END IF;
+END;
+$$;
+
+-- Which app user is signed in on which auth session
+CREATE TABLE IF NOT EXISTS user_sessions (
+  auth_uid UUID PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only reachable through the SECURITY DEFINER functions below
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- HELPERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION app_user_id()
+RETURNS INTEGER
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id FROM user_sessions WHERE auth_uid = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION app_user_role()
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT upper(u.role)
+  FROM user_sessions s
+  JOIN users u ON u.id = s.user_id
+  WHERE s.auth_uid = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION app_is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(app_user_role() IN ('OWNER', 'ADMIN', 'ADMINISTRATOR'), false);
+$$;
+
+CREATE OR REPLACE FUNCTION app_is_manager()
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(app_user_role() IN ('OWNER', 'ADMIN', 'ADMINISTRATOR', 'MANAGER'), false);
+$$;
+
+-- Same rules as hasAccess() in components/Layout.tsx. p_view is a ViewState
+-- value such as 'STOCK_IN'; permissions may be stored as 'STOCK_IN' or 'stockin'.
+CREATE OR REPLACE FUNCTION app_has_view(p_view TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN u.id IS NULL THEN false
+    WHEN upper(p_view) = 'DASHBOARD' THEN true
+    WHEN upper(u.role) IN ('OWNER', 'ADMIN', 'ADMINISTRATOR', 'MANAGER') THEN true
+    WHEN COALESCE(array_length(u.permissions, 1), 0) > 0 THEN EXISTS (
+      SELECT 1 FROM unnest(u.permissions) p
+      WHERE p = '*' OR replace(lower(p), '_', '') = replace(lower(p_view), '_', '')
+    )
+    ELSE upper(p_view) IN ('STOCK_IN', 'EXPENSES', 'INCOME', 'CLOSING')
+  END
+  FROM (SELECT 1) one
+  LEFT JOIN user_sessions s ON s.auth_uid = auth.uid()
+  LEFT JOIN users u ON u.id = s.user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION app_is_protected_role(p_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT upper(COALESCE(p_role, '')) IN ('OWNER', 'ADMIN', 'ADMINISTRATOR');
+$$;
+
+-- Whether the caller may give a user this role and these permissions.
+-- Manager and owner/admin roles are given by an owner/admin only; anyone
+-- else can only hand out screens they have themselves.
+CREATE OR REPLACE FUNCTION app_can_grant(p_role TEXT, p_permissions TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT app_is_admin() OR (
+    upper(trim(COALESCE(p_role, ''))) NOT IN ('OWNER', 'ADMIN', 'ADMINISTRATOR', 'MANAGER')
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(COALESCE(p_permissions, '{}')) p WHERE NOT app_has_view(p)
+    )
+  );
+$$;
+
+-- ============================================
+-- LOGIN / LOGOUT
+-- ============================================
+
+-- Same as 0008, plus binds the caller's auth session to the user on success
+CREATE OR REPLACE FUNCTION login_user(p_name TEXT, p_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  c_max_attempts CONSTANT INTEGER := 5;
+  c_lock_duration CONSTANT INTERVAL := INTERVAL '5 minutes';
+  v_user users;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'No auth session. Sign in before calling login_user.'
+      USING ERRCODE = 'invalid_authorization_specification';
+  END IF;
+
+  SELECT * INTO v_user
+  FROM users
+  WHERE lower(name) = lower(trim(p_name)) OR lower(username) = lower(trim(p_name))
+  ORDER BY (lower(name) = lower(trim(p_name))) DESC, id
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'invalid');
+  END IF;
+
+  IF v_user.locked_until IS NOT NULL AND v_user.locked_until > NOW() THEN
+    RETURN jsonb_build_object('status', 'locked', 'locked_until', v_user.locked_until);
+  END IF;
+
+  IF v_user.pin_hash IS NOT NULL AND v_user.pin_hash = crypt(p_pin, v_user.pin_hash) THEN
+    UPDATE users SET failed_attempts = 0, locked_until = NULL WHERE id = v_user.id;
+
+    INSERT INTO user_sessions (auth_uid, user_id)
+    VALUES (auth.uid(), v_user.id)
+    ON CONFLICT (auth_uid) DO UPDATE SET user_id = EXCLUDED.user_id, created_at = NOW();
+
+    RETURN jsonb_build_object(
+      'status', 'ok',
+      'user', jsonb_build_object(
+        'id', v_user.id,
+        'username', v_user.username,
+        'name', v_user.name,
+        'role', v_user.role,
+        'permissions', to_jsonb(COALESCE(v_user.permissions, '{}'))
+      )
+    );
+  END IF;
+
+  IF v_user.failed_attempts + 1 >= c_max_attempts THEN
+    UPDATE users
+       SET failed_attempts = 0, locked_until = NOW() + c_lock_duration
+     WHERE id = v_user.id
+     RETURNING * INTO v_user;
+    RETURN jsonb_build_object('status', 'locked', 'locked_until', v_user.locked_until);
+  END IF;
+
+  UPDATE users SET failed_attempts = failed_attempts + 1 WHERE id = v_user.id
+  RETURNING * INTO v_user;
+  RETURN jsonb_build_object('status', 'invalid', 'remaining_attempts', c_max_attempts - v_user.failed_attempts);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION logout_user()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM user_sessions WHERE auth_uid = auth.uid();
+$$;
+
+-- ============================================
+-- USER MANAGEMENT FUNCTIONS (re-defined with permission checks)
+-- ============================================
+
+-- Anyone may change their own PIN; Settings users may reset staff PINs.
+-- Owner/admin PINs can only be changed by that owner/admin.
+CREATE OR REPLACE FUNCTION set_user_pin(p_user_id INTEGER, p_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_target users;
+BEGIN
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4}$' THEN
+    RAISE EXCEPTION 'PIN must be exactly 4 digits.' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_target FROM users WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found.', p_user_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_user_id IS DISTINCT FROM app_user_id()
+     AND (NOT app_has_view('SETTINGS') OR app_is_protected_role(v_target.role)) THEN
+    RAISE EXCEPTION 'Not allowed to change this PIN.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE users
+     SET pin_hash = crypt(p_pin, gen_salt('bf')),
+         failed_attempts = 0,
+         locked_until = NULL
+   WHERE id = p_user_id;
+END;
+$$;
+
+-- Checked above, so it can be called over the API again (revoked in 0008)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon')
+     AND EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    GRANT EXECUTE ON FUNCTION set_user_pin(INTEGER, TEXT) TO anon, authenticated;
+  END IF;
+END;
+$$;
+
+-- Settings users create staff with permissions they have themselves; only
+-- an owner/admin may create a manager or another owner/admin. The very
+-- first user (empty table) can be created by setup.
+CREATE OR REPLACE FUNCTION create_user(
+  p_name TEXT,
+  p_username TEXT,
+  p_role TEXT,
+  p_permissions TEXT[],
+  p_pin TEXT
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_id INTEGER;
+  v_bootstrap BOOLEAN := NOT EXISTS (SELECT 1 FROM users);
+BEGIN
+  IF NOT v_bootstrap THEN
+    IF NOT app_has_view('SETTINGS') OR NOT app_can_grant(p_role, p_permissions) THEN
+      RAISE EXCEPTION 'Not allowed to create this user.' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4}$' THEN
+    RAISE EXCEPTION 'PIN must be exactly 4 digits.' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO users (name, username, role, permissions, pin_hash)
+  VALUES (p_name, p_username, p_role, COALESCE(p_permissions, '{}'), crypt(p_pin, gen_salt('bf')))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================
+-- FINAL CLOSING (re-defined to run with CLOSING permission, not table grants)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION perform_final_closing(
+  p_date_str TEXT,
+  p_closing_stock JSONB,
+  p_total_revenue NUMERIC,
+  p_cash_received NUMERIC DEFAULT 0,
+  p_total_withdrawals NUMERIC DEFAULT 0,
+  p_opening_cash NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_closed_by INTEGER DEFAULT NULL,
+  p_closing_id INTEGER DEFAULT NULL
+) RETURNS daily_closings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_closing daily_closings;
+BEGIN
+  IF NOT app_has_view('CLOSING') THEN
+    RAISE EXCEPTION 'Not allowed to lock the day.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Serialise concurrent lock attempts for the same day
+  PERFORM pg_advisory_xact_lock(hashtext('daily_closing:' || p_date_str));
+
+  IF EXISTS (
+    SELECT 1 FROM daily_closings
+    WHERE date_str = p_date_str AND closing_type = 'final'
+  ) THEN
+    RAISE EXCEPTION 'Final closing has already been done for %.', p_date_str
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_closing_stock) LOOP
+    UPDATE products
+       SET current_opening_stock = (v_item->>'newOpeningStock')::NUMERIC
+     WHERE id = (v_item->>'productId')::INTEGER;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product ID % no longer exists.', v_item->>'productId'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  END LOOP;
+
+  IF p_closing_id IS NOT NULL THEN
+    -- Promote today's draft (partial) record to final
+    UPDATE daily_closings
+       SET total_revenue = p_total_revenue,
+           cash_received = p_cash_received,
+           total_withdrawals = p_total_withdrawals,
+           opening_cash = COALESCE(p_opening_cash, opening_cash),
+           closing_type = 'final',
+           notes = p_notes,
+           closed_by = COALESCE(p_closed_by, app_user_id()),
+           report_json = jsonb_build_object('closingStock', p_closing_stock)
+     WHERE id = p_closing_id
+       AND date_str = p_date_str
+     RETURNING * INTO v_closing;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Draft closing % was not found for %.', p_closing_id, p_date_str
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  ELSE
+    INSERT INTO daily_closings (
+      date_str, total_revenue, cash_received, total_withdrawals,
+      opening_cash, closing_type, notes, closed_by, report_json
+    ) VALUES (
+      p_date_str, p_total_revenue, p_cash_received, p_total_withdrawals,
+      p_opening_cash, 'final', p_notes, COALESCE(p_closed_by, app_user_id()),
+      jsonb_build_object('closingStock', p_closing_stock)
+    )
+    RETURNING * INTO v_closing;
+  END IF;
+
+  RETURN v_closing;
+END;
+$$;
+
+-- Next day's opening cash is entered on the locked row after locking;
+-- nothing else on a locked row can be changed over the API
+CREATE OR REPLACE FUNCTION set_next_day_opening_cash(p_closing_id INTEGER, p_amount NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT app_has_view('CLOSING') THEN
+    RAISE EXCEPTION 'Not allowed to set the opening cash.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE daily_closings
+     SET next_day_opening_cash = p_amount
+   WHERE id = p_closing_id AND closing_type = 'final';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locked closing % was not found.', p_closing_id USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- POLICIES
+-- ============================================
+
+-- USERS: see yourself, Settings users see everyone. Owner/admin rows can
+-- only be edited by that owner/admin.
+DROP POLICY IF EXISTS "Enable read access for all users" ON users;
+DROP POLICY IF EXISTS "Enable insert for all users" ON users;
+DROP POLICY IF EXISTS "Enable update for all users" ON users;
+DROP POLICY IF EXISTS "Enable delete for all users" ON users;
+DROP POLICY IF EXISTS "Users read" ON users;
+DROP POLICY IF EXISTS "Users update" ON users;
+DROP POLICY IF EXISTS "Users delete" ON users;
+CREATE POLICY "Users read" ON users FOR SELECT
+  USING (id = app_user_id() OR app_has_view('SETTINGS'));
+CREATE POLICY "Users update" ON users FOR UPDATE
+  USING (
+    (id = app_user_id() AND NOT app_is_protected_role(role))
+    OR (app_has_view('SETTINGS') AND NOT app_is_protected_role(role))
+  )
+  WITH CHECK (NOT app_is_protected_role(role));
+CREATE POLICY "Users delete" ON users FOR DELETE
+  USING (app_has_view('SETTINGS') AND NOT app_is_protected_role(role) AND id <> app_user_id());
+-- Inserts go through create_user()
+
+-- The update policy lets staff edit their own name; roles and permissions
+-- are for Settings users, never on their own row, and only as app_can_grant()
+-- allows (a manager's are changed by an owner/admin only)
+CREATE OR REPLACE FUNCTION guard_user_privileges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated')
+     AND (NEW.role IS DISTINCT FROM OLD.role OR NEW.permissions IS DISTINCT FROM OLD.permissions)
+     AND (NOT app_has_view('SETTINGS')
+          OR NEW.id = app_user_id()
+          OR NOT app_can_grant(OLD.role, '{}')
+          OR NOT app_can_grant(NEW.role, NEW.permissions)) THEN
+    RAISE EXCEPTION 'Not allowed to change roles or permissions.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_user_privileges ON users;
+CREATE TRIGGER guard_user_privileges BEFORE UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION guard_user_privileges();
+
+-- CATEGORIES: everyone signed in reads (Cash Flow), Settings manages
+DROP POLICY IF EXISTS "Enable read access for all users" ON categories;
+DROP POLICY IF EXISTS "Enable insert for all users" ON categories;
+DROP POLICY IF EXISTS "Enable update for all users" ON categories;
+DROP POLICY IF EXISTS "Enable delete for all users" ON categories;
+DROP POLICY IF EXISTS "Categories read" ON categories;
+DROP POLICY IF EXISTS "Categories insert" ON categories;
+DROP POLICY IF EXISTS "Categories update" ON categories;
+DROP POLICY IF EXISTS "Categories delete" ON categories;
+CREATE POLICY "Categories read" ON categories FOR SELECT USING (app_user_id() IS NOT NULL);
+CREATE POLICY "Categories insert" ON categories FOR INSERT WITH CHECK (app_has_view('SETTINGS'));
+CREATE POLICY "Categories update" ON categories FOR UPDATE USING (app_has_view('SETTINGS'));
+CREATE POLICY "Categories delete" ON categories FOR DELETE USING (app_has_view('SETTINGS'));
+
+-- PRODUCTS: Products screen manages the list, Settings adjusts stock.
+-- Final closing updates stock through perform_final_closing().
+DROP POLICY IF EXISTS "Enable read access for all users" ON products;
+DROP POLICY IF EXISTS "Enable insert for all users" ON products;
+DROP POLICY IF EXISTS "Enable update for all users" ON products;
+DROP POLICY IF EXISTS "Enable delete for all users" ON products;
+DROP POLICY IF EXISTS "Products read" ON products;
+DROP POLICY IF EXISTS "Products insert" ON products;
+DROP POLICY IF EXISTS "Products update" ON products;
+DROP POLICY IF EXISTS "Products delete" ON products;
+CREATE POLICY "Products read" ON products FOR SELECT USING (app_user_id() IS NOT NULL);
+CREATE POLICY "Products insert" ON products FOR INSERT WITH CHECK (app_has_view('PRODUCTS'));
+CREATE POLICY "Products update" ON products FOR UPDATE
+  USING (app_has_view('PRODUCTS') OR app_has_view('SETTINGS'));
+CREATE POLICY "Products delete" ON products FOR DELETE USING (app_has_view('PRODUCTS'));
+
+-- TRANSACTIONS: insert only for the screen that records that type.
+-- Rows are never edited (returns are new rows); only owner/admin delete.
+DROP POLICY IF EXISTS "Enable read access for all users" ON transactions;
+DROP POLICY IF EXISTS "Enable insert for all users" ON transactions;
+DROP POLICY IF EXISTS "Enable update for all users" ON transactions;
+DROP POLICY IF EXISTS "Enable delete for all users" ON transactions;
+DROP POLICY IF EXISTS "Transactions read" ON transactions;
+DROP POLICY IF EXISTS "Transactions insert" ON transactions;
+DROP POLICY IF EXISTS "Transactions delete" ON transactions;
+CREATE POLICY "Transactions read" ON transactions FOR SELECT USING (app_user_id() IS NOT NULL);
+CREATE POLICY "Transactions insert" ON transactions FOR INSERT WITH CHECK (
+  CASE type
+    WHEN 'STOCK_IN' THEN app_has_view('STOCK_IN')
+    WHEN 'EXPENSE' THEN app_has_view('EXPENSES')
+    WHEN 'INCOME' THEN app_has_view('INCOME') OR app_has_view('EXPENSES')
+    ELSE app_is_manager()
+  END
+);
+CREATE POLICY "Transactions delete" ON transactions FOR DELETE USING (app_is_admin());
+
+-- DAILY CLOSINGS: Closing screen saves drafts; only owner/admin delete
+DROP POLICY IF EXISTS "Enable read access for all users" ON daily_closings;
+DROP POLICY IF EXISTS "Enable insert for all users" ON daily_closings;
+DROP POLICY IF EXISTS "Enable update for all users" ON daily_closings;
+DROP POLICY IF EXISTS "Enable delete for all users" ON daily_closings;
+DROP POLICY IF EXISTS "Closings read" ON daily_closings;
+DROP POLICY IF EXISTS "Closings insert" ON daily_closings;
+DROP POLICY IF EXISTS "Closings update" ON daily_closings;
+DROP POLICY IF EXISTS "Closings delete" ON daily_closings;
+CREATE POLICY "Closings read" ON daily_closings FOR SELECT USING (app_user_id() IS NOT NULL);
+CREATE POLICY "Closings insert" ON daily_closings FOR INSERT
+  WITH CHECK (app_has_view('CLOSING') AND closing_type = 'partial');
+-- Only drafts are edited here. Locking goes through perform_final_closing()
+-- and the locked row's next_day_opening_cash through set_next_day_opening_cash().
+CREATE POLICY "Closings update" ON daily_closings FOR UPDATE
+  USING (app_has_view('CLOSING') AND closing_type = 'partial')
+  WITH CHECK (app_has_view('CLOSING') AND closing_type = 'partial');
+CREATE POLICY "Closings delete" ON daily_closings FOR DELETE USING (app_is_admin());
+
+-- CASH WITHDRAWALS
+DROP POLICY IF EXISTS "Enable read access for all users" ON cash_withdrawals;
+DROP POLICY IF EXISTS "Enable insert for all users" ON cash_withdrawals;
+DROP POLICY IF EXISTS "Enable update for all users" ON cash_withdrawals;
+DROP POLICY IF EXISTS "Enable delete for all users" ON cash_withdrawals;
+DROP POLICY IF EXISTS "Withdrawals read" ON cash_withdrawals;
+DROP POLICY IF EXISTS "Withdrawals insert" ON cash_withdrawals;
+DROP POLICY IF EXISTS "Withdrawals delete" ON cash_withdrawals;
+CREATE POLICY "Withdrawals read" ON cash_withdrawals FOR SELECT USING (app_user_id() IS NOT NULL);
+CREATE POLICY "Withdrawals insert" ON cash_withdrawals FOR INSERT WITH CHECK (app_has_view('CLOSING'));
+CREATE POLICY "Withdrawals delete" ON cash_withdrawals FOR DELETE USING (app_is_admin());
+
+-- APP SETTINGS: readable before login (business day is needed on startup)
+DROP POLICY IF EXISTS "Enable read access for all users" ON app_settings;
+DROP POLICY IF EXISTS "Enable insert for all users" ON app_settings;
+DROP POLICY IF EXISTS "Enable update for all users" ON app_settings;
+DROP POLICY IF EXISTS "Settings read" ON app_settings;
+DROP POLICY IF EXISTS "Settings insert" ON app_settings;
+DROP POLICY IF EXISTS "Settings update" ON app_settings;
+CREATE POLICY "Settings read" ON app_settings FOR SELECT USING (true);
+CREATE POLICY "Settings insert" ON app_settings FOR INSERT WITH CHECK (app_has_view('SETTINGS'));
+CREATE POLICY "Settings update" ON app_settings FOR UPDATE USING (app_has_view('SETTINGS'));
@@ -0,0 +1,94 @@
+-- ============================================
+-- 0010 ACTION PERMISSIONS
+-- Database side of services/permissions.ts: app_can(action) follows the
+-- same ACTION_POLICY table, and app_has_view() only counts screen names
+-- (users.permissions may now also hold action names such as
+-- 'RETURN_TRANSACTION').
+-- ============================================
+
+CREATE OR REPLACE FUNCTION app_has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_sessions s
+    JOIN users u ON u.id = s.user_id
+    CROSS JOIN unnest(u.permissions) p
+    WHERE s.auth_uid = auth.uid()
+      AND (p = '*' OR replace(lower(p), '_', '') = replace(lower(p_permission), '_', ''))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION app_has_view(p_view TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN u.id IS NULL THEN false
+    WHEN upper(p_view) = 'DASHBOARD' THEN true
+    WHEN upper(u.role) IN ('OWNER', 'ADMIN', 'ADMINISTRATOR', 'MANAGER') THEN true
+    WHEN EXISTS (
+      SELECT 1 FROM unnest(u.permissions) p
+      WHERE p = '*' OR replace(lower(p), '_', '') IN (
+        'dashboard', 'stockin', 'expenses', 'income', 'closing', 'products', 'reports', 'settings'
+      )
+    ) THEN app_has_permission(p_view)
+    ELSE upper(p_view) IN ('STOCK_IN', 'EXPENSES', 'INCOME', 'CLOSING')
+  END
+  FROM (SELECT 1) one
+  LEFT JOIN user_sessions s ON s.auth_uid = auth.uid()
+  LEFT JOIN users u ON u.id = s.user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION app_can(p_action TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT CASE upper(p_action)
+    WHEN 'RETURN_TRANSACTION' THEN app_is_manager() OR app_has_permission('RETURN_TRANSACTION')
+    WHEN 'RECORD_WITHDRAWAL' THEN app_has_view('CLOSING')
+    WHEN 'LOCK_FINAL_CLOSING' THEN app_has_view('CLOSING')
+    WHEN 'ADJUST_STOCK' THEN app_has_view('SETTINGS') AND app_is_manager()
+    WHEN 'DELETE_DATA' THEN app_has_view('SETTINGS') AND app_is_admin()
+    WHEN 'MANAGE_USERS' THEN app_has_view('SETTINGS')
+    WHEN 'MANAGE_CATEGORIES' THEN app_has_view('SETTINGS')
+    WHEN 'MANAGE_PRODUCTS' THEN app_has_view('PRODUCTS')
+    WHEN 'MANAGE_SETTINGS' THEN app_has_view('SETTINGS')
+    ELSE false
+  END;
+$$;
+
+-- Returns are new rows flagged is_return, so they are checked on insert
+DROP POLICY IF EXISTS "Transactions insert" ON transactions;
+CREATE POLICY "Transactions insert" ON transactions FOR INSERT WITH CHECK (
+  CASE type
+    WHEN 'STOCK_IN' THEN app_has_view('STOCK_IN')
+    WHEN 'EXPENSE' THEN app_has_view('EXPENSES')
+    WHEN 'INCOME' THEN app_has_view('INCOME') OR app_has_view('EXPENSES')
+    ELSE app_is_manager()
+  END
+  AND (NOT is_return OR app_can('RETURN_TRANSACTION'))
+);
+
+DROP POLICY IF EXISTS "Transactions delete" ON transactions;
+CREATE POLICY "Transactions delete" ON transactions FOR DELETE USING (app_can('DELETE_DATA'));
+
+DROP POLICY IF EXISTS "Closings delete" ON daily_closings;
+CREATE POLICY "Closings delete" ON daily_closings FOR DELETE USING (app_can('DELETE_DATA'));
+
+DROP POLICY IF EXISTS "Withdrawals insert" ON cash_withdrawals;
+DROP POLICY IF EXISTS "Withdrawals delete" ON cash_withdrawals;
+CREATE POLICY "Withdrawals insert" ON cash_withdrawals FOR INSERT WITH CHECK (app_can('RECORD_WITHDRAWAL'));
+CREATE POLICY "Withdrawals delete" ON cash_withdrawals FOR DELETE USING (app_can('DELETE_DATA'));
+
+DROP POLICY IF EXISTS "Products insert" ON products;
+DROP POLICY IF EXISTS "Products update" ON products;
+DROP POLICY IF EXISTS "Products delete" ON products;
+CREATE POLICY "Products insert" ON products FOR INSERT WITH CHECK (app_can('MANAGE_PRODUCTS'));
+CREATE POLICY "Products update" ON products FOR UPDATE
+  USING (app_can('MANAGE_PRODUCTS') OR app_can('ADJUST_STOCK'));
+CREATE POLICY "Products delete" ON products FOR DELETE USING (app_can('MANAGE_PRODUCTS'));
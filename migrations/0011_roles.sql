@@ -0,0 +1,265 @@
+-- ============================================
+-- 0011 CUSTOM ROLES
+-- Named roles carry a set of view/action permissions. Staff are assigned a
+-- role and may have per-user extras (users.permissions) and removals
+-- (users.denied_permissions) on top. users.role keeps the role's name so
+-- Owner/Admin/Manager detection is unchanged.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS roles (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  permissions TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT roles_name_not_builtin CHECK (lower(name) NOT IN ('owner', 'admin', 'administrator', 'manager'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_roles_name ON roles(lower(name));
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role_id INTEGER REFERENCES roles(id) ON DELETE SET NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS denied_permissions TEXT[] NOT NULL DEFAULT '{}';
+
+-- Lock and withdrawal used to come with the Closing screen; they are now
+-- explicit actions. Keep existing staff able to do what they did before.
+UPDATE users
+   SET permissions = permissions || ARRAY['RECORD_WITHDRAWAL', 'LOCK_FINAL_CLOSING']
+ WHERE EXISTS (SELECT 1 FROM unnest(permissions) p WHERE replace(lower(p), '_', '') = 'closing')
+   AND NOT ('LOCK_FINAL_CLOSING' = ANY(permissions));
+
+-- Starter roles
+INSERT INTO roles (name, permissions) VALUES
+  ('Counter Staff', ARRAY['STOCK_IN', 'EXPENSES', 'INCOME', 'CLOSING', 'RECORD_WITHDRAWAL']),
+  ('Supervisor', ARRAY['STOCK_IN', 'EXPENSES', 'INCOME', 'CLOSING', 'PRODUCTS', 'REPORTS',
+                       'RETURN_TRANSACTION', 'RECORD_WITHDRAWAL', 'LOCK_FINAL_CLOSING']),
+  ('Accountant', ARRAY['EXPENSES', 'INCOME', 'REPORTS'])
+ON CONFLICT DO NOTHING;
+
+-- Turn existing free-text staff roles into (empty) roles; their current
+-- permissions stay on the user as extras, so access is unchanged
+INSERT INTO roles (name)
+SELECT DISTINCT ON (lower(trim(role))) trim(role)
+FROM users
+WHERE trim(COALESCE(role, '')) <> ''
+  AND lower(trim(role)) NOT IN ('owner', 'admin', 'administrator', 'manager')
+ON CONFLICT DO NOTHING;
+
+UPDATE users u
+   SET role_id = r.id
+  FROM roles r
+ WHERE u.role_id IS NULL
+   AND lower(trim(u.role)) = lower(r.name);
+
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Roles read" ON roles;
+DROP POLICY IF EXISTS "Roles insert" ON roles;
+DROP POLICY IF EXISTS "Roles update" ON roles;
+DROP POLICY IF EXISTS "Roles delete" ON roles;
+CREATE POLICY "Roles read" ON roles FOR SELECT USING (app_user_id() IS NOT NULL);
+-- A role can only carry permissions its editor has (see app_can_grant)
+CREATE POLICY "Roles insert" ON roles FOR INSERT
+  WITH CHECK (app_can('MANAGE_USERS') AND app_can_grant(name, permissions));
+CREATE POLICY "Roles update" ON roles FOR UPDATE
+  USING (app_can('MANAGE_USERS'))
+  WITH CHECK (app_can('MANAGE_USERS') AND app_can_grant(name, permissions));
+CREATE POLICY "Roles delete" ON roles FOR DELETE USING (app_can('MANAGE_USERS'));
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon')
+     AND EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    GRANT SELECT (role_id, denied_permissions) ON users TO anon, authenticated;
+    GRANT UPDATE (role_id, denied_permissions) ON users TO anon, authenticated;
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- PERMISSION HELPERS (same rules as services/permissions.ts)
+-- ============================================
+
+-- Role grants + user extras - user denials; basic counter tasks when the
+-- result has no screen permissions
+CREATE OR REPLACE FUNCTION app_user_permissions()
+RETURNS TEXT[]
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH granted AS (
+    SELECT COALESCE(r.permissions, '{}') || COALESCE(u.permissions, '{}') AS perms,
+           COALESCE(u.denied_permissions, '{}') AS denied
+    FROM user_sessions s
+    JOIN users u ON u.id = s.user_id
+    LEFT JOIN roles r ON r.id = u.role_id
+    WHERE s.auth_uid = auth.uid()
+  ), with_basics AS (
+    SELECT CASE
+             WHEN EXISTS (
+               SELECT 1 FROM unnest(perms) p
+               WHERE p = '*' OR replace(lower(p), '_', '') IN (
+                 'dashboard', 'stockin', 'expenses', 'income', 'closing', 'products', 'reports', 'settings'
+               )
+             ) THEN perms
+             ELSE ARRAY['STOCK_IN', 'EXPENSES', 'INCOME', 'CLOSING', 'RECORD_WITHDRAWAL', 'LOCK_FINAL_CLOSING'] || perms
+           END AS perms,
+           denied
+    FROM granted
+  )
+  SELECT COALESCE(array_agg(DISTINCT p), '{}')
+  FROM with_basics, unnest(perms) p
+  WHERE NOT EXISTS (
+    SELECT 1 FROM unnest(denied) d WHERE replace(lower(d), '_', '') = replace(lower(p), '_', '')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION app_has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM unnest(app_user_permissions()) p
+    WHERE p = '*' OR replace(lower(p), '_', '') = replace(lower(p_permission), '_', '')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION app_has_view(p_view TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN app_user_id() IS NULL THEN false
+    WHEN upper(p_view) = 'DASHBOARD' THEN true
+    WHEN app_is_manager() THEN true
+    ELSE app_has_permission(p_view)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION app_can(p_action TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT CASE upper(p_action)
+    WHEN 'RETURN_TRANSACTION' THEN app_is_manager() OR app_has_permission('RETURN_TRANSACTION')
+    WHEN 'RECORD_WITHDRAWAL' THEN app_has_view('CLOSING') AND (app_is_manager() OR app_has_permission('RECORD_WITHDRAWAL'))
+    WHEN 'LOCK_FINAL_CLOSING' THEN app_has_view('CLOSING') AND (app_is_manager() OR app_has_permission('LOCK_FINAL_CLOSING'))
+    WHEN 'ADJUST_STOCK' THEN app_has_view('SETTINGS') AND app_is_manager()
+    WHEN 'DELETE_DATA' THEN app_has_view('SETTINGS') AND app_is_admin()
+    WHEN 'MANAGE_USERS' THEN app_has_view('SETTINGS')
+    WHEN 'MANAGE_CATEGORIES' THEN app_has_view('SETTINGS')
+    WHEN 'MANAGE_PRODUCTS' THEN app_has_view('PRODUCTS')
+    WHEN 'MANAGE_SETTINGS' THEN app_has_view('SETTINGS')
+    ELSE false
+  END;
+$$;
+
+-- Same as 0009, also covering the role and denied permissions columns.
+-- Permissions that come with the assigned role count as given too.
+CREATE OR REPLACE FUNCTION guard_user_privileges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated')
+     AND (NEW.role IS DISTINCT FROM OLD.role
+          OR NEW.permissions IS DISTINCT FROM OLD.permissions
+          OR NEW.role_id IS DISTINCT FROM OLD.role_id
+          OR NEW.denied_permissions IS DISTINCT FROM OLD.denied_permissions)
+     AND (NOT app_can('MANAGE_USERS')
+          OR NEW.id = app_user_id()
+          OR NOT app_can_grant(OLD.role, '{}')
+          OR NOT app_can_grant(
+               NEW.role,
+               NEW.permissions || COALESCE((SELECT r.permissions FROM roles r WHERE r.id = NEW.role_id), '{}')
+             )) THEN
+    RAISE EXCEPTION 'Not allowed to change roles or permissions.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- FINAL CLOSING (permission check is now LOCK_FINAL_CLOSING)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION perform_final_closing(
+  p_date_str TEXT,
+  p_closing_stock JSONB,
+  p_total_revenue NUMERIC,
+  p_cash_received NUMERIC DEFAULT 0,
+  p_total_withdrawals NUMERIC DEFAULT 0,
+  p_opening_cash NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_closed_by INTEGER DEFAULT NULL,
+  p_closing_id INTEGER DEFAULT NULL
+) RETURNS daily_closings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_closing daily_closings;
+BEGIN
+  IF NOT app_can('LOCK_FINAL_CLOSING') THEN
+    RAISE EXCEPTION 'Not allowed to lock the day.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Serialise concurrent lock attempts for the same day
+  PERFORM pg_advisory_xact_lock(hashtext('daily_closing:' || p_date_str));
+
+  IF EXISTS (
+    SELECT 1 FROM daily_closings
+    WHERE date_str = p_date_str AND closing_type = 'final'
+  ) THEN
+    RAISE EXCEPTION 'Final closing has already been done for %.', p_date_str
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_closing_stock) LOOP
+    UPDATE products
+       SET current_opening_stock = (v_item->>'newOpeningStock')::NUMERIC
+     WHERE id = (v_item->>'productId')::INTEGER;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product ID % no longer exists.', v_item->>'productId'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  END LOOP;
+
+  IF p_closing_id IS NOT NULL THEN
+    -- Promote today's draft (partial) record to final
+    UPDATE daily_closings
+       SET total_revenue = p_total_revenue,
+           cash_received = p_cash_received,
+           total_withdrawals = p_total_withdrawals,
+           opening_cash = COALESCE(p_opening_cash, opening_cash),
+           closing_type = 'final',
+           notes = p_notes,
+           closed_by = COALESCE(p_closed_by, app_user_id()),
+           report_json = jsonb_build_object('closingStock', p_closing_stock)
+     WHERE id = p_closing_id
+       AND date_str = p_date_str
+     RETURNING * INTO v_closing;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Draft closing % was not found for %.', p_closing_id, p_date_str
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  ELSE
+    INSERT INTO daily_closings (
+      date_str, total_revenue, cash_received, total_withdrawals,
+      opening_cash, closing_type, notes, closed_by, report_json
+    ) VALUES (
+      p_date_str, p_total_revenue, p_cash_received, p_total_withdrawals,
+      p_opening_cash, 'final', p_notes, COALESCE(p_closed_by, app_user_id()),
+      jsonb_build_object('closingStock', p_closing_stock)
+    )
+    RETURNING * INTO v_closing;
+  END IF;
+
+  RETURN v_closing;
+END;
+$$;
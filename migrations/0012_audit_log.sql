@@ -0,0 +1,160 @@
+-- ============================================
+-- 0012 AUDIT LOG
+-- Append-only record of every insert/update/delete on the business tables:
+-- who (app user), when, which row, and the row before/after. Written by
+-- triggers, so direct table writes and RPCs such as perform_final_closing
+-- are captured the same way as the service functions.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  business_date TEXT NOT NULL,
+  -- No FK: entries must outlive deleted users
+  user_id INTEGER,
+  user_name TEXT,
+  entity TEXT NOT NULL,
+  entity_id TEXT,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  before_data JSONB,
+  after_data JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_business_date ON audit_log(business_date);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_user ON audit_log(user_id);
+
+-- Business date (YYYY-MM-DD) in the shop's timezone, same rule as
+-- getBusinessDateString() in services/supabase.ts
+CREATE OR REPLACE FUNCTION app_business_date(p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_char(
+    (p_at - make_interval(hours => COALESCE((s.value->>'cutoverHour')::INTEGER, 0)))
+      AT TIME ZONE COALESCE(s.value->>'timezone', 'Asia/Karachi'),
+    'YYYY-MM-DD'
+  )
+  FROM (SELECT 1) one
+  LEFT JOIN app_settings s ON s.key = 'business_day';
+$$;
+
+-- Trigger arguments list columns to leave out of the snapshots (secrets and
+-- login bookkeeping). An update that only touches those columns is not logged.
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_hidden TEXT[] := COALESCE(TG_ARGV, '{}');
+  v_before JSONB;
+  v_after JSONB;
+  v_user_id INTEGER := app_user_id();
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_before := to_jsonb(OLD) - v_hidden;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_after := to_jsonb(NEW) - v_hidden;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- PIN changes are worth recording, the hash itself is not
+    IF TG_TABLE_NAME = 'users' THEN
+      IF OLD.pin_hash IS DISTINCT FROM NEW.pin_hash THEN
+        v_after := v_after || jsonb_build_object('pin_changed', true);
+      END IF;
+    END IF;
+    IF v_before = v_after THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (business_date, user_id, user_name, entity, entity_id, action, before_data, after_data)
+  VALUES (
+    app_business_date(),
+    v_user_id,
+    (SELECT name FROM users WHERE id = v_user_id),
+    TG_TABLE_NAME,
+    COALESCE(v_after->>'id', v_before->>'id', v_after->>'key', v_before->>'key'),
+    TG_OP,
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_users ON users;
+CREATE TRIGGER audit_users AFTER INSERT OR UPDATE OR DELETE ON users
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('pin_hash', 'failed_attempts', 'locked_until');
+
+DROP TRIGGER IF EXISTS audit_roles ON roles;
+CREATE TRIGGER audit_roles AFTER INSERT OR UPDATE OR DELETE ON roles
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_categories ON categories;
+CREATE TRIGGER audit_categories AFTER INSERT OR UPDATE OR DELETE ON categories
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_products ON products;
+CREATE TRIGGER audit_products AFTER INSERT OR UPDATE OR DELETE ON products
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_transactions ON transactions;
+CREATE TRIGGER audit_transactions AFTER INSERT OR UPDATE OR DELETE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_daily_closings ON daily_closings;
+CREATE TRIGGER audit_daily_closings AFTER INSERT OR UPDATE OR DELETE ON daily_closings
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_cash_withdrawals ON cash_withdrawals;
+CREATE TRIGGER audit_cash_withdrawals AFTER INSERT OR UPDATE OR DELETE ON cash_withdrawals
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_app_settings ON app_settings;
+CREATE TRIGGER audit_app_settings AFTER INSERT OR UPDATE OR DELETE ON app_settings
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- ============================================
+-- ACCESS: readable by managers, never writable through the API
+-- ============================================
+
+CREATE OR REPLACE FUNCTION app_can(p_action TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT CASE upper(p_action)
+    WHEN 'RETURN_TRANSACTION' THEN app_is_manager() OR app_has_permission('RETURN_TRANSACTION')
+    WHEN 'RECORD_WITHDRAWAL' THEN app_has_view('CLOSING') AND (app_is_manager() OR app_has_permission('RECORD_WITHDRAWAL'))
+    WHEN 'LOCK_FINAL_CLOSING' THEN app_has_view('CLOSING') AND (app_is_manager() OR app_has_permission('LOCK_FINAL_CLOSING'))
+    WHEN 'ADJUST_STOCK' THEN app_has_view('SETTINGS') AND app_is_manager()
+    WHEN 'DELETE_DATA' THEN app_has_view('SETTINGS') AND app_is_admin()
+    WHEN 'MANAGE_USERS' THEN app_has_view('SETTINGS')
+    WHEN 'MANAGE_CATEGORIES' THEN app_has_view('SETTINGS')
+    WHEN 'MANAGE_PRODUCTS' THEN app_has_view('PRODUCTS')
+    WHEN 'MANAGE_SETTINGS' THEN app_has_view('SETTINGS')
+    WHEN 'VIEW_AUDIT_LOG' THEN app_has_view('SETTINGS') AND app_is_manager()
+    ELSE false
+  END;
+$$;
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Audit read" ON audit_log;
+CREATE POLICY "Audit read" ON audit_log FOR SELECT USING (app_can('VIEW_AUDIT_LOG'));
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon')
+     AND EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
+  END IF;
+END;
+$$;
@@ -0,0 +1,85 @@
+-- ============================================
+-- 0013 STOCK ADJUSTMENTS
+-- Stock corrections are ADJUSTMENT transactions (signed quantity + reason)
+-- instead of silent overwrites of products.current_opening_stock, so
+-- Reports can explain every change. Day Closing adds the day's adjustments
+-- to the available stock.
+-- ============================================
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type IN ('STOCK_IN', 'EXPENSE', 'INCOME', 'ADJUSTMENT'));
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS reason_code TEXT;
+
+-- product_id is not required here: it is set to NULL if the product is deleted
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_adjustment_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_adjustment_check CHECK (
+  type <> 'ADJUSTMENT' OR (
+    quantity IS NOT NULL AND quantity <> 0
+    AND reason_code IN ('COUNT_CORRECTION', 'DAMAGE', 'THEFT', 'FOUND')
+  )
+);
+
+DROP POLICY IF EXISTS "Transactions insert" ON transactions;
+CREATE POLICY "Transactions insert" ON transactions FOR INSERT WITH CHECK (
+  CASE type
+    WHEN 'STOCK_IN' THEN app_has_view('STOCK_IN')
+    WHEN 'EXPENSE' THEN app_has_view('EXPENSES')
+    WHEN 'INCOME' THEN app_has_view('INCOME') OR app_has_view('EXPENSES')
+    WHEN 'ADJUSTMENT' THEN app_can('ADJUST_STOCK')
+    ELSE app_is_manager()
+  END
+  AND (NOT is_return OR app_can('RETURN_TRANSACTION'))
+);
+
+-- Records a batch of adjustments for one day in a single transaction.
+-- p_items: [{ "productId": 1, "quantity": -2 }, ...]
+-- Once the day's final closing is locked, its closing stock has already been
+-- carried into current_opening_stock, so the change is applied there too.
+CREATE OR REPLACE FUNCTION record_stock_adjustments(
+  p_date_str TEXT,
+  p_reason_code TEXT,
+  p_items JSONB,
+  p_note TEXT DEFAULT NULL
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_quantity NUMERIC;
+  v_day_locked BOOLEAN;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT app_can('ADJUST_STOCK') THEN
+    RAISE EXCEPTION 'Not allowed to adjust stock.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Same lock as perform_final_closing, so the day can't be locked halfway through
+  PERFORM pg_advisory_xact_lock(hashtext('daily_closing:' || p_date_str));
+
+  v_day_locked := EXISTS (
+    SELECT 1 FROM daily_closings
+    WHERE date_str = p_date_str AND closing_type = 'final'
+  );
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+    CONTINUE WHEN v_quantity IS NULL OR v_quantity = 0;
+
+    INSERT INTO transactions (type, product_id, quantity, reason_code, note, date_str)
+    VALUES ('ADJUSTMENT', (v_item->>'productId')::INTEGER, v_quantity, p_reason_code, p_note, p_date_str);
+
+    IF v_day_locked THEN
+      UPDATE products
+         SET current_opening_stock = current_opening_stock + v_quantity
+       WHERE id = (v_item->>'productId')::INTEGER;
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,35 @@
+-- ============================================
+-- 0014 WASTAGE
+-- Expired/spilled/damaged stock is recorded as a WASTAGE transaction
+-- (positive quantity taken out of stock, amount = value at sale price).
+-- Day Closing removes it from the available stock, so it is no longer
+-- counted as sold. Reversals are negative rows like other returns.
+-- ============================================
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type IN ('STOCK_IN', 'EXPENSE', 'INCOME', 'ADJUSTMENT', 'WASTAGE'));
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_wastage_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_wastage_check CHECK (
+  type <> 'WASTAGE' OR (
+    quantity IS NOT NULL AND quantity <> 0
+    AND reason_code IN ('EXPIRED', 'SPILLED', 'DAMAGED')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_product ON transactions(product_id);
+
+-- Wastage is recorded from the Day Closing screen
+DROP POLICY IF EXISTS "Transactions insert" ON transactions;
+CREATE POLICY "Transactions insert" ON transactions FOR INSERT WITH CHECK (
+  CASE type
+    WHEN 'STOCK_IN' THEN app_has_view('STOCK_IN')
+    WHEN 'EXPENSE' THEN app_has_view('EXPENSES')
+    WHEN 'INCOME' THEN app_has_view('INCOME') OR app_has_view('EXPENSES')
+    WHEN 'ADJUSTMENT' THEN app_can('ADJUST_STOCK')
+    WHEN 'WASTAGE' THEN app_has_view('CLOSING')
+    ELSE app_is_manager()
+  END
+  AND (NOT is_return OR app_can('RETURN_TRANSACTION'))
+);
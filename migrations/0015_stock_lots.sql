@@ -0,0 +1,233 @@
+-- ============================================
+-- 0015 STOCK LOTS
+-- Each STOCK_IN may carry a batch code and expiry date and opens a lot.
+-- Lots are consumed first-in-first-out: at the final closing each
+-- product's lots are brought down (or up) to the counted closing stock,
+-- which covers everything sold, wasted or adjusted that day.
+-- ============================================
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS batch_code TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS expiry_date TEXT; -- YYYY-MM-DD
+
+CREATE TABLE IF NOT EXISTS stock_lots (
+  id SERIAL PRIMARY KEY,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  -- STOCK_IN that opened the lot; NULL for stock that predates lot tracking
+  transaction_id INTEGER REFERENCES transactions(id) ON DELETE SET NULL,
+  batch_code TEXT,
+  expiry_date TEXT,
+  received_date TEXT NOT NULL,
+  quantity_received NUMERIC NOT NULL,
+  quantity_remaining NUMERIC NOT NULL CHECK (quantity_remaining >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_lots_open ON stock_lots(product_id, received_date, id)
+  WHERE quantity_remaining > 0;
+CREATE INDEX IF NOT EXISTS idx_stock_lots_expiry ON stock_lots(expiry_date)
+  WHERE quantity_remaining > 0;
+CREATE INDEX IF NOT EXISTS idx_stock_lots_transaction ON stock_lots(transaction_id);
+
+DROP TRIGGER IF EXISTS audit_stock_lots ON stock_lots;
+CREATE TRIGGER audit_stock_lots AFTER INSERT OR UPDATE OR DELETE ON stock_lots
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- Lots are maintained by the functions below only
+ALTER TABLE stock_lots ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Lots read" ON stock_lots;
+CREATE POLICY "Lots read" ON stock_lots FOR SELECT USING (app_user_id() IS NOT NULL);
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon')
+     AND EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON stock_lots FROM anon, authenticated;
+  END IF;
+END;
+$$;
+
+-- STOCK_IN opens a lot; returning a STOCK_IN takes the quantity back off
+-- the lot it opened
+CREATE OR REPLACE FUNCTION stock_in_lot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.product_id IS NULL OR COALESCE(NEW.quantity, 0) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.is_return THEN
+    UPDATE stock_lots
+       SET quantity_remaining = GREATEST(0, quantity_remaining + NEW.quantity)
+     WHERE transaction_id = NEW.return_of;
+  ELSIF NEW.quantity > 0 THEN
+    INSERT INTO stock_lots (
+      product_id, transaction_id, batch_code, expiry_date, received_date,
+      quantity_received, quantity_remaining
+    ) VALUES (
+      NEW.product_id, NEW.id, NULLIF(trim(NEW.batch_code), ''), NEW.expiry_date, NEW.date_str,
+      NEW.quantity, NEW.quantity
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stock_in_lot ON transactions;
+CREATE TRIGGER stock_in_lot AFTER INSERT ON transactions
+  FOR EACH ROW WHEN (NEW.type = 'STOCK_IN')
+  EXECUTE FUNCTION stock_in_lot();
+
+-- Bring a product's open lots in line with its counted stock: consume the
+-- oldest lots first; any surplus (stock without a lot, found items) becomes
+-- an untracked lot so the ledger always adds up to the real count.
+CREATE OR REPLACE FUNCTION reconcile_stock_lots(
+  p_product_id INTEGER,
+  p_counted NUMERIC,
+  p_date_str TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot stock_lots;
+  v_excess NUMERIC;
+  v_take NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(quantity_remaining), 0) - GREATEST(p_counted, 0)
+    INTO v_excess
+    FROM stock_lots
+   WHERE product_id = p_product_id AND quantity_remaining > 0;
+
+  IF v_excess < 0 THEN
+    INSERT INTO stock_lots (product_id, received_date, quantity_received, quantity_remaining)
+    VALUES (p_product_id, p_date_str, -v_excess, -v_excess);
+    RETURN;
+  END IF;
+
+  FOR v_lot IN
+    SELECT * FROM stock_lots
+     WHERE product_id = p_product_id AND quantity_remaining > 0
+     ORDER BY received_date, id
+       FOR UPDATE
+  LOOP
+    EXIT WHEN v_excess <= 0;
+    v_take := LEAST(v_lot.quantity_remaining, v_excess);
+    UPDATE stock_lots SET quantity_remaining = quantity_remaining - v_take WHERE id = v_lot.id;
+    v_excess := v_excess - v_take;
+  END LOOP;
+END;
+$$;
+
+-- Only for perform_final_closing, never called over the API
+REVOKE EXECUTE ON FUNCTION reconcile_stock_lots(INTEGER, NUMERIC, TEXT) FROM PUBLIC;
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon')
+     AND EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    REVOKE EXECUTE ON FUNCTION reconcile_stock_lots(INTEGER, NUMERIC, TEXT) FROM anon, authenticated;
+  END IF;
+END;
+$$;
+
+-- Existing stock predates lot tracking: one untracked lot per product
+INSERT INTO stock_lots (product_id, received_date, quantity_received, quantity_remaining)
+SELECT p.id, app_business_date(), p.current_opening_stock, p.current_opening_stock
+  FROM products p
+ WHERE p.current_opening_stock > 0
+   AND NOT EXISTS (SELECT 1 FROM stock_lots l WHERE l.product_id = p.id);
+
+-- ============================================
+-- FINAL CLOSING (now also consumes lots)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION perform_final_closing(
+  p_date_str TEXT,
+  p_closing_stock JSONB,
+  p_total_revenue NUMERIC,
+  p_cash_received NUMERIC DEFAULT 0,
+  p_total_withdrawals NUMERIC DEFAULT 0,
+  p_opening_cash NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_closed_by INTEGER DEFAULT NULL,
+  p_closing_id INTEGER DEFAULT NULL
+) RETURNS daily_closings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_closing daily_closings;
+BEGIN
+  IF NOT app_can('LOCK_FINAL_CLOSING') THEN
+    RAISE EXCEPTION 'Not allowed to lock the day.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Serialise concurrent lock attempts for the same day
+  PERFORM pg_advisory_xact_lock(hashtext('daily_closing:' || p_date_str));
+
+  IF EXISTS (
+    SELECT 1 FROM daily_closings
+    WHERE date_str = p_date_str AND closing_type = 'final'
+  ) THEN
+    RAISE EXCEPTION 'Final closing has already been done for %.', p_date_str
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_closing_stock) LOOP
+    UPDATE products
+       SET current_opening_stock = (v_item->>'newOpeningStock')::NUMERIC
+     WHERE id = (v_item->>'productId')::INTEGER;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product ID % no longer exists.', v_item->>'productId'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    PERFORM reconcile_stock_lots(
+      (v_item->>'productId')::INTEGER,
+      (v_item->>'newOpeningStock')::NUMERIC,
+      p_date_str
+    );
+  END LOOP;
+
+  IF p_closing_id IS NOT NULL THEN
+    -- Promote today's draft (partial) record to final
+    UPDATE daily_closings
+       SET total_revenue = p_total_revenue,
+           cash_received = p_cash_received,
+           total_withdrawals = p_total_withdrawals,
+           opening_cash = COALESCE(p_opening_cash, opening_cash),
+           closing_type = 'final',
+           notes = p_notes,
+           closed_by = COALESCE(p_closed_by, app_user_id()),
+           report_json = jsonb_build_object('closingStock', p_closing_stock)
+     WHERE id = p_closing_id
+       AND date_str = p_date_str
+     RETURNING * INTO v_closing;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Draft closing % was not found for %.', p_closing_id, p_date_str
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  ELSE
+    INSERT INTO daily_closings (
+      date_str, total_revenue, cash_received, total_withdrawals,
+      opening_cash, closing_type, notes, closed_by, report_json
+    ) VALUES (
+      p_date_str, p_total_revenue, p_cash_received, p_total_withdrawals,
+      p_opening_cash, 'final', p_notes, COALESCE(p_closed_by, app_user_id()),
+      jsonb_build_object('closingStock', p_closing_stock)
+    )
+    RETURNING * INTO v_closing;
+  END IF;
+
+  RETURN v_closing;
+END;
+$$;
@@ -0,0 +1,134 @@
+-- ============================================
+-- 0016 PURCHASE COST
+-- Each STOCK_IN records the unit cost paid (amount = quantity x cost) and
+-- updates the product's last cost, which the next stock-in defaults to.
+-- The final closing values the day's sold quantities at that cost
+-- (daily_closings.cost_of_goods) and keeps each product's sold quantity,
+-- sale price and unit cost in report_json for per-product margins.
+-- ============================================
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS cost_price NUMERIC;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS unit_cost NUMERIC;
+ALTER TABLE daily_closings ADD COLUMN IF NOT EXISTS cost_of_goods NUMERIC;
+
+-- Stock-in staff can't edit products, so the last cost is kept up to date here
+CREATE OR REPLACE FUNCTION stock_in_cost()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE products SET cost_price = NEW.unit_cost WHERE id = NEW.product_id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stock_in_cost ON transactions;
+CREATE TRIGGER stock_in_cost AFTER INSERT ON transactions
+  FOR EACH ROW WHEN (NEW.type = 'STOCK_IN' AND NOT NEW.is_return AND NEW.unit_cost IS NOT NULL)
+  EXECUTE FUNCTION stock_in_cost();
+
+-- ============================================
+-- FINAL CLOSING (now also records cost of goods sold)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION perform_final_closing(
+  p_date_str TEXT,
+  p_closing_stock JSONB,
+  p_total_revenue NUMERIC,
+  p_cash_received NUMERIC DEFAULT 0,
+  p_total_withdrawals NUMERIC DEFAULT 0,
+  p_opening_cash NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_closed_by INTEGER DEFAULT NULL,
+  p_closing_id INTEGER DEFAULT NULL
+) RETURNS daily_closings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_product products;
+  v_stock JSONB := '[]'::JSONB;
+  v_cost_of_goods NUMERIC := 0;
+  v_closing daily_closings;
+BEGIN
+  IF NOT app_can('LOCK_FINAL_CLOSING') THEN
+    RAISE EXCEPTION 'Not allowed to lock the day.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Serialise concurrent lock attempts for the same day
+  PERFORM pg_advisory_xact_lock(hashtext('daily_closing:' || p_date_str));
+
+  IF EXISTS (
+    SELECT 1 FROM daily_closings
+    WHERE date_str = p_date_str AND closing_type = 'final'
+  ) THEN
+    RAISE EXCEPTION 'Final closing has already been done for %.', p_date_str
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_closing_stock) LOOP
+    UPDATE products
+       SET current_opening_stock = (v_item->>'newOpeningStock')::NUMERIC
+     WHERE id = (v_item->>'productId')::INTEGER
+    RETURNING * INTO v_product;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product ID % no longer exists.', v_item->>'productId'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    -- Prices as they were today, so later price changes don't rewrite margins
+    v_item := v_item || jsonb_build_object(
+      'salePrice', v_product.sale_price,
+      'unitCost', v_product.cost_price
+    );
+    v_stock := v_stock || jsonb_build_array(v_item);
+    v_cost_of_goods := v_cost_of_goods
+      + COALESCE((v_item->>'sold')::NUMERIC, 0) * COALESCE(v_product.cost_price, 0);
+
+    PERFORM reconcile_stock_lots(
+      (v_item->>'productId')::INTEGER,
+      (v_item->>'newOpeningStock')::NUMERIC,
+      p_date_str
+    );
+  END LOOP;
+
+  IF p_closing_id IS NOT NULL THEN
+    -- Promote today's draft (partial) record to final
+    UPDATE daily_closings
+       SET total_revenue = p_total_revenue,
+           cash_received = p_cash_received,
+           total_withdrawals = p_total_withdrawals,
+           opening_cash = COALESCE(p_opening_cash, opening_cash),
+           closing_type = 'final',
+           notes = p_notes,
+           closed_by = COALESCE(p_closed_by, app_user_id()),
+           cost_of_goods = v_cost_of_goods,
+           report_json = jsonb_build_object('closingStock', v_stock)
+     WHERE id = p_closing_id
+       AND date_str = p_date_str
+     RETURNING * INTO v_closing;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Draft closing % was not found for %.', p_closing_id, p_date_str
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  ELSE
+    INSERT INTO daily_closings (
+      date_str, total_revenue, cash_received, total_withdrawals,
+      opening_cash, closing_type, notes, closed_by, cost_of_goods, report_json
+    ) VALUES (
+      p_date_str, p_total_revenue, p_cash_received, p_total_withdrawals,
+      p_opening_cash, 'final', p_notes, COALESCE(p_closed_by, app_user_id()),
+      v_cost_of_goods, jsonb_build_object('closingStock', v_stock)
+    )
+    RETURNING * INTO v_closing;
+  END IF;
+
+  RETURN v_closing;
+END;
+$$;
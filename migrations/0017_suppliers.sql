@@ -0,0 +1,162 @@
+-- ============================================
+-- 0017 SUPPLIERS
+-- Supplier directory (name, phone, products supplied with a default unit
+-- cost) and an optional supplier on each STOCK_IN, so deliveries and their
+-- returns can be listed per supplier. Managed from the new Suppliers screen.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  phone TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppliers_name ON suppliers(lower(name));
+
+CREATE TABLE IF NOT EXISTS supplier_products (
+  supplier_id INTEGER NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  default_cost NUMERIC,
+  PRIMARY KEY (supplier_id, product_id)
+);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS supplier_id INTEGER REFERENCES suppliers(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_supplier ON transactions(supplier_id);
+
+DROP TRIGGER IF EXISTS audit_suppliers ON suppliers;
+CREATE TRIGGER audit_suppliers AFTER INSERT OR UPDATE OR DELETE ON suppliers
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- supplier_products has no id column; the audit entry keeps both keys in its snapshot
+DROP TRIGGER IF EXISTS audit_supplier_products ON supplier_products;
+CREATE TRIGGER audit_supplier_products AFTER INSERT OR UPDATE OR DELETE ON supplier_products
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- ============================================
+-- PERMISSIONS: Suppliers is a screen like Products
+-- ============================================
+
+-- Role grants + user extras - user denials; basic counter tasks when the
+-- result has no screen permissions
+CREATE OR REPLACE FUNCTION app_user_permissions()
+RETURNS TEXT[]
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH granted AS (
+    SELECT COALESCE(r.permissions, '{}') || COALESCE(u.permissions, '{}') AS perms,
+           COALESCE(u.denied_permissions, '{}') AS denied
+    FROM user_sessions s
+    JOIN users u ON u.id = s.user_id
+    LEFT JOIN roles r ON r.id = u.role_id
+    WHERE s.auth_uid = auth.uid()
+  ), with_basics AS (
+    SELECT CASE
+             WHEN EXISTS (
+               SELECT 1 FROM unnest(perms) p
+               WHERE p = '*' OR replace(lower(p), '_', '') IN (
+                 'dashboard', 'stockin', 'expenses', 'income', 'closing', 'products', 'reports', 'settings',
+                 'suppliers'
+               )
+             ) THEN perms
+             ELSE ARRAY['STOCK_IN', 'EXPENSES', 'INCOME', 'CLOSING', 'RECORD_WITHDRAWAL', 'LOCK_FINAL_CLOSING'] || perms
+           END AS perms,
+           denied
+    FROM granted
+  )
+  SELECT COALESCE(array_agg(DISTINCT p), '{}')
+  FROM with_basics, unnest(perms) p
+  WHERE NOT EXISTS (
+    SELECT 1 FROM unnest(denied) d WHERE replace(lower(d), '_', '') = replace(lower(p), '_', '')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION app_can(p_action TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT CASE upper(p_action)
+    WHEN 'RETURN_TRANSACTION' THEN app_is_manager() OR app_has_permission('RETURN_TRANSACTION')
+    WHEN 'RECORD_WITHDRAWAL' THEN app_has_view('CLOSING') AND (app_is_manager() OR app_has_permission('RECORD_WITHDRAWAL'))
+    WHEN 'LOCK_FINAL_CLOSING' THEN app_has_view('CLOSING') AND (app_is_manager() OR app_has_permission('LOCK_FINAL_CLOSING'))
+    WHEN 'ADJUST_STOCK' THEN app_has_view('SETTINGS') AND app_is_manager()
+    WHEN 'DELETE_DATA' THEN app_has_view('SETTINGS') AND app_is_admin()
+    WHEN 'MANAGE_USERS' THEN app_has_view('SETTINGS')
+    WHEN 'MANAGE_CATEGORIES' THEN app_has_view('SETTINGS')
+    WHEN 'MANAGE_PRODUCTS' THEN app_has_view('PRODUCTS')
+    WHEN 'MANAGE_SETTINGS' THEN app_has_view('SETTINGS')
+    WHEN 'VIEW_AUDIT_LOG' THEN app_has_view('SETTINGS') AND app_is_manager()
+    WHEN 'MANAGE_SUPPLIERS' THEN app_has_view('SUPPLIERS')
+    ELSE false
+  END;
+$$;
+
+-- Everyone signed in can read suppliers (Stock In picker)
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Suppliers read" ON suppliers;
+DROP POLICY IF EXISTS "Suppliers insert" ON suppliers;
+DROP POLICY IF EXISTS "Suppliers update" ON suppliers;
+DROP POLICY IF EXISTS "Suppliers delete" ON suppliers;
+CREATE POLICY "Suppliers read" ON suppliers FOR SELECT USING (app_user_id() IS NOT NULL);
+CREATE POLICY "Suppliers insert" ON suppliers FOR INSERT WITH CHECK (app_can('MANAGE_SUPPLIERS'));
+CREATE POLICY "Suppliers update" ON suppliers FOR UPDATE USING (app_can('MANAGE_SUPPLIERS'));
+CREATE POLICY "Suppliers delete" ON suppliers FOR DELETE USING (app_can('MANAGE_SUPPLIERS'));
+
+ALTER TABLE supplier_products ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Supplier products read" ON supplier_products;
+DROP POLICY IF EXISTS "Supplier products insert" ON supplier_products;
+DROP POLICY IF EXISTS "Supplier products update" ON supplier_products;
+DROP POLICY IF EXISTS "Supplier products delete" ON supplier_products;
+CREATE POLICY "Supplier products read" ON supplier_products FOR SELECT USING (app_user_id() IS NOT NULL);
+CREATE POLICY "Supplier products insert" ON supplier_products FOR INSERT WITH CHECK (app_can('MANAGE_SUPPLIERS'));
+CREATE POLICY "Supplier products update" ON supplier_products FOR UPDATE USING (app_can('MANAGE_SUPPLIERS'));
+CREATE POLICY "Supplier products delete" ON supplier_products FOR DELETE USING (app_can('MANAGE_SUPPLIERS'));
+
+-- Supplier and the products it supplies are saved together. NULL p_id adds
+-- a supplier; NULL p_products leaves an existing supplier's products as they are.
+CREATE OR REPLACE FUNCTION save_supplier(
+  p_id INTEGER,
+  p_name TEXT,
+  p_phone TEXT,
+  p_notes TEXT,
+  p_products JSONB DEFAULT NULL
+) RETURNS suppliers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_supplier suppliers;
+BEGIN
+  IF NOT app_can('MANAGE_SUPPLIERS') THEN
+    RAISE EXCEPTION 'Not allowed to manage suppliers.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO suppliers (name, phone, notes)
+    VALUES (p_name, p_phone, p_notes)
+    RETURNING * INTO v_supplier;
+  ELSE
+    UPDATE suppliers
+       SET name = p_name, phone = p_phone, notes = p_notes
+     WHERE id = p_id
+    RETURNING * INTO v_supplier;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Supplier % no longer exists.', p_id USING ERRCODE = 'no_data_found';
+    END IF;
+  END IF;
+
+  IF p_products IS NOT NULL THEN
+    DELETE FROM supplier_products WHERE supplier_id = v_supplier.id;
+    INSERT INTO supplier_products (supplier_id, product_id, default_cost)
+    SELECT v_supplier.id, (p->>'product_id')::INTEGER, (p->>'default_cost')::NUMERIC
+      FROM jsonb_array_elements(p_products) p;
+  END IF;
+
+  RETURN v_supplier;
+END;
+$$;
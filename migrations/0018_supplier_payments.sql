@@ -0,0 +1,118 @@
+-- ============================================
+-- 0018 SUPPLIER PAYMENTS
+-- What we owe a supplier is the value of their deliveries (STOCK_IN amount,
+-- returns negative) less what has been paid. Payments may be for a specific
+-- delivery or on account. Cash paid from the drawer is also recorded as a
+-- cash withdrawal, so Day Closing's expected cash already accounts for it.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS supplier_payments (
+  id SERIAL PRIMARY KEY,
+  supplier_id INTEGER REFERENCES suppliers(id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  method TEXT NOT NULL CHECK (method IN ('CASH', 'BANK')),
+  -- Delivery being settled; NULL = on account (oldest deliveries first)
+  transaction_id INTEGER REFERENCES transactions(id) ON DELETE SET NULL,
+  withdrawal_id INTEGER REFERENCES cash_withdrawals(id) ON DELETE SET NULL,
+  note TEXT,
+  paid_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  date_str TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_payments_supplier ON supplier_payments(supplier_id, date_str);
+
+DROP TRIGGER IF EXISTS audit_supplier_payments ON supplier_payments;
+CREATE TRIGGER audit_supplier_payments AFTER INSERT OR UPDATE OR DELETE ON supplier_payments
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE OR REPLACE FUNCTION app_can(p_action TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT CASE upper(p_action)
+    WHEN 'RETURN_TRANSACTION' THEN app_is_manager() OR app_has_permission('RETURN_TRANSACTION')
+    WHEN 'RECORD_WITHDRAWAL' THEN app_has_view('CLOSING') AND (app_is_manager() OR app_has_permission('RECORD_WITHDRAWAL'))
+    WHEN 'LOCK_FINAL_CLOSING' THEN app_has_view('CLOSING') AND (app_is_manager() OR app_has_permission('LOCK_FINAL_CLOSING'))
+    WHEN 'ADJUST_STOCK' THEN app_has_view('SETTINGS') AND app_is_manager()
+    WHEN 'DELETE_DATA' THEN app_has_view('SETTINGS') AND app_is_admin()
+    WHEN 'MANAGE_USERS' THEN app_has_view('SETTINGS')
+    WHEN 'MANAGE_CATEGORIES' THEN app_has_view('SETTINGS')
+    WHEN 'MANAGE_PRODUCTS' THEN app_has_view('PRODUCTS')
+    WHEN 'MANAGE_SETTINGS' THEN app_has_view('SETTINGS')
+    WHEN 'VIEW_AUDIT_LOG' THEN app_has_view('SETTINGS') AND app_is_manager()
+    WHEN 'MANAGE_SUPPLIERS' THEN app_has_view('SUPPLIERS')
+    WHEN 'PAY_SUPPLIERS' THEN app_has_view('SUPPLIERS') AND (app_is_manager() OR app_has_permission('PAY_SUPPLIERS'))
+    ELSE false
+  END;
+$$;
+
+-- Written only by record_supplier_payment
+ALTER TABLE supplier_payments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Supplier payments read" ON supplier_payments;
+CREATE POLICY "Supplier payments read" ON supplier_payments FOR SELECT USING (app_has_view('SUPPLIERS'));
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon')
+     AND EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON supplier_payments FROM anon, authenticated;
+  END IF;
+END;
+$$;
+
+-- Payment and (for cash) its drawer withdrawal are written together
+CREATE OR REPLACE FUNCTION record_supplier_payment(
+  p_supplier_id INTEGER,
+  p_amount NUMERIC,
+  p_method TEXT,
+  p_date_str TEXT,
+  p_transaction_id INTEGER DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+) RETURNS supplier_payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_supplier suppliers;
+  v_withdrawal_id INTEGER;
+  v_payment supplier_payments;
+BEGIN
+  IF NOT app_can('PAY_SUPPLIERS') THEN
+    RAISE EXCEPTION 'Not allowed to pay suppliers.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_supplier FROM suppliers WHERE id = p_supplier_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Supplier % no longer exists.', p_supplier_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_transaction_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM transactions
+    WHERE id = p_transaction_id AND supplier_id = p_supplier_id
+      AND type = 'STOCK_IN' AND NOT is_return
+  ) THEN
+    RAISE EXCEPTION 'Delivery % is not from this supplier.', p_transaction_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_method = 'CASH' THEN
+    INSERT INTO cash_withdrawals (amount, reason, withdrawn_by, date_str)
+    VALUES (p_amount, 'Supplier payment: ' || v_supplier.name || COALESCE(' - ' || NULLIF(p_note, ''), ''),
+            app_user_id(), p_date_str)
+    RETURNING id INTO v_withdrawal_id;
+  END IF;
+
+  INSERT INTO supplier_payments (
+    supplier_id, amount, method, transaction_id, withdrawal_id, note, paid_by, date_str
+  ) VALUES (
+    p_supplier_id, p_amount, p_method, p_transaction_id, v_withdrawal_id,
+    NULLIF(p_note, ''), app_user_id(), p_date_str
+  )
+  RETURNING * INTO v_payment;
+
+  RETURN v_payment;
+END;
+$$;
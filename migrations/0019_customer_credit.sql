@@ -0,0 +1,108 @@
+-- ============================================
+-- 0019 CUSTOMER CREDIT (UDHAAR)
+-- Customer accounts with credit sales (SALE: goods taken, not paid) and
+-- repayments (PAYMENT: cash received into the drawer). Day Closing's
+-- expected cash subtracts the day's credit sales and adds repayments.
+-- Entries are never edited; mistakes are reversed with a negative row
+-- (is_return/return_of) like transactions.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customers (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  phone TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_name ON customers(lower(name));
+
+CREATE TABLE IF NOT EXISTS customer_entries (
+  id SERIAL PRIMARY KEY,
+  -- Customers with history can't be deleted
+  customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  type TEXT NOT NULL CHECK (type IN ('SALE', 'PAYMENT')),
+  amount NUMERIC NOT NULL,
+  note TEXT,
+  date_str TEXT NOT NULL,
+  recorded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  is_return BOOLEAN NOT NULL DEFAULT FALSE,
+  return_of INTEGER REFERENCES customer_entries(id) ON DELETE SET NULL,
+  return_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT customer_entries_amount_sign CHECK (
+    (NOT is_return AND amount > 0) OR (is_return AND amount < 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_entries_customer ON customer_entries(customer_id, date_str);
+CREATE INDEX IF NOT EXISTS idx_customer_entries_date_str ON customer_entries(date_str);
+
+DROP TRIGGER IF EXISTS audit_customers ON customers;
+CREATE TRIGGER audit_customers AFTER INSERT OR UPDATE OR DELETE ON customers
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_customer_entries ON customer_entries;
+CREATE TRIGGER audit_customer_entries AFTER INSERT OR UPDATE OR DELETE ON customer_entries
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- ============================================
+-- PERMISSIONS: Customers is a screen; reversals need RETURN_TRANSACTION
+-- ============================================
+
+-- Role grants + user extras - user denials; basic counter tasks when the
+-- result has no screen permissions
+CREATE OR REPLACE FUNCTION app_user_permissions()
+RETURNS TEXT[]
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH granted AS (
+    SELECT COALESCE(r.permissions, '{}') || COALESCE(u.permissions, '{}') AS perms,
+           COALESCE(u.denied_permissions, '{}') AS denied
+    FROM user_sessions s
+    JOIN users u ON u.id = s.user_id
+    LEFT JOIN roles r ON r.id = u.role_id
+    WHERE s.auth_uid = auth.uid()
+  ), with_basics AS (
+    SELECT CASE
+             WHEN EXISTS (
+               SELECT 1 FROM unnest(perms) p
+               WHERE p = '*' OR replace(lower(p), '_', '') IN (
+                 'dashboard', 'stockin', 'expenses', 'income', 'closing', 'products', 'reports', 'settings',
+                 'suppliers', 'customers'
+               )
+             ) THEN perms
+             ELSE ARRAY['STOCK_IN', 'EXPENSES', 'INCOME', 'CLOSING', 'RECORD_WITHDRAWAL', 'LOCK_FINAL_CLOSING'] || perms
+           END AS perms,
+           denied
+    FROM granted
+  )
+  SELECT COALESCE(array_agg(DISTINCT p), '{}')
+  FROM with_basics, unnest(perms) p
+  WHERE NOT EXISTS (
+    SELECT 1 FROM unnest(denied) d WHERE replace(lower(d), '_', '') = replace(lower(p), '_', '')
+  );
+$$;
+
+-- Everyone signed in can read (Day Closing, Dashboard and Reports need the totals)
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Customers read" ON customers;
+DROP POLICY IF EXISTS "Customers insert" ON customers;
+DROP POLICY IF EXISTS "Customers update" ON customers;
+DROP POLICY IF EXISTS "Customers delete" ON customers;
+CREATE POLICY "Customers read" ON customers FOR SELECT USING (app_user_id() IS NOT NULL);
+CREATE POLICY "Customers insert" ON customers FOR INSERT WITH CHECK (app_has_view('CUSTOMERS'));
+CREATE POLICY "Customers update" ON customers FOR UPDATE USING (app_has_view('CUSTOMERS'));
+CREATE POLICY "Customers delete" ON customers FOR DELETE USING (app_has_view('CUSTOMERS'));
+
+ALTER TABLE customer_entries ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Customer entries read" ON customer_entries;
+DROP POLICY IF EXISTS "Customer entries insert" ON customer_entries;
+DROP POLICY IF EXISTS "Customer entries delete" ON customer_entries;
+CREATE POLICY "Customer entries read" ON customer_entries FOR SELECT USING (app_user_id() IS NOT NULL);
+CREATE POLICY "Customer entries insert" ON customer_entries FOR INSERT WITH CHECK (
+  app_has_view('CUSTOMERS')
+  AND (NOT is_return OR app_can('RETURN_TRANSACTION'))
+);
+CREATE POLICY "Customer entries delete" ON customer_entries FOR DELETE USING (app_is_admin());
@@ -0,0 +1,118 @@
+-- ============================================
+-- 0021 CASH COUNT
+-- The drawer count can be entered note by note; the breakdown is kept in
+-- report_json.cashCount = {"counts": {"5000": 1, "1000": 3, ...}, "coins": 45}
+-- next to closingStock, on drafts and on the final closing.
+-- ============================================
+
+-- New trailing parameter: drop the old signature so RPC calls aren't ambiguous
+DROP FUNCTION IF EXISTS perform_final_closing(TEXT, JSONB, NUMERIC, NUMERIC, NUMERIC, NUMERIC, TEXT, INTEGER, INTEGER, JSONB);
+
+CREATE OR REPLACE FUNCTION perform_final_closing(
+  p_date_str TEXT,
+  p_closing_stock JSONB,
+  p_total_revenue NUMERIC,
+  p_cash_received NUMERIC DEFAULT 0,
+  p_total_withdrawals NUMERIC DEFAULT 0,
+  p_opening_cash NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_closed_by INTEGER DEFAULT NULL,
+  p_closing_id INTEGER DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL,
+  p_cash_count JSONB DEFAULT NULL
+) RETURNS daily_closings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_product products;
+  v_stock JSONB := '[]'::JSONB;
+  v_cost_of_goods NUMERIC := 0;
+  v_closing daily_closings;
+  v_report JSONB;
+BEGIN
+  IF NOT app_can('LOCK_FINAL_CLOSING') THEN
+    RAISE EXCEPTION 'Not allowed to lock the day.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Serialise concurrent lock attempts for the same day
+  PERFORM pg_advisory_xact_lock(hashtext('daily_closing:' || p_date_str));
+
+  IF EXISTS (
+    SELECT 1 FROM daily_closings
+    WHERE date_str = p_date_str AND closing_type = 'final'
+  ) THEN
+    RAISE EXCEPTION 'Final closing has already been done for %.', p_date_str
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_closing_stock) LOOP
+    UPDATE products
+       SET current_opening_stock = (v_item->>'newOpeningStock')::NUMERIC
+     WHERE id = (v_item->>'productId')::INTEGER
+    RETURNING * INTO v_product;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product ID % no longer exists.', v_item->>'productId'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    -- Prices as they were today, so later price changes don't rewrite margins
+    v_item := v_item || jsonb_build_object(
+      'salePrice', v_product.sale_price,
+      'unitCost', v_product.cost_price
+    );
+    v_stock := v_stock || jsonb_build_array(v_item);
+    v_cost_of_goods := v_cost_of_goods
+      + COALESCE((v_item->>'sold')::NUMERIC, 0) * COALESCE(v_product.cost_price, 0);
+
+    PERFORM reconcile_stock_lots(
+      (v_item->>'productId')::INTEGER,
+      (v_item->>'newOpeningStock')::NUMERIC,
+      p_date_str
+    );
+  END LOOP;
+
+  v_report := jsonb_build_object('closingStock', v_stock);
+  IF p_cash_count IS NOT NULL THEN
+    v_report := v_report || jsonb_build_object('cashCount', p_cash_count);
+  END IF;
+
+  IF p_closing_id IS NOT NULL THEN
+    -- Promote today's draft (partial) record to final
+    UPDATE daily_closings
+       SET total_revenue = p_total_revenue,
+           cash_received = p_cash_received,
+           total_withdrawals = p_total_withdrawals,
+           opening_cash = COALESCE(p_opening_cash, opening_cash),
+           closing_type = 'final',
+           notes = p_notes,
+           closed_by = COALESCE(p_closed_by, app_user_id()),
+           cost_of_goods = v_cost_of_goods,
+           payments = p_payments,
+           report_json = v_report
+     WHERE id = p_closing_id
+       AND date_str = p_date_str
+     RETURNING * INTO v_closing;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Draft closing % was not found for %.', p_closing_id, p_date_str
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  ELSE
+    INSERT INTO daily_closings (
+      date_str, total_revenue, cash_received, total_withdrawals,
+      opening_cash, closing_type, notes, closed_by, cost_of_goods, report_json, payments
+    ) VALUES (
+      p_date_str, p_total_revenue, p_cash_received, p_total_withdrawals,
+      p_opening_cash, 'final', p_notes, COALESCE(p_closed_by, app_user_id()),
+      v_cost_of_goods, v_report, p_payments
+    )
+    RETURNING * INTO v_closing;
+  END IF;
+
+  RETURN v_closing;
+END;
+$$;
@@ -0,0 +1,184 @@
+-- ============================================
+-- 0022 SHIFTS
+-- A day can be run in shifts (e.g. morning/evening) by different cashiers.
+-- Each shift opens with a cash float and ends with a stock and cash count;
+-- the difference between counted and expected cash is the variance of the
+-- shift's cashier. Handing over opens the next cashier's shift with the cash
+-- that was counted.
+--
+-- Day Closing's figures are running totals for the day, so each shift keeps
+-- the day totals at its handover (day_sales, day_net_cash) and its own share
+-- is the difference from the previous shift.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS shifts (
+  id SERIAL PRIMARY KEY,
+  date_str TEXT NOT NULL,
+  cashier_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  cashier_name TEXT,            -- kept for history; staff can't read other users
+  opening_float NUMERIC NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  handed_to INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  handed_to_name TEXT,
+  cash_counted NUMERIC,
+  day_sales NUMERIC,            -- day's sales so far, at handover
+  day_net_cash NUMERIC,         -- day's cash in minus cash out so far (excl. opening cash)
+  sales NUMERIC,                -- this shift's sales
+  expected_cash NUMERIC,        -- opening_float + this shift's net cash
+  variance NUMERIC,             -- cash_counted - expected_cash (negative = short)
+  report_json JSONB,            -- {closingStock, cashCount, payments} at handover
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shifts_date_str ON shifts(date_str, opened_at);
+-- Only one shift can be running per day. Per day, not overall: a shift left
+-- running past its day must not stop the next day's shifts from starting.
+DROP INDEX IF EXISTS idx_shifts_one_open;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shifts_one_open_per_day ON shifts(date_str) WHERE closed_at IS NULL;
+
+DROP TRIGGER IF EXISTS audit_shifts ON shifts;
+CREATE TRIGGER audit_shifts AFTER INSERT OR UPDATE OR DELETE ON shifts
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+ALTER TABLE shifts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Shifts read" ON shifts;
+CREATE POLICY "Shifts read" ON shifts FOR SELECT USING (app_user_id() IS NOT NULL);
+
+-- Written only through open_shift() / close_shift()
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon')
+     AND EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON shifts FROM anon, authenticated;
+  END IF;
+END; $$;
+
+-- People a shift can be handed over to (names only)
+CREATE OR REPLACE FUNCTION shift_cashiers()
+RETURNS TABLE (id INTEGER, name TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT app_has_view('CLOSING') THEN
+    RAISE EXCEPTION 'Not allowed to run shifts.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY SELECT u.id, u.name FROM users u ORDER BY u.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION open_shift(
+  p_date_str TEXT,
+  p_opening_float NUMERIC DEFAULT 0
+) RETURNS shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift shifts;
+BEGIN
+  IF NOT app_has_view('CLOSING') THEN
+    RAISE EXCEPTION 'Not allowed to run shifts.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('daily_closing:' || p_date_str));
+
+  IF EXISTS (SELECT 1 FROM daily_closings WHERE date_str = p_date_str AND closing_type = 'final') THEN
+    RAISE EXCEPTION 'Final closing has already been done for %.', p_date_str
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM shifts WHERE date_str = p_date_str AND closed_at IS NULL) THEN
+    RAISE EXCEPTION 'A shift is already running. Hand it over first.'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO shifts (date_str, cashier_id, cashier_name, opening_float)
+  VALUES (
+    p_date_str, app_user_id(),
+    (SELECT name FROM users WHERE id = app_user_id()),
+    COALESCE(p_opening_float, 0)
+  )
+  RETURNING * INTO v_shift;
+
+  RETURN v_shift;
+END;
+$$;
+
+-- Ends the running shift. With p_handed_to the next cashier's shift is
+-- opened straight away, with the counted cash as its float. A shift ended
+-- after its day has no day totals (NULL), so no sales or variance either.
+CREATE OR REPLACE FUNCTION close_shift(
+  p_shift_id INTEGER,
+  p_cash_counted NUMERIC,
+  p_day_sales NUMERIC,
+  p_day_net_cash NUMERIC,
+  p_report JSONB DEFAULT NULL,
+  p_handed_to INTEGER DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift shifts;
+  v_previous shifts;
+  v_expected NUMERIC;
+BEGIN
+  IF NOT app_has_view('CLOSING') THEN
+    RAISE EXCEPTION 'Not allowed to run shifts.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_shift FROM shifts WHERE id = p_shift_id FOR UPDATE;
+  IF NOT FOUND OR v_shift.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Shift % is not running.', p_shift_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- The cashier hands over their own shift; managers can close anyone's
+  IF v_shift.cashier_id IS DISTINCT FROM app_user_id() AND NOT app_is_manager() THEN
+    RAISE EXCEPTION 'Only % or a manager can end this shift.', COALESCE(v_shift.cashier_name, 'the cashier')
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_handed_to IS NOT NULL AND NOT EXISTS (SELECT 1 FROM users WHERE id = p_handed_to) THEN
+    RAISE EXCEPTION 'User % no longer exists.', p_handed_to USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO v_previous FROM shifts
+   WHERE date_str = v_shift.date_str AND closed_at IS NOT NULL
+   ORDER BY closed_at DESC
+   LIMIT 1;
+
+  v_expected := v_shift.opening_float + p_day_net_cash - COALESCE(v_previous.day_net_cash, 0);
+
+  UPDATE shifts
+     SET closed_at = NOW(),
+         closed_by = app_user_id(),
+         handed_to = p_handed_to,
+         handed_to_name = (SELECT name FROM users WHERE id = p_handed_to),
+         cash_counted = p_cash_counted,
+         day_sales = p_day_sales,
+         day_net_cash = p_day_net_cash,
+         sales = p_day_sales - COALESCE(v_previous.day_sales, 0),
+         expected_cash = v_expected,
+         variance = p_cash_counted - v_expected,
+         report_json = p_report,
+         notes = NULLIF(p_notes, '')
+   WHERE id = p_shift_id
+  RETURNING * INTO v_shift;
+
+  IF p_handed_to IS NOT NULL THEN
+    INSERT INTO shifts (date_str, cashier_id, cashier_name, opening_float)
+    VALUES (v_shift.date_str, p_handed_to, v_shift.handed_to_name, p_cash_counted);
+  END IF;
+
+  RETURN v_shift;
+END;
+$$;
@@ -0,0 +1,310 @@
+-- ============================================
+-- 0023 REOPEN CLOSING
+-- The owner can reopen the latest locked day to fix a mistake. Reopening
+-- takes back that day's stock roll-forward (product opening stock and stock
+-- lots), turns the closing back into a draft and keeps the locked version in
+-- closing_versions. Locking the day again writes the corrected closing.
+-- ============================================
+
+ALTER TABLE daily_closings ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS closing_versions (
+  id SERIAL PRIMARY KEY,
+  closing_id INTEGER NOT NULL REFERENCES daily_closings(id) ON DELETE CASCADE,
+  date_str TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  closing JSONB NOT NULL,         -- the daily_closings row as it was locked
+  reason TEXT NOT NULL,
+  reopened_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  reopened_by_name TEXT,
+  reopened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (closing_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_closing_versions_date_str ON closing_versions(date_str);
+
+DROP TRIGGER IF EXISTS audit_closing_versions ON closing_versions;
+CREATE TRIGGER audit_closing_versions AFTER INSERT OR UPDATE OR DELETE ON closing_versions
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+ALTER TABLE closing_versions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Closing versions read" ON closing_versions;
+CREATE POLICY "Closing versions read" ON closing_versions FOR SELECT USING (app_user_id() IS NOT NULL);
+
+-- Written only through reopen_final_closing()
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon')
+     AND EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON closing_versions FROM anon, authenticated;
+  END IF;
+END; $$;
+
+-- ============================================
+-- FINAL CLOSING (now also keeps each product's opening stock, so a reopen
+-- knows what to put back)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION perform_final_closing(
+  p_date_str TEXT,
+  p_closing_stock JSONB,
+  p_total_revenue NUMERIC,
+  p_cash_received NUMERIC DEFAULT 0,
+  p_total_withdrawals NUMERIC DEFAULT 0,
+  p_opening_cash NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_closed_by INTEGER DEFAULT NULL,
+  p_closing_id INTEGER DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL,
+  p_cash_count JSONB DEFAULT NULL
+) RETURNS daily_closings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_product products;
+  v_opening NUMERIC;
+  v_stock JSONB := '[]'::JSONB;
+  v_cost_of_goods NUMERIC := 0;
+  v_closing daily_closings;
+  v_report JSONB;
+BEGIN
+  IF NOT app_can('LOCK_FINAL_CLOSING') THEN
+    RAISE EXCEPTION 'Not allowed to lock the day.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Serialise concurrent lock attempts for the same day
+  PERFORM pg_advisory_xact_lock(hashtext('daily_closing:' || p_date_str));
+
+  IF EXISTS (
+    SELECT 1 FROM daily_closings
+    WHERE date_str = p_date_str AND closing_type = 'final'
+  ) THEN
+    RAISE EXCEPTION 'Final closing has already been done for %.', p_date_str
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_closing_stock) LOOP
+    SELECT current_opening_stock INTO v_opening
+      FROM products
+     WHERE id = (v_item->>'productId')::INTEGER
+       FOR UPDATE;
+
+    UPDATE products
+       SET current_opening_stock = (v_item->>'newOpeningStock')::NUMERIC
+     WHERE id = (v_item->>'productId')::INTEGER
+    RETURNING * INTO v_product;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product ID % no longer exists.', v_item->>'productId'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    -- Prices as they were today, so later price changes don't rewrite margins
+    v_item := v_item || jsonb_build_object(
+      'openingStock', v_opening,
+      'salePrice', v_product.sale_price,
+      'unitCost', v_product.cost_price
+    );
+    v_stock := v_stock || jsonb_build_array(v_item);
+    v_cost_of_goods := v_cost_of_goods
+      + COALESCE((v_item->>'sold')::NUMERIC, 0) * COALESCE(v_product.cost_price, 0);
+
+    PERFORM reconcile_stock_lots(
+      (v_item->>'productId')::INTEGER,
+      (v_item->>'newOpeningStock')::NUMERIC,
+      p_date_str
+    );
+  END LOOP;
+
+  v_report := jsonb_build_object('closingStock', v_stock);
+  IF p_cash_count IS NOT NULL THEN
+    v_report := v_report || jsonb_build_object('cashCount', p_cash_count);
+  END IF;
+
+  IF p_closing_id IS NOT NULL THEN
+    -- Promote today's draft (partial) record to final
+    UPDATE daily_closings
+       SET total_revenue = p_total_revenue,
+           cash_received = p_cash_received,
+           total_withdrawals = p_total_withdrawals,
+           opening_cash = COALESCE(p_opening_cash, opening_cash),
+           closing_type = 'final',
+           notes = p_notes,
+           closed_by = COALESCE(p_closed_by, app_user_id()),
+           cost_of_goods = v_cost_of_goods,
+           payments = p_payments,
+           report_json = v_report
+     WHERE id = p_closing_id
+       AND date_str = p_date_str
+     RETURNING * INTO v_closing;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Draft closing % was not found for %.', p_closing_id, p_date_str
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  ELSE
+    INSERT INTO daily_closings (
+      date_str, total_revenue, cash_received, total_withdrawals,
+      opening_cash, closing_type, notes, closed_by, cost_of_goods, report_json, payments
+    ) VALUES (
+      p_date_str, p_total_revenue, p_cash_received, p_total_withdrawals,
+      p_opening_cash, 'final', p_notes, COALESCE(p_closed_by, app_user_id()),
+      v_cost_of_goods, v_report, p_payments
+    )
+    RETURNING * INTO v_closing;
+  END IF;
+
+  RETURN v_closing;
+END;
+$$;
+
+-- Undo reconcile_stock_lots for stock that was counted as sold: refill the
+-- most recently used lots first (the reverse of first-in-first-out). A
+-- negative quantity means the count went up, so lots are used up instead.
+CREATE OR REPLACE FUNCTION restore_stock_lots(
+  p_product_id INTEGER,
+  p_quantity NUMERIC,
+  p_date_str TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot stock_lots;
+  v_left NUMERIC := p_quantity;
+  v_give NUMERIC;
+BEGIN
+  IF p_quantity < 0 THEN
+    PERFORM reconcile_stock_lots(
+      p_product_id,
+      (SELECT COALESCE(SUM(quantity_remaining), 0) FROM stock_lots
+        WHERE product_id = p_product_id AND quantity_remaining > 0) + p_quantity,
+      p_date_str
+    );
+    RETURN;
+  END IF;
+
+  FOR v_lot IN
+    SELECT * FROM stock_lots
+     WHERE product_id = p_product_id
+       AND quantity_remaining < quantity_received
+       AND received_date <= p_date_str
+     ORDER BY received_date DESC, id DESC
+       FOR UPDATE
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_give := LEAST(v_lot.quantity_received - v_lot.quantity_remaining, v_left);
+    UPDATE stock_lots SET quantity_remaining = quantity_remaining + v_give WHERE id = v_lot.id;
+    v_left := v_left - v_give;
+  END LOOP;
+
+  IF v_left > 0 THEN
+    INSERT INTO stock_lots (product_id, received_date, quantity_received, quantity_remaining)
+    VALUES (p_product_id, p_date_str, v_left, v_left);
+  END IF;
+END;
+$$;
+
+-- Only for reopen_final_closing, never called over the API
+REVOKE EXECUTE ON FUNCTION restore_stock_lots(INTEGER, NUMERIC, TEXT) FROM PUBLIC;
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon')
+     AND EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    REVOKE EXECUTE ON FUNCTION restore_stock_lots(INTEGER, NUMERIC, TEXT) FROM anon, authenticated;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reopen_final_closing(
+  p_date_str TEXT,
+  p_reason TEXT
+) RETURNS daily_closings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_closing daily_closings;
+  v_item JSONB;
+  v_product_id INTEGER;
+  v_counted NUMERIC;
+  v_sold NUMERIC;
+  v_opening NUMERIC;
+BEGIN
+  IF NOT app_is_admin() THEN
+    RAISE EXCEPTION 'Only the owner can reopen a locked day.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reopen the day.' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('daily_closing:' || p_date_str));
+
+  SELECT * INTO v_closing FROM daily_closings
+   WHERE date_str = p_date_str AND closing_type = 'final'
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No locked closing for %.', p_date_str USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Later days started from this day's counts
+  IF EXISTS (
+    SELECT 1 FROM daily_closings
+     WHERE date_str > p_date_str AND closing_type = 'final'
+  ) THEN
+    RAISE EXCEPTION 'Only the latest locked day can be reopened.' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO closing_versions (closing_id, date_str, version, closing, reason, reopened_by, reopened_by_name)
+  VALUES (
+    v_closing.id, v_closing.date_str, v_closing.version, to_jsonb(v_closing), trim(p_reason),
+    app_user_id(), (SELECT name FROM users WHERE id = app_user_id())
+  );
+
+  FOR v_item IN
+    SELECT * FROM jsonb_array_elements(COALESCE(v_closing.report_json->'closingStock', '[]'::JSONB))
+  LOOP
+    v_product_id := (v_item->>'productId')::INTEGER;
+    v_counted := COALESCE((v_item->>'newOpeningStock')::NUMERIC, 0);
+    v_sold := COALESCE((v_item->>'sold')::NUMERIC, 0);
+
+    -- Closings from before openingStock was kept: work it back from the
+    -- day's stock movements (available = opening + stock in + adjustments - wastage)
+    v_opening := COALESCE(
+      (v_item->>'openingStock')::NUMERIC,
+      v_counted + v_sold
+        - (SELECT COALESCE(SUM(quantity), 0) FROM transactions
+            WHERE product_id = v_product_id AND date_str = p_date_str
+              AND type = 'STOCK_IN' AND NOT COALESCE(is_return, false))
+        - (SELECT COALESCE(SUM(quantity), 0) FROM transactions
+            WHERE product_id = v_product_id AND date_str = p_date_str AND type = 'ADJUSTMENT')
+        + (SELECT COALESCE(SUM(quantity), 0) FROM transactions
+            WHERE product_id = v_product_id AND date_str = p_date_str AND type = 'WASTAGE')
+    );
+
+    -- Take back only the roll-forward, so edits made since are kept
+    UPDATE products
+       SET current_opening_stock = current_opening_stock - v_counted + v_opening
+     WHERE id = v_product_id;
+
+    IF FOUND THEN
+      PERFORM restore_stock_lots(v_product_id, v_sold, p_date_str);
+    END IF;
+  END LOOP;
+
+  UPDATE daily_closings
+     SET closing_type = 'partial',
+         cost_of_goods = NULL,
+         version = version + 1
+   WHERE id = v_closing.id
+  RETURNING * INTO v_closing;
+
+  RETURN v_closing;
+END;
+$$;
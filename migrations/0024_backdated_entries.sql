@@ -0,0 +1,217 @@
+-- ============================================
+-- 0024 BACKDATED ENTRIES
+-- A manager (or staff given BACKDATE_ENTRIES) can pick an earlier working
+-- date to enter a missed day and lock it. Each final closing carries stock
+-- and cash forward, so days have to be locked in order: a day can't be
+-- locked once a later day is, nor while an earlier day with entries is open.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION app_can(p_action TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT CASE upper(p_action)
+    WHEN 'RETURN_TRANSACTION' THEN app_is_manager() OR app_has_permission('RETURN_TRANSACTION')
+    WHEN 'RECORD_WITHDRAWAL' THEN app_has_view('CLOSING') AND (app_is_manager() OR app_has_permission('RECORD_WITHDRAWAL'))
+    WHEN 'LOCK_FINAL_CLOSING' THEN app_has_view('CLOSING') AND (app_is_manager() OR app_has_permission('LOCK_FINAL_CLOSING'))
+    WHEN 'ADJUST_STOCK' THEN app_has_view('SETTINGS') AND app_is_manager()
+    WHEN 'DELETE_DATA' THEN app_has_view('SETTINGS') AND app_is_admin()
+    WHEN 'MANAGE_USERS' THEN app_has_view('SETTINGS')
+    WHEN 'MANAGE_CATEGORIES' THEN app_has_view('SETTINGS')
+    WHEN 'MANAGE_PRODUCTS' THEN app_has_view('PRODUCTS')
+    WHEN 'MANAGE_SETTINGS' THEN app_has_view('SETTINGS')
+    WHEN 'VIEW_AUDIT_LOG' THEN app_has_view('SETTINGS') AND app_is_manager()
+    WHEN 'MANAGE_SUPPLIERS' THEN app_has_view('SUPPLIERS')
+    WHEN 'PAY_SUPPLIERS' THEN app_has_view('SUPPLIERS') AND (app_is_manager() OR app_has_permission('PAY_SUPPLIERS'))
+    WHEN 'BACKDATE_ENTRIES' THEN app_is_manager() OR app_has_permission('BACKDATE_ENTRIES')
+    ELSE false
+  END;
+$$;
+
+-- Entries dated before the business day need BACKDATE_ENTRIES
+CREATE OR REPLACE FUNCTION check_entry_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.date_str < app_business_date() AND NOT app_can('BACKDATE_ENTRIES') THEN
+    RAISE EXCEPTION 'Not allowed to enter data for %.', NEW.date_str
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_entry_date ON transactions;
+CREATE TRIGGER check_entry_date BEFORE INSERT ON transactions
+  FOR EACH ROW EXECUTE FUNCTION check_entry_date();
+
+DROP TRIGGER IF EXISTS check_entry_date ON cash_withdrawals;
+CREATE TRIGGER check_entry_date BEFORE INSERT ON cash_withdrawals
+  FOR EACH ROW EXECUTE FUNCTION check_entry_date();
+
+DROP TRIGGER IF EXISTS check_entry_date ON customer_entries;
+CREATE TRIGGER check_entry_date BEFORE INSERT ON customer_entries
+  FOR EACH ROW EXECUTE FUNCTION check_entry_date();
+
+DROP TRIGGER IF EXISTS check_entry_date ON supplier_payments;
+CREATE TRIGGER check_entry_date BEFORE INSERT ON supplier_payments
+  FOR EACH ROW EXECUTE FUNCTION check_entry_date();
+
+-- Earliest day before p_before that has entries or a draft closing but
+-- isn't locked, counting from the last locked day before it. That day has
+-- to be locked first, or it could never be locked afterwards.
+CREATE OR REPLACE FUNCTION earliest_open_day(p_before TEXT)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH last_locked AS (
+    SELECT COALESCE(MAX(date_str), '') AS date_str
+      FROM daily_closings
+     WHERE closing_type = 'final' AND date_str < p_before
+  ), entry_days AS (
+    SELECT date_str FROM transactions
+    UNION SELECT date_str FROM cash_withdrawals
+    UNION SELECT date_str FROM customer_entries
+    UNION SELECT date_str FROM supplier_payments
+    UNION SELECT date_str FROM daily_closings
+  )
+  SELECT MIN(d.date_str)
+    FROM entry_days d, last_locked l
+   WHERE d.date_str > l.date_str AND d.date_str < p_before
+     AND NOT EXISTS (
+       SELECT 1 FROM daily_closings c WHERE c.date_str = d.date_str AND c.closing_type = 'final'
+     );
+$$;
+
+-- Closings: new records and edits to drafts (including locking them). The
+-- locked row itself stays editable for set_next_day_opening_cash().
+CREATE OR REPLACE FUNCTION check_closing_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.closing_type = 'final' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.date_str < app_business_date() AND NOT app_can('BACKDATE_ENTRIES') THEN
+    RAISE EXCEPTION 'Not allowed to enter data for %.', NEW.date_str
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.closing_type = 'final' AND EXISTS (
+    SELECT 1 FROM daily_closings
+     WHERE date_str > NEW.date_str AND closing_type = 'final'
+  ) THEN
+    RAISE EXCEPTION 'A later day is already locked; % can no longer be locked.', NEW.date_str
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.closing_type = 'final' AND earliest_open_day(NEW.date_str) IS NOT NULL THEN
+    RAISE EXCEPTION '% has entries but is not locked yet; lock it before %.',
+      earliest_open_day(NEW.date_str), NEW.date_str
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_closing_date ON daily_closings;
+CREATE TRIGGER check_closing_date BEFORE INSERT OR UPDATE ON daily_closings
+  FOR EACH ROW EXECUTE FUNCTION check_closing_date();
+
+-- Lots received after the day being locked (today's deliveries while
+-- yesterday is closed late) aren't part of that day's count, nor are they
+-- refilled when it is reopened
+CREATE OR REPLACE FUNCTION reconcile_stock_lots(
+  p_product_id INTEGER,
+  p_counted NUMERIC,
+  p_date_str TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot stock_lots;
+  v_excess NUMERIC;
+  v_take NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(quantity_remaining), 0) - GREATEST(p_counted, 0)
+    INTO v_excess
+    FROM stock_lots
+   WHERE product_id = p_product_id AND quantity_remaining > 0
+     AND received_date <= p_date_str;
+
+  IF v_excess < 0 THEN
+    INSERT INTO stock_lots (product_id, received_date, quantity_received, quantity_remaining)
+    VALUES (p_product_id, p_date_str, -v_excess, -v_excess);
+    RETURN;
+  END IF;
+
+  FOR v_lot IN
+    SELECT * FROM stock_lots
+     WHERE product_id = p_product_id AND quantity_remaining > 0
+       AND received_date <= p_date_str
+     ORDER BY received_date, id
+       FOR UPDATE
+  LOOP
+    EXIT WHEN v_excess <= 0;
+    v_take := LEAST(v_lot.quantity_remaining, v_excess);
+    UPDATE stock_lots SET quantity_remaining = quantity_remaining - v_take WHERE id = v_lot.id;
+    v_excess := v_excess - v_take;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_stock_lots(
+  p_product_id INTEGER,
+  p_quantity NUMERIC,
+  p_date_str TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot stock_lots;
+  v_left NUMERIC := p_quantity;
+  v_give NUMERIC;
+BEGIN
+  IF p_quantity < 0 THEN
+    PERFORM reconcile_stock_lots(
+      p_product_id,
+      (SELECT COALESCE(SUM(quantity_remaining), 0) FROM stock_lots
+        WHERE product_id = p_product_id AND quantity_remaining > 0
+          AND received_date <= p_date_str) + p_quantity,
+      p_date_str
+    );
+    RETURN;
+  END IF;
+
+  FOR v_lot IN
+    SELECT * FROM stock_lots
+     WHERE product_id = p_product_id
+       AND quantity_remaining < quantity_received
+       AND received_date <= p_date_str
+     ORDER BY received_date DESC, id DESC
+       FOR UPDATE
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_give := LEAST(v_lot.quantity_received - v_lot.quantity_remaining, v_left);
+    UPDATE stock_lots SET quantity_remaining = quantity_remaining + v_give WHERE id = v_lot.id;
+    v_left := v_left - v_give;
+  END LOOP;
+
+  IF v_left > 0 THEN
+    INSERT INTO stock_lots (product_id, received_date, quantity_received, quantity_remaining)
+    VALUES (p_product_id, p_date_str, v_left, v_left);
+  END IF;
+END;
+$$;
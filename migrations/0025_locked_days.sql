@@ -0,0 +1,66 @@
+-- ============================================
+-- 0025 LOCKED DAYS
+-- Nothing can be recorded for a day once its final closing is locked. The
+-- app offers to record such entries on the next open day instead, or the
+-- owner reopens the closing (reopen_final_closing) to add them.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION check_entry_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.date_str < app_business_date() AND NOT app_can('BACKDATE_ENTRIES') THEN
+    RAISE EXCEPTION 'Not allowed to enter data for %.', NEW.date_str
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM daily_closings
+     WHERE date_str = NEW.date_str AND closing_type = 'final'
+  ) THEN
+    RAISE EXCEPTION '% is already closed, so new entries can''t be added to it.', NEW.date_str
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as 0013 without the locked-day branch: check_entry_date now refuses
+-- the adjustment before it could reach current_opening_stock
+CREATE OR REPLACE FUNCTION record_stock_adjustments(
+  p_date_str TEXT,
+  p_reason_code TEXT,
+  p_items JSONB,
+  p_note TEXT DEFAULT NULL
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_quantity NUMERIC;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT app_can('ADJUST_STOCK') THEN
+    RAISE EXCEPTION 'Not allowed to adjust stock.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Same lock as perform_final_closing, so the day can't be locked halfway through
+  PERFORM pg_advisory_xact_lock(hashtext('daily_closing:' || p_date_str));
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+    CONTINUE WHEN v_quantity IS NULL OR v_quantity = 0;
+
+    INSERT INTO transactions (type, product_id, quantity, reason_code, note, date_str)
+    VALUES ('ADJUSTMENT', (v_item->>'productId')::INTEGER, v_quantity, p_reason_code, p_note, p_date_str);
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
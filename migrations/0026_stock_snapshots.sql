@@ -0,0 +1,281 @@
+-- ============================================
+-- 0026 DAILY STOCK SNAPSHOTS
+-- One row per product per locked day with the whole stock movement:
+--   opening + stock_in - stock_returns + adjustments - wastage - sold = closing
+-- Written by the final closing (and removed again if the day is reopened),
+-- so stock on hand can be looked up for any past date and each day's
+-- opening can be checked against the previous day's closing.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS daily_stock_snapshots (
+  id SERIAL PRIMARY KEY,
+  date_str TEXT NOT NULL,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  closing_id INTEGER REFERENCES daily_closings(id) ON DELETE CASCADE,
+  opening NUMERIC NOT NULL DEFAULT 0,
+  stock_in NUMERIC NOT NULL DEFAULT 0,
+  stock_returns NUMERIC NOT NULL DEFAULT 0,   -- stock-in returned, as a positive quantity
+  adjustments NUMERIC NOT NULL DEFAULT 0,     -- net, signed
+  wastage NUMERIC NOT NULL DEFAULT 0,
+  sold NUMERIC NOT NULL DEFAULT 0,
+  closing NUMERIC NOT NULL DEFAULT 0,
+  sale_price NUMERIC,
+  unit_cost NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (date_str, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_snapshots_product ON daily_stock_snapshots(product_id, date_str);
+
+ALTER TABLE daily_stock_snapshots ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Stock snapshots read" ON daily_stock_snapshots;
+CREATE POLICY "Stock snapshots read" ON daily_stock_snapshots FOR SELECT USING (app_user_id() IS NOT NULL);
+
+-- Written only by the closing functions below
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon')
+     AND EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON daily_stock_snapshots FROM anon, authenticated;
+  END IF;
+END; $$;
+
+DROP TRIGGER IF EXISTS audit_daily_stock_snapshots ON daily_stock_snapshots;
+CREATE TRIGGER audit_daily_stock_snapshots AFTER INSERT OR UPDATE OR DELETE ON daily_stock_snapshots
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- A product's recorded stock movements on one day
+CREATE OR REPLACE FUNCTION day_stock_movements(p_product_id INTEGER, p_date_str TEXT)
+RETURNS TABLE (stock_in NUMERIC, stock_returns NUMERIC, adjustments NUMERIC, wastage NUMERIC)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(SUM(quantity) FILTER (WHERE type = 'STOCK_IN' AND NOT COALESCE(is_return, false)), 0),
+    COALESCE(-SUM(quantity) FILTER (WHERE type = 'STOCK_IN' AND COALESCE(is_return, false)), 0),
+    COALESCE(SUM(quantity) FILTER (WHERE type = 'ADJUSTMENT'), 0),
+    COALESCE(SUM(quantity) FILTER (WHERE type = 'WASTAGE'), 0)
+  FROM transactions
+  WHERE product_id = p_product_id AND date_str = p_date_str;
+$$;
+
+-- ============================================
+-- FINAL CLOSING (now also writes the day's stock snapshot)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION perform_final_closing(
+  p_date_str TEXT,
+  p_closing_stock JSONB,
+  p_total_revenue NUMERIC,
+  p_cash_received NUMERIC DEFAULT 0,
+  p_total_withdrawals NUMERIC DEFAULT 0,
+  p_opening_cash NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_closed_by INTEGER DEFAULT NULL,
+  p_closing_id INTEGER DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL,
+  p_cash_count JSONB DEFAULT NULL
+) RETURNS daily_closings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_product products;
+  v_opening NUMERIC;
+  v_stock JSONB := '[]'::JSONB;
+  v_cost_of_goods NUMERIC := 0;
+  v_closing daily_closings;
+  v_report JSONB;
+BEGIN
+  IF NOT app_can('LOCK_FINAL_CLOSING') THEN
+    RAISE EXCEPTION 'Not allowed to lock the day.' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Serialise concurrent lock attempts for the same day
+  PERFORM pg_advisory_xact_lock(hashtext('daily_closing:' || p_date_str));
+
+  IF EXISTS (
+    SELECT 1 FROM daily_closings
+    WHERE date_str = p_date_str AND closing_type = 'final'
+  ) THEN
+    RAISE EXCEPTION 'Final closing has already been done for %.', p_date_str
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_closing_stock) LOOP
+    SELECT current_opening_stock INTO v_opening
+      FROM products
+     WHERE id = (v_item->>'productId')::INTEGER
+       FOR UPDATE;
+
+    UPDATE products
+       SET current_opening_stock = (v_item->>'newOpeningStock')::NUMERIC
+     WHERE id = (v_item->>'productId')::INTEGER
+    RETURNING * INTO v_product;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product ID % no longer exists.', v_item->>'productId'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    -- Prices as they were today, so later price changes don't rewrite margins
+    v_item := v_item || jsonb_build_object(
+      'openingStock', v_opening,
+      'salePrice', v_product.sale_price,
+      'unitCost', v_product.cost_price
+    );
+    v_stock := v_stock || jsonb_build_array(v_item);
+    v_cost_of_goods := v_cost_of_goods
+      + COALESCE((v_item->>'sold')::NUMERIC, 0) * COALESCE(v_product.cost_price, 0);
+
+    PERFORM reconcile_stock_lots(
+      (v_item->>'productId')::INTEGER,
+      (v_item->>'newOpeningStock')::NUMERIC,
+      p_date_str
+    );
+  END LOOP;
+
+  v_report := jsonb_build_object('closingStock', v_stock);
+  IF p_cash_count IS NOT NULL THEN
+    v_report := v_report || jsonb_build_object('cashCount', p_cash_count);
+  END IF;
+
+  IF p_closing_id IS NOT NULL THEN
+    -- Promote today's draft (partial) record to final
+    UPDATE daily_closings
+       SET total_revenue = p_total_revenue,
+           cash_received = p_cash_received,
+           total_withdrawals = p_total_withdrawals,
+           opening_cash = COALESCE(p_opening_cash, opening_cash),
+           closing_type = 'final',
+           notes = p_notes,
+           closed_by = COALESCE(p_closed_by, app_user_id()),
+           cost_of_goods = v_cost_of_goods,
+           payments = p_payments,
+           report_json = v_report
+     WHERE id = p_closing_id
+       AND date_str = p_date_str
+     RETURNING * INTO v_closing;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Draft closing % was not found for %.', p_closing_id, p_date_str
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  ELSE
+    INSERT INTO daily_closings (
+      date_str, total_revenue, cash_received, total_withdrawals,
+      opening_cash, closing_type, notes, closed_by, cost_of_goods, report_json, payments
+    ) VALUES (
+      p_date_str, p_total_revenue, p_cash_received, p_total_withdrawals,
+      p_opening_cash, 'final', p_notes, COALESCE(p_closed_by, app_user_id()),
+      v_cost_of_goods, v_report, p_payments
+    )
+    RETURNING * INTO v_closing;
+  END IF;
+
+  INSERT INTO daily_stock_snapshots (
+    date_str, product_id, closing_id, opening, stock_in, stock_returns,
+    adjustments, wastage, sold, closing, sale_price, unit_cost
+  )
+  SELECT p_date_str, (i->>'productId')::INTEGER, v_closing.id,
+         COALESCE((i->>'openingStock')::NUMERIC, 0),
+         m.stock_in, m.stock_returns, m.adjustments, m.wastage,
+         COALESCE((i->>'sold')::NUMERIC, 0),
+         (i->>'newOpeningStock')::NUMERIC,
+         (i->>'salePrice')::NUMERIC, (i->>'unitCost')::NUMERIC
+    FROM jsonb_array_elements(v_stock) i
+    CROSS JOIN LATERAL day_stock_movements((i->>'productId')::INTEGER, p_date_str) m
+  ON CONFLICT (date_str, product_id) DO UPDATE
+     SET closing_id = EXCLUDED.closing_id,
+         opening = EXCLUDED.opening,
+         stock_in = EXCLUDED.stock_in,
+         stock_returns = EXCLUDED.stock_returns,
+         adjustments = EXCLUDED.adjustments,
+         wastage = EXCLUDED.wastage,
+         sold = EXCLUDED.sold,
+         closing = EXCLUDED.closing,
+         sale_price = EXCLUDED.sale_price,
+         unit_cost = EXCLUDED.unit_cost,
+         created_at = NOW();
+
+  RETURN v_closing;
+END;
+$$;
+
+-- A reopened day has no snapshot until it is locked again
+CREATE OR REPLACE FUNCTION drop_reopened_snapshots()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM daily_stock_snapshots WHERE closing_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS drop_reopened_snapshots ON daily_closings;
+CREATE TRIGGER drop_reopened_snapshots AFTER UPDATE ON daily_closings
+  FOR EACH ROW
+  WHEN (OLD.closing_type = 'final' AND NEW.closing_type IS DISTINCT FROM 'final')
+  EXECUTE FUNCTION drop_reopened_snapshots();
+
+-- Stock on hand as of a date: each product's latest snapshot on or before it,
+-- with the closing before that to check the chain (opening = previous closing)
+CREATE OR REPLACE FUNCTION stock_on_hand(p_date_str TEXT)
+RETURNS TABLE (
+  product_id INTEGER,
+  date_str TEXT,
+  opening NUMERIC,
+  stock_in NUMERIC,
+  stock_returns NUMERIC,
+  adjustments NUMERIC,
+  wastage NUMERIC,
+  sold NUMERIC,
+  closing NUMERIC,
+  sale_price NUMERIC,
+  unit_cost NUMERIC,
+  previous_closing NUMERIC
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (s.product_id)
+         s.product_id, s.date_str, s.opening, s.stock_in, s.stock_returns, s.adjustments,
+         s.wastage, s.sold, s.closing, s.sale_price, s.unit_cost,
+         (SELECT p.closing FROM daily_stock_snapshots p
+           WHERE p.product_id = s.product_id AND p.date_str < s.date_str
+           ORDER BY p.date_str DESC LIMIT 1)
+    FROM daily_stock_snapshots s
+   WHERE s.date_str <= p_date_str
+   ORDER BY s.product_id, s.date_str DESC;
+$$;
+
+-- Days locked before this migration, from their closingStock. Older closings
+-- didn't keep the opening; it is worked back from the day's movements the way
+-- Day Closing counted them then (returned stock-in not subtracted).
+INSERT INTO daily_stock_snapshots (
+  date_str, product_id, closing_id, opening, stock_in, stock_returns,
+  adjustments, wastage, sold, closing, sale_price, unit_cost
+)
+SELECT c.date_str, (i->>'productId')::INTEGER, c.id,
+       COALESCE(
+         (i->>'openingStock')::NUMERIC,
+         (i->>'newOpeningStock')::NUMERIC + COALESCE((i->>'sold')::NUMERIC, 0)
+           - m.stock_in - m.adjustments + m.wastage
+       ),
+       m.stock_in, m.stock_returns, m.adjustments, m.wastage,
+       COALESCE((i->>'sold')::NUMERIC, 0),
+       (i->>'newOpeningStock')::NUMERIC,
+       (i->>'salePrice')::NUMERIC, (i->>'unitCost')::NUMERIC
+  FROM daily_closings c
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(c.report_json->'closingStock') = 'array'
+         THEN c.report_json->'closingStock' ELSE '[]'::JSONB END
+  ) i
+  CROSS JOIN LATERAL day_stock_movements((i->>'productId')::INTEGER, c.date_str) m
+ WHERE c.closing_type = 'final'
+   AND EXISTS (SELECT 1 FROM products p WHERE p.id = (i->>'productId')::INTEGER)
+ON CONFLICT (date_str, product_id) DO NOTHING;
@@ -0,0 +1,9 @@
+-- ============================================
+-- 0027 REORDER LEVELS
+-- Per-product reorder point (order when stock on hand is at or below it)
+-- and target level (order enough to bring stock back up to it). Both are
+-- optional; products without a reorder point are never flagged.
+-- ============================================
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS reorder_point NUMERIC CHECK (reorder_point >= 0);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS target_level NUMERIC CHECK (target_level >= 0);
@@ -0,0 +1,108 @@
+import { shiftDateString } from './supabase';
+
+// ------------------------------------------------------------------
+// DEMAND FORECAST
+// Expected units sold per product, from the sold quantities of locked
+// closings (daily_stock_snapshots). Sales follow the week - Fridays and
+// Sundays don't look like Tuesdays - so a day is forecast from the same
+// weekday in recent weeks, falling back to the recent daily average while
+// there isn't enough weekday history yet.
+//
+// The error is measured by forecasting each recent day from what was known
+// before it and comparing with what was actually sold.
+// ------------------------------------------------------------------
+
+// One product's sold quantity on one locked day
+export interface SoldRecord {
+  product_id: number;
+  date_str: string;
+  sold: number;
+}
+
+export interface DayForecast {
+  date: string;
+  quantity: number;
+}
+
+export interface ProductForecast {
+  productId: number;
+  days: DayForecast[];
+  total: number;
+  error: number | null;    // average units the forecast was off by per day
+  errorPct: number | null; // the same as a share of units actually sold
+  testedDays: number;      // recent days the error was measured on
+}
+
+const LOOKBACK_DAYS = 56;     // 8 weeks of the same weekday
+const MIN_WEEKDAY_SAMPLES = 2;
+const FALLBACK_DAYS = 14;
+const ERROR_WINDOW_DAYS = 28;
+
+const weekday = (dateStr: string): number => new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+
+const average = (values: number[]): number =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Forecast for one date using only days before it. Days without a locked
+// closing are missing data, not zero sales. Null when there's no history.
+const forecastDay = (soldByDate: Map<string, number>, dateStr: string): number | null => {
+  const from = shiftDateString(dateStr, -LOOKBACK_DAYS);
+  const recent = Array.from(soldByDate.entries())
+    .filter(([d]) => d >= from && d < dateStr);
+  if (recent.length === 0) return null;
+
+  const sameWeekday = recent.filter(([d]) => weekday(d) === weekday(dateStr)).map(([, sold]) => sold);
+  if (sameWeekday.length >= MIN_WEEKDAY_SAMPLES) return average(sameWeekday);
+
+  const fallbackFrom = shiftDateString(dateStr, -FALLBACK_DAYS);
+  const lastDays = recent.filter(([d]) => d >= fallbackFrom).map(([, sold]) => sold);
+  return average(lastDays.length > 0 ? lastDays : recent.map(([, sold]) => sold));
+};
+
+// Forecast `days` days starting at fromDate for each product
+export const forecastDemand = (
+  history: SoldRecord[],
+  productIds: number[],
+  fromDate: string,
+  days: number = 1
+): ProductForecast[] => {
+  return productIds.map(productId => {
+    const soldByDate = new Map<string, number>();
+    history
+      .filter(h => h.product_id === productId && h.date_str < fromDate)
+      .forEach(h => soldByDate.set(h.date_str, (soldByDate.get(h.date_str) || 0) + (h.sold || 0)));
+
+    const forecastDays: DayForecast[] = [];
+    for (let i = 0; i < days; i++) {
+      const date = shiftDateString(fromDate, i);
+      forecastDays.push({ date, quantity: Math.max(0, forecastDay(soldByDate, date) ?? 0) });
+    }
+
+    // Backtest over the recent days that had a closing
+    const errorFrom = shiftDateString(fromDate, -ERROR_WINDOW_DAYS);
+    let absError = 0;
+    let actualTotal = 0;
+    let testedDays = 0;
+    soldByDate.forEach((actual, date) => {
+      if (date < errorFrom) return;
+      const predicted = forecastDay(soldByDate, date);
+      if (predicted === null) return;
+      absError += Math.abs(predicted - actual);
+      actualTotal += actual;
+      testedDays += 1;
+    });
+
+    return {
+      productId,
+      days: forecastDays,
+      total: forecastDays.reduce((sum, d) => sum + d.quantity, 0),
+      error: testedDays > 0 ? absError / testedDays : null,
+      errorPct: testedDays > 0 && actualTotal > 0 ? (absError / actualTotal) * 100 : null,
+      testedDays
+    };
+  });
+};
+
+// What to order so the stock on hand covers the forecast
+export const suggestedOrder = (forecast: ProductForecast, available: number): number =>
+  Math.max(0, Math.ceil(forecast.total - available));
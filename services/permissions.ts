@@ -0,0 +1,122 @@
+import { User, ViewState, PermissionAction } from '../types';
+
+// ------------------------------------------------------------------
+// PERMISSION POLICY
+// Single source of truth for who can open which screen and perform which
+// action. Layout, App, components and services all go through here.
+// The database mirrors these rules in app_has_view() / app_can().
+//
+// Owner/Admin/Manager have every screen. Everyone else gets:
+//   role permissions + user's extra permissions - user's denied permissions
+// ------------------------------------------------------------------
+
+type RoleLevel = 'STAFF' | 'MANAGER' | 'ADMIN';
+
+const ROLE_RANK: Record<RoleLevel, number> = { STAFF: 0, MANAGER: 1, ADMIN: 2 };
+
+// Built-in role names; custom roles may not reuse them
+export const RESERVED_ROLE_NAMES = ['owner', 'admin', 'administrator', 'manager'];
+
+// view:     screen the action lives on (must be accessible)
+// minRole:  lowest role allowed by default
+// grantable: STAFF can be given the action through their role or user overrides
+const ACTION_POLICY: Record<PermissionAction, { view?: ViewState; minRole?: RoleLevel; grantable?: boolean; label: string }> = {
+  RETURN_TRANSACTION: { minRole: 'MANAGER', grantable: true, label: 'return entries' },
+  RECORD_WITHDRAWAL: { view: ViewState.CLOSING, minRole: 'MANAGER', grantable: true, label: 'record cash withdrawals' },
+  LOCK_FINAL_CLOSING: { view: ViewState.CLOSING, minRole: 'MANAGER', grantable: true, label: 'lock the final closing' },
+  ADJUST_STOCK: { view: ViewState.SETTINGS, minRole: 'MANAGER', label: 'adjust stock' },
+  DELETE_DATA: { view: ViewState.SETTINGS, minRole: 'ADMIN', label: 'delete data' },
+  MANAGE_USERS: { view: ViewState.SETTINGS, label: 'manage staff' },
+  MANAGE_CATEGORIES: { view: ViewState.SETTINGS, label: 'manage categories' },
+  MANAGE_PRODUCTS: { view: ViewState.PRODUCTS, label: 'manage products' },
+  MANAGE_SETTINGS: { view: ViewState.SETTINGS, label: 'change settings' },
+  VIEW_AUDIT_LOG: { view: ViewState.SETTINGS, minRole: 'MANAGER', label: 'view the audit log' },
+  MANAGE_SUPPLIERS: { view: ViewState.SUPPLIERS, label: 'manage suppliers' },
+  PAY_SUPPLIERS: { view: ViewState.SUPPLIERS, minRole: 'MANAGER', grantable: true, label: 'pay suppliers' },
+  BACKDATE_ENTRIES: { minRole: 'MANAGER', grantable: true, label: 'enter data for missed days' },
+};
+
+// Staff with no screen permissions at all get the basic counter tasks
+const BASIC_PERMISSIONS: string[] = [
+  ViewState.STOCK_IN, ViewState.EXPENSES, ViewState.INCOME, ViewState.CLOSING,
+  'RECORD_WITHDRAWAL', 'LOCK_FINAL_CLOSING'
+];
+
+const capitalise = (label: string) => label.charAt(0).toUpperCase() + label.slice(1);
+
+// Everything that can be ticked for a role or user in Settings.
+// Settings itself is never grantable - only Owner/Admin/Manager have it.
+export const PERMISSION_OPTIONS: { id: string; label: string; kind: 'view' | 'action' }[] = [
+  { id: ViewState.STOCK_IN, label: 'Stock In', kind: 'view' },
+  { id: ViewState.EXPENSES, label: 'Expenses', kind: 'view' },
+  { id: ViewState.INCOME, label: 'Other Income', kind: 'view' },
+  { id: ViewState.CLOSING, label: 'Day Closing', kind: 'view' },
+  { id: ViewState.PRODUCTS, label: 'Manage Products', kind: 'view' },
+  { id: ViewState.SUPPLIERS, label: 'Suppliers', kind: 'view' },
+  { id: ViewState.CUSTOMERS, label: 'Customer Credit', kind: 'view' },
+  { id: ViewState.REPORTS, label: 'Reports & History', kind: 'view' },
+  ...(Object.keys(ACTION_POLICY) as PermissionAction[])
+    .filter(action => ACTION_POLICY[action].grantable)
+    .map(action => ({ id: action, label: capitalise(ACTION_POLICY[action].label), kind: 'action' as const }))
+];
+
+const getRoleLevel = (role?: string): RoleLevel => {
+  const r = role?.toLowerCase() || '';
+  if (r === 'owner' || r === 'admin' || r === 'administrator') return 'ADMIN';
+  if (r === 'manager') return 'MANAGER';
+  return 'STAFF';
+};
+
+// Permissions may be stored as 'STOCK_IN' or 'stockin'
+const normalise = (permission: string) => permission.toLowerCase().replace(/_/g, '');
+
+const isViewPermission = (permission: string) =>
+  permission === '*' || Object.values(ViewState).some(v => normalise(v) === normalise(permission));
+
+const includesPermission = (list: string[], permission: string) =>
+  list.some(p => p === '*' || normalise(p) === normalise(permission));
+
+// Role grants + user extras - user denials (staff-level users only)
+export const getEffectivePermissions = (user: User): string[] => {
+  const granted = [...(user.role_permissions || []), ...(user.permissions || [])];
+  const withBasics = granted.some(isViewPermission) ? granted : [...BASIC_PERMISSIONS, ...granted];
+  const denied = (user.denied_permissions || []).map(normalise);
+  return Array.from(new Set(withBasics)).filter(p => !denied.includes(normalise(p)));
+};
+
+// Owner/Admin accounts: full access and can only be edited by themselves
+export const isAdminUser = (user: User | null): boolean =>
+  !!user && getRoleLevel(user.role) === 'ADMIN';
+
+export const isManagerUser = (user: User | null): boolean =>
+  !!user && ROLE_RANK[getRoleLevel(user.role)] >= ROLE_RANK.MANAGER;
+
+export const canAccessView = (user: User | null, view: ViewState): boolean => {
+  if (!user) return view === ViewState.LOGIN;
+  if (view === ViewState.DASHBOARD || view === ViewState.LOGIN) return true;
+  if (isManagerUser(user)) return true;
+  return includesPermission(getEffectivePermissions(user), view);
+};
+
+export const can = (user: User | null, action: PermissionAction): boolean => {
+  if (!user) return false;
+  const policy = ACTION_POLICY[action];
+
+  if (policy.view && !canAccessView(user, policy.view)) return false;
+  if (policy.minRole && ROLE_RANK[getRoleLevel(user.role)] < ROLE_RANK[policy.minRole]) {
+    return !!policy.grantable && includesPermission(getEffectivePermissions(user), action);
+  }
+  return true;
+};
+
+// Target user can be edited by themselves (PIN change) or, for non-admin
+// accounts, by anyone who manages staff
+export const canEditUser = (actor: User | null, target: User): boolean => {
+  if (!actor) return false;
+  if (target.id === actor.id) return true;
+  if (isAdminUser(target)) return false;
+  return can(actor, 'MANAGE_USERS');
+};
+
+export const permissionDeniedMessage = (action: PermissionAction) =>
+  `You don't have permission to ${ACTION_POLICY[action].label}.`;
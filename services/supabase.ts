@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
-import { Product, Transaction, DailyClosing, User, Category, CashWithdrawal } from '../types';
+import { Product, Transaction, DailyClosing, User, Category, CashWithdrawal, BusinessDaySettings, PaymentMethod, PermissionAction, ViewState, Role, AuditEntry, AdjustmentReason, WastageReason, TransactionType, StockLot, ClosingStockItem, ClosingVersion, StockSnapshot, CashCount, Shift, ShiftReport, Supplier, SupplierProduct, SupplierPayment, SupplierPaymentMethod, SupplierStatement, SupplierStatementLine, OpenDelivery, Customer, CustomerEntry, CustomerEntryType, CustomerStatementLine, LowStockItem } from '../types';
+import { can, canAccessView, isAdminUser, permissionDeniedMessage, RESERVED_ROLE_NAMES } from './permissions';
 
 // ------------------------------------------------------------------
 // CONFIGURATION
@@ -12,25 +13,254 @@ export const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
 // ------------------------------------------------------------------
 // HELPERS
 // ------------------------------------------------------------------
+export const DEFAULT_BUSINESS_DAY: BusinessDaySettings = {
+  timezone: 'Asia/Karachi',
+  cutoverHour: 0
+};
+
+// Loaded from app_settings on startup (see loadBusinessDaySettings)
+let businessDay: BusinessDaySettings = DEFAULT_BUSINESS_DAY;
+
+export const getBusinessDaySettings = (): BusinessDaySettings => businessDay;
+
+// Business date (YYYY-MM-DD) for a moment in time, in the shop's timezone.
+// Before the cutover hour we are still on the previous business day.
+export const getBusinessDateString = (
+  at: Date = new Date(),
+  settings: BusinessDaySettings = businessDay
+): string => {
+  const shifted = new Date(at.getTime() - settings.cutoverHour * 60 * 60 * 1000);
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: settings.timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(shifted);
+};
+
 export const getTodayString = (): string => {
-  return new Date().toISOString().split('T')[0];
+  return getBusinessDateString();
+};
+
+// Move a YYYY-MM-DD string by whole days/months/years (calendar math in UTC, no TZ drift)
+export const shiftDateString = (
+  dateStr: string,
+  amount: number,
+  unit: 'day' | 'month' | 'year' = 'day'
+): string => {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  if (unit === 'day') date.setUTCDate(date.getUTCDate() + amount);
+  if (unit === 'month') date.setUTCMonth(date.getUTCMonth() + amount);
+  if (unit === 'year') date.setUTCFullYear(date.getUTCFullYear() + amount);
+  return date.toISOString().split('T')[0];
 };
 
 // ------------------------------------------------------------------
 // API CALLS
 // ------------------------------------------------------------------
 
-export const loginUser = async (nameOrUsername: string, pin: string) => {
-  // Try to find user by name first (case-insensitive), then by username
+// Signed-in user, used to check permissions before any write. The database
+// enforces the same rules through row level security.
+let sessionUser: User | null = null;
+
+export const getSessionUser = (): User | null => sessionUser;
+
+const assertCan = (action: PermissionAction) => {
+  if (!can(sessionUser, action)) throw new Error(permissionDeniedMessage(action));
+};
+
+// Columns clients are allowed to read from users (pin_hash is not granted)
+const USER_COLUMNS = 'id, username, name, role, role_id, permissions, denied_permissions, failed_attempts, locked_until, created_at, roles(permissions)';
+
+// A users row as selected with USER_COLUMNS, role embedded. role_id is
+// many-to-one so the API embeds one object, but without a schema the
+// client's inferred type is an array; accept both.
+type EmbeddedRole = { permissions: string[] | null };
+type UserRow = User & { roles?: EmbeddedRole | EmbeddedRole[] | null };
+
+// Flattens the embedded role so permission checks can read role_permissions
+const toUser = ({ roles, ...user }: UserRow): User => {
+  const role = Array.isArray(roles) ? roles[0] : roles;
+  return { ...user, role_permissions: role?.permissions || [] };
+};
+
+// Row level security works off a Supabase auth session; the app's own
+// PIN login is bound to it by login_user. Anonymous sign-ins must be
+// enabled in the Supabase project (Authentication > Providers).
+const ensureAuthSession = async () => {
+  const { data } = await supabase.auth.getSession();
+  if (data.session) return;
+
+  const { error } = await supabase.auth.signInAnonymously();
+  if (error) throw error;
+};
+
+// PIN check, attempt counting and lockout all happen in the login_user
+// database function so the hash never leaves the server
+export const loginUser = async (
+  nameOrUsername: string,
+  pin: string
+): Promise<{ success: boolean; message: string; user?: User; remainingAttempts?: number; lockedUntil?: string }> => {
+  await ensureAuthSession();
+
+  const { data, error } = await supabase.rpc('login_user', {
+    p_name: nameOrUsername,
+    p_pin: pin
+  });
+
+  if (error) throw error;
+
+  if (data?.status === 'ok') {
+    // Re-read the user with role and overrides now that the session can see it
+    const { data: fullUser, error: userError } = await supabase
+      .from('users')
+      .select(USER_COLUMNS)
+      .eq('id', data.user.id)
+      .single();
+
+    if (userError) throw userError;
+    sessionUser = toUser(fullUser);
+    return { success: true, message: 'Login successful.', user: sessionUser };
+  }
+
+  if (data?.status === 'locked') {
+    return {
+      success: false,
+      message: 'Too many wrong PINs. Account is temporarily locked.',
+      lockedUntil: data.locked_until
+    };
+  }
+
+  return {
+    success: false,
+    message: 'Invalid Name or PIN',
+    remainingAttempts: data?.remaining_attempts
+  };
+};
+
+// Unbinds this browser's session from the user so nothing more can be
+// read or written until the next PIN login
+export const logoutUser = async () => {
+  sessionUser = null;
+  workingDate = null;
+  redirectLockedEntries = false;
+  const { error } = await supabase.rpc('logout_user');
+  if (error) console.error('Logout error:', error);
+  await supabase.auth.signOut();
+};
+
+// --- WORKING DATE ---
+// Day that entries and the closing are recorded for. Normally the business
+// day; a manager can go back to a missed day that hasn't been locked yet,
+// enter what happened and lock it. Days must be locked in order, since each
+// final closing carries stock and cash forward to the next day.
+
+let workingDate: string | null = null;
+const workingDateListeners = new Set<(dateStr: string) => void>();
+
+export const getWorkingDateString = (): string => workingDate || getTodayString();
+
+export const isBackdated = (): boolean => getWorkingDateString() < getTodayString();
+
+// Screens reload when the working date changes; returns an unsubscribe function
+export const onWorkingDateChange = (listener: (dateStr: string) => void) => {
+  workingDateListeners.add(listener);
+  return () => { workingDateListeners.delete(listener); };
+};
+
+const notifyWorkingDateChange = () => {
+  workingDateListeners.forEach(listener => listener(getWorkingDateString()));
+};
+
+// Last locked day; nothing on or before it can be entered any more
+export const fetchLatestFinalClosingDate = async (): Promise<string | null> => {
   const { data, error } = await supabase
-    .from('users')
-    .select('*')
-    .eq('pin', pin)
-    .or(`name.ilike.${nameOrUsername},username.ilike.${nameOrUsername}`)
-    .single();
-  
+    .from('daily_closings')
+    .select('date_str')
+    .eq('closing_type', 'final')
+    .order('date_str', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
   if (error) throw error;
-  return data;
+  return data?.date_str || null;
+};
+
+// Earliest day before dateStr with entries that isn't locked yet; it has to
+// be locked before dateStr can be (see earliest_open_day in migrations/0024)
+export const fetchEarliestOpenDay = async (dateStr: string): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('earliest_open_day', { p_before: dateStr });
+  if (error) throw error;
+  return (data as string | null) || null;
+};
+
+// Pass null (or today) to go back to the business day
+export const setWorkingDate = async (dateStr: string | null): Promise<{ success: boolean; message: string }> => {
+  const today = getTodayString();
+
+  if (dateStr && dateStr !== today) {
+    if (!can(sessionUser, 'BACKDATE_ENTRIES')) {
+      return { success: false, message: permissionDeniedMessage('BACKDATE_ENTRIES') };
+    }
+    if (dateStr > today) {
+      return { success: false, message: 'Future dates cannot be selected.' };
+    }
+
+    const lastLocked = await fetchLatestFinalClosingDate();
+    if (lastLocked && dateStr <= lastLocked) {
+      return { success: false, message: `${dateStr} is already closed. Days up to ${lastLocked} are locked.` };
+    }
+  }
+
+  workingDate = dateStr && dateStr !== today ? dateStr : null;
+  redirectLockedEntries = false;
+  notifyWorkingDateChange();
+  return { success: true, message: `Working date set to ${getWorkingDateString()}.` };
+};
+
+// --- LOCKED DAYS ---
+// Once a day's final closing is locked nothing more can be recorded for it,
+// or the locked figures would stop matching. New entries are refused unless
+// the user chooses to record them for the next open day; the owner can
+// reopen the closing instead (reopenFinalClosing).
+
+let redirectLockedEntries = false;
+
+export const isDayLocked = async (dateStr: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('daily_closings')
+    .select('id')
+    .eq('date_str', dateStr)
+    .eq('closing_type', 'final')
+    .limit(1);
+
+  if (error) throw error;
+  return (data || []).length > 0;
+};
+
+export const dayLockedMessage = (dateStr: string) =>
+  `${dateStr} is already closed, so new entries can't be added to it.`;
+
+// First day after the last locked one
+export const getNextOpenDate = async (dateStr: string): Promise<string> => {
+  const lastLocked = await fetchLatestFinalClosingDate();
+  return shiftDateString(lastLocked && lastLocked > dateStr ? lastLocked : dateStr, 1);
+};
+
+export const isRedirectingLockedEntries = (): boolean => redirectLockedEntries;
+
+// Record entries meant for a locked working date on the next open day instead
+export const setRedirectLockedEntries = (enabled: boolean) => {
+  redirectLockedEntries = enabled;
+  notifyWorkingDateChange();
+};
+
+// Date a new entry is saved with; throws when that day is locked
+const resolveEntryDate = async (dateStr: string = getWorkingDateString()): Promise<string> => {
+  if (!(await isDayLocked(dateStr))) return dateStr;
+  if (redirectLockedEntries) return getNextOpenDate(dateStr);
+  throw new Error(dayLockedMessage(dateStr));
 };
 
 // --- CATEGORIES ---
@@ -48,6 +278,7 @@ export const fetchCategories = async (type?: 'EXPENSE' | 'INCOME'): Promise<Cate
 };
 
 export const addCategory = async (name: string, type: 'EXPENSE' | 'INCOME', parentId?: number | null) => {
+  assertCan('MANAGE_CATEGORIES');
   const { data, error } = await supabase
     .from('categories')
     .insert([{ name, type, parent_id: parentId || null }])
@@ -57,6 +288,7 @@ export const addCategory = async (name: string, type: 'EXPENSE' | 'INCOME', pare
 };
 
 export const updateCategory = async (id: number, name: string) => {
+  assertCan('MANAGE_CATEGORIES');
   const { error } = await supabase
     .from('categories')
     .update({ name })
@@ -95,6 +327,7 @@ export const fetchSubCategories = async (parentId: number): Promise<Category[]>
 };
 
 export const deleteCategory = async (id: number) => {
+  assertCan('MANAGE_CATEGORIES');
   const { error } = await supabase.from('categories').delete().eq('id', id);
   if (error) throw error;
   return true;
@@ -113,6 +346,7 @@ export const fetchProducts = async (): Promise<Product[]> => {
 };
 
 export const addProduct = async (product: Omit<Product, 'id' | 'current_opening_stock'>) => {
+  assertCan('MANAGE_PRODUCTS');
   const { data, error } = await supabase
     .from('products')
     .insert([{ ...product, current_opening_stock: 0 }])
@@ -123,6 +357,7 @@ export const addProduct = async (product: Omit<Product, 'id' | 'current_opening_
 };
 
 export const updateProduct = async (id: number, product: Partial<Product>) => {
+  assertCan('MANAGE_PRODUCTS');
   const { error } = await supabase
     .from('products')
     .update(product)
@@ -133,6 +368,7 @@ export const updateProduct = async (id: number, product: Partial<Product>) => {
 };
 
 export const deleteProduct = async (id: number) => {
+  assertCan('MANAGE_PRODUCTS');
   const { error } = await supabase
     .from('products')
     .delete()
@@ -142,19 +378,563 @@ export const deleteProduct = async (id: number) => {
   return true;
 };
 
+// Stock on hand during the day for the low-stock check: opening stock plus
+// the working date's stock-in (returns are negative rows)
+export const getStockOnHand = (product: Product, stockIn: Transaction[]): number =>
+  (product.current_opening_stock || 0) + stockIn
+    .filter(t => t.product_id === product.id)
+    .reduce((sum, t) => sum + (t.quantity || 0), 0);
+
+export const isLowStock = (product: Product, onHand: number): boolean =>
+  product.reorder_point != null && onHand <= product.reorder_point;
+
+// Enough to get back to the target level (or the reorder point if none is set)
+export const getReorderQuantity = (product: Product, onHand: number): number =>
+  Math.max(0, Math.ceil((product.target_level ?? product.reorder_point ?? 0) - onHand));
+
+export const fetchLowStock = async (): Promise<LowStockItem[]> => {
+  const [products, stockIn] = await Promise.all([fetchProducts(), fetchTodayStockIn(true)]);
+
+  return products
+    .map(product => {
+      const onHand = getStockOnHand(product, stockIn);
+      return { product, onHand, orderQuantity: getReorderQuantity(product, onHand) };
+    })
+    .filter(item => isLowStock(item.product, item.onHand))
+    .sort((a, b) => b.orderQuantity - a.orderQuantity);
+};
+
+// --- SUPPLIERS ---
+
+export const fetchSuppliers = async (): Promise<Supplier[]> => {
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*, supplier_products(product_id, default_cost)')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Supplier and its products are written in one database call (save_supplier)
+export const addSupplier = async (
+  supplier: Pick<Supplier, 'name' | 'phone' | 'notes'>,
+  products: SupplierProduct[] = []
+) => {
+  assertCan('MANAGE_SUPPLIERS');
+  const { data, error } = await supabase.rpc('save_supplier', {
+    p_id: null,
+    p_name: supplier.name,
+    p_phone: supplier.phone ?? null,
+    p_notes: supplier.notes ?? null,
+    p_products: products
+  });
+
+  if (error) throw error;
+  return data as Supplier;
+};
+
+export const updateSupplier = async (
+  id: number,
+  supplier: Pick<Supplier, 'name' | 'phone' | 'notes'>,
+  products?: SupplierProduct[]
+) => {
+  assertCan('MANAGE_SUPPLIERS');
+  const { error } = await supabase.rpc('save_supplier', {
+    p_id: id,
+    p_name: supplier.name,
+    p_phone: supplier.phone ?? null,
+    p_notes: supplier.notes ?? null,
+    p_products: products ?? null
+  });
+
+  if (error) throw error;
+  return true;
+};
+
+// Past deliveries keep their rows; only the link to the supplier is cleared
+export const deleteSupplier = async (id: number) => {
+  assertCan('MANAGE_SUPPLIERS');
+  const { error } = await supabase
+    .from('suppliers')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+  return true;
+};
+
+// Supplier's deliveries (STOCK_IN) and their returns, newest first
+export const fetchSupplierDeliveries = async (
+  supplierId: number,
+  startDate?: string,
+  endDate?: string
+): Promise<Transaction[]> => {
+  let query = supabase
+    .from('transactions')
+    .select('*, products(name, unit)')
+    .eq('type', 'STOCK_IN')
+    .eq('supplier_id', supplierId)
+    .order('created_at', { ascending: false });
+
+  if (startDate) query = query.gte('date_str', startDate);
+  if (endDate) query = query.lte('date_str', endDate);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const returnedIds = (data || [])
+    .filter(t => t.is_return && t.return_of)
+    .map(t => t.return_of);
+
+  return (data || []).map(t => ({
+    ...t,
+    has_been_returned: returnedIds.includes(t.id)
+  }));
+};
+
+// --- SUPPLIER PAYMENTS ---
+
+export const fetchSupplierPayments = async (supplierId?: number): Promise<SupplierPayment[]> => {
+  let query = supabase
+    .from('supplier_payments')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (supplierId) query = query.eq('supplier_id', supplierId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+// Cash payments come out of today's drawer as a withdrawal; the database
+// function writes both so they can't get out of step
+export const recordSupplierPayment = async (
+  supplierId: number,
+  amount: number,
+  method: SupplierPaymentMethod,
+  options?: { transactionId?: number | null; note?: string }
+): Promise<{ success: boolean; message: string }> => {
+  if (!can(sessionUser, 'PAY_SUPPLIERS')) {
+    return { success: false, message: permissionDeniedMessage('PAY_SUPPLIERS') };
+  }
+  if (!(amount > 0)) {
+    return { success: false, message: 'Amount must be greater than zero.' };
+  }
+
+  let dateStr: string;
+  try {
+    dateStr = await resolveEntryDate();
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+
+  const { error } = await supabase.rpc('record_supplier_payment', {
+    p_supplier_id: supplierId,
+    p_amount: amount,
+    p_method: method,
+    p_date_str: dateStr,
+    p_transaction_id: options?.transactionId ?? null,
+    p_note: options?.note || null
+  });
+
+  if (error) {
+    return { success: false, message: error.message };
+  }
+  return {
+    success: true,
+    message: method === 'CASH' ? 'Payment recorded and taken out of the cash drawer.' : 'Payment recorded.'
+  };
+};
+
+// Amount owed to each supplier (negative = paid in advance)
+export const fetchSupplierBalances = async (): Promise<Record<number, number>> => {
+  const [deliveries, payments] = await Promise.all([
+    supabase
+      .from('transactions')
+      .select('supplier_id, amount')
+      .eq('type', 'STOCK_IN')
+      .not('supplier_id', 'is', null),
+    supabase
+      .from('supplier_payments')
+      .select('supplier_id, amount')
+      .not('supplier_id', 'is', null)
+  ]);
+
+  if (deliveries.error) throw deliveries.error;
+  if (payments.error) throw payments.error;
+
+  const balances: Record<number, number> = {};
+  (deliveries.data || []).forEach(t => {
+    balances[t.supplier_id] = (balances[t.supplier_id] || 0) + (t.amount || 0);
+  });
+  (payments.data || []).forEach(p => {
+    balances[p.supplier_id] = (balances[p.supplier_id] || 0) - (p.amount || 0);
+  });
+  return balances;
+};
+
+const AGEING_BUCKETS = [
+  { label: '0-30 days', maxDays: 30 },
+  { label: '31-60 days', maxDays: 60 },
+  { label: '61-90 days', maxDays: 90 },
+  { label: '90+ days', maxDays: Infinity }
+];
+
+const daysBetween = (fromDateStr: string, toDateStr: string) =>
+  Math.round((Date.parse(`${toDateStr}T00:00:00Z`) - Date.parse(`${fromDateStr}T00:00:00Z`)) / 86400000);
+
+// Statement for one supplier from all of their deliveries (with returns) and
+// payments. Payments for a specific delivery settle that delivery first; the
+// rest, and payments on account, settle the oldest deliveries first.
+export const buildSupplierStatement = (
+  deliveries: Transaction[],
+  payments: SupplierPayment[],
+  asOf: string = getTodayString()
+): SupplierStatement => {
+  const byTime = (a: { date_str: string; created_at?: string }, b: { date_str: string; created_at?: string }) =>
+    a.date_str.localeCompare(b.date_str) || (a.created_at || '').localeCompare(b.created_at || '');
+
+  // Running ledger
+  const entries: Omit<SupplierStatementLine, 'balance'>[] = [
+    ...deliveries.map(t => ({
+      date_str: t.date_str,
+      created_at: t.created_at,
+      kind: (t.is_return ? 'RETURN' : 'DELIVERY') as SupplierStatementLine['kind'],
+      description: `${t.products?.name || 'Deleted product'} × ${Math.abs(t.quantity || 0)}${t.is_return && t.return_reason ? ` (${t.return_reason})` : ''}`,
+      amount: t.amount || 0
+    })),
+    ...payments.map(p => ({
+      date_str: p.date_str,
+      created_at: p.created_at,
+      kind: 'PAYMENT' as const,
+      description: `${p.method === 'CASH' ? 'Cash (drawer)' : 'Bank'} payment${p.note ? ` - ${p.note}` : ''}`,
+      amount: -p.amount
+    }))
+  ].sort(byTime);
+
+  let balance = 0;
+  const lines = entries.map(entry => {
+    balance += entry.amount;
+    return { ...entry, balance };
+  });
+
+  // Outstanding per delivery, net of its returns
+  const open: OpenDelivery[] = deliveries
+    .filter(t => !t.is_return)
+    .sort(byTime)
+    .map(delivery => {
+      const returned = deliveries
+        .filter(t => t.is_return && t.return_of === delivery.id)
+        .reduce((sum, t) => sum + (t.amount || 0), 0);
+      const total = (delivery.amount || 0) + returned;
+      return { delivery, total, outstanding: total, ageDays: daysBetween(delivery.date_str, asOf) };
+    });
+
+  let unallocated = 0;
+  payments.forEach(p => {
+    const target = p.transaction_id ? open.find(d => d.delivery.id === p.transaction_id) : undefined;
+    if (!target) {
+      unallocated += p.amount;
+      return;
+    }
+    const applied = Math.min(p.amount, Math.max(target.outstanding, 0));
+    target.outstanding -= applied;
+    unallocated += p.amount - applied;
+  });
+  open.forEach(d => {
+    const applied = Math.min(unallocated, Math.max(d.outstanding, 0));
+    d.outstanding -= applied;
+    unallocated -= applied;
+  });
+
+  const openDeliveries = open.filter(d => d.outstanding > 0.005);
+  const ageing = AGEING_BUCKETS.map((bucket, i) => ({
+    label: bucket.label,
+    amount: openDeliveries
+      .filter(d => d.ageDays <= bucket.maxDays && (i === 0 || d.ageDays > AGEING_BUCKETS[i - 1].maxDays))
+      .reduce((sum, d) => sum + d.outstanding, 0)
+  }));
+
+  return { lines, openDeliveries, outstanding: balance, ageing };
+};
+
+// --- CUSTOMERS (CREDIT / UDHAAR) ---
+
+export const fetchCustomers = async (): Promise<Customer[]> => {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+const assertCustomerAccess = () => {
+  if (!canAccessView(sessionUser, ViewState.CUSTOMERS)) {
+    throw new Error('You don\'t have permission to manage customer accounts.');
+  }
+};
+
+export const addCustomer = async (customer: Pick<Customer, 'name' | 'phone' | 'notes'>) => {
+  assertCustomerAccess();
+  const { data, error } = await supabase
+    .from('customers')
+    .insert([customer])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Customer;
+};
+
+export const updateCustomer = async (id: number, customer: Partial<Pick<Customer, 'name' | 'phone' | 'notes'>>) => {
+  assertCustomerAccess();
+  const { error } = await supabase
+    .from('customers')
+    .update(customer)
+    .eq('id', id);
+
+  if (error) throw error;
+  return true;
+};
+
+// Only customers without any entries can be deleted (the database refuses otherwise)
+export const deleteCustomer = async (id: number) => {
+  assertCustomerAccess();
+  const { error } = await supabase
+    .from('customers')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+  return true;
+};
+
+// Credit sale or repayment for today
+export const recordCustomerEntry = async (
+  customerId: number,
+  type: CustomerEntryType,
+  amount: number,
+  note?: string
+): Promise<{ success: boolean; message: string }> => {
+  if (!canAccessView(sessionUser, ViewState.CUSTOMERS)) {
+    return { success: false, message: 'You don\'t have permission to record customer credit.' };
+  }
+  if (!(amount > 0)) {
+    return { success: false, message: 'Amount must be greater than zero.' };
+  }
+
+  let dateStr: string;
+  try {
+    dateStr = await resolveEntryDate();
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+
+  const { error } = await supabase
+    .from('customer_entries')
+    .insert([{
+      customer_id: customerId,
+      type,
+      amount,
+      note: note || null,
+      date_str: dateStr,
+      recorded_by: sessionUser?.id ?? null
+    }]);
+
+  if (error) {
+    return { success: false, message: error.message };
+  }
+  return { success: true, message: type === 'SALE' ? 'Credit sale recorded.' : 'Repayment recorded.' };
+};
+
+// Reverses a mistaken entry with a negative row dated today, like returnTransaction
+export const reverseCustomerEntry = async (
+  entry: CustomerEntry,
+  reason: string
+): Promise<{ success: boolean; message: string }> => {
+  if (!can(sessionUser, 'RETURN_TRANSACTION')) {
+    return { success: false, message: permissionDeniedMessage('RETURN_TRANSACTION') };
+  }
+
+  let dateStr: string;
+  try {
+    dateStr = await resolveEntryDate();
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+
+  const { error } = await supabase
+    .from('customer_entries')
+    .insert([{
+      customer_id: entry.customer_id,
+      type: entry.type,
+      amount: -entry.amount,
+      note: `RETURN: ${entry.note || ''} - Reason: ${reason}`,
+      date_str: dateStr,
+      recorded_by: sessionUser?.id ?? null,
+      is_return: true,
+      return_of: entry.id,
+      return_reason: reason
+    }]);
+
+  if (error) {
+    return { success: false, message: error.message };
+  }
+  return { success: true, message: 'Entry reversed.' };
+};
+
+// Entries oldest first, optionally for one customer and/or a date range
+export const fetchCustomerEntries = async (
+  options: { customerId?: number; startDate?: string; endDate?: string } = {}
+): Promise<CustomerEntry[]> => {
+  let query = supabase
+    .from('customer_entries')
+    .select('*, customers(name)')
+    .order('date_str', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (options.customerId) query = query.eq('customer_id', options.customerId);
+  if (options.startDate) query = query.gte('date_str', options.startDate);
+  if (options.endDate) query = query.lte('date_str', options.endDate);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const returnedIds = (data || [])
+    .filter(e => e.is_return && e.return_of)
+    .map(e => e.return_of);
+
+  return (data || []).map(e => ({
+    ...e,
+    has_been_returned: returnedIds.includes(e.id)
+  }));
+};
+
+export const fetchTodayCustomerEntries = async (): Promise<CustomerEntry[]> => {
+  const today = getWorkingDateString();
+  return fetchCustomerEntries({ startDate: today, endDate: today });
+};
+
+// Reversals are negative rows, so plain sums give the net amounts
+export const sumCustomerEntries = (entries: CustomerEntry[]) => ({
+  creditSales: entries.filter(e => e.type === 'SALE').reduce((sum, e) => sum + (e.amount || 0), 0),
+  repayments: entries.filter(e => e.type === 'PAYMENT').reduce((sum, e) => sum + (e.amount || 0), 0)
+});
+
+// Amount each customer owes (negative = paid in advance)
+export const fetchCustomerBalances = async (): Promise<Record<number, number>> => {
+  const { data, error } = await supabase
+    .from('customer_entries')
+    .select('customer_id, type, amount');
+
+  if (error) throw error;
+
+  const balances: Record<number, number> = {};
+  (data || []).forEach(e => {
+    const signed = e.type === 'SALE' ? e.amount : -e.amount;
+    balances[e.customer_id] = (balances[e.customer_id] || 0) + (signed || 0);
+  });
+  return balances;
+};
+
+// Running balance over a customer's entries (oldest first, as fetched)
+export const buildCustomerStatement = (entries: CustomerEntry[]): CustomerStatementLine[] => {
+  let balance = 0;
+  return entries.map(entry => {
+    balance += entry.type === 'SALE' ? entry.amount : -entry.amount;
+    return { ...entry, balance };
+  });
+};
+
+// --- STOCK ADJUSTMENTS ---
+
+export const ADJUSTMENT_REASONS: { id: AdjustmentReason; label: string }[] = [
+  { id: 'COUNT_CORRECTION', label: 'Count correction' },
+  { id: 'DAMAGE', label: 'Damage' },
+  { id: 'THEFT', label: 'Theft' },
+  { id: 'FOUND', label: 'Found' },
+];
+
+export const WASTAGE_REASONS: { id: WastageReason; label: string }[] = [
+  { id: 'EXPIRED', label: 'Expired' },
+  { id: 'SPILLED', label: 'Spilled' },
+  { id: 'DAMAGED', label: 'Damaged' },
+];
+
+// Label for an adjustment or wastage reason code
+export const getReasonLabel = (code?: string | null) =>
+  [...ADJUSTMENT_REASONS, ...WASTAGE_REASONS].find(r => r.id === code)?.label || code || '';
+
+// Manual stock correction (Settings > Stock). Each change is recorded as an
+// ADJUSTMENT transaction with a signed quantity; products are not overwritten.
+export const recordStockAdjustments = async (
+  changes: { productId: number; quantity: number }[],
+  reason: AdjustmentReason,
+  note?: string
+) => {
+  assertCan('ADJUST_STOCK');
+
+  const { data, error } = await supabase.rpc('record_stock_adjustments', {
+    p_date_str: await resolveEntryDate(),
+    p_reason_code: reason,
+    p_items: changes.filter(c => c.quantity !== 0),
+    p_note: note || null
+  });
+
+  if (error) throw error;
+  return data as number;
+};
+
+export const fetchTodayAdjustments = async (): Promise<Transaction[]> => {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('*, products(name, unit, sale_price)')
+    .eq('type', 'ADJUSTMENT')
+    .eq('date_str', getWorkingDateString())
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Net quantity per product id (negative rows such as reversals included)
+export const sumQuantityByProduct = (transactions: Transaction[]): Record<number, number> =>
+  transactions.reduce((totals, t) => {
+    if (t.product_id) totals[t.product_id] = (totals[t.product_id] || 0) + (t.quantity || 0);
+    return totals;
+  }, {} as Record<number, number>);
+
 // --- TRANSACTIONS ---
 
+// Screen that records each transaction type
+const TRANSACTION_VIEWS: Record<Transaction['type'], ViewState[]> = {
+  STOCK_IN: [ViewState.STOCK_IN],
+  EXPENSE: [ViewState.EXPENSES],
+  INCOME: [ViewState.INCOME, ViewState.EXPENSES],
+  // Only through recordStockAdjustments
+  ADJUSTMENT: [],
+  WASTAGE: [ViewState.CLOSING]
+};
+
 export const addTransaction = async (transaction: Transaction) => {
+  if (!TRANSACTION_VIEWS[transaction.type].some(view => canAccessView(sessionUser, view))) {
+    throw new Error('You don\'t have permission to record this entry.');
+  }
+
   const { data, error } = await supabase
     .from('transactions')
-    .insert([transaction]);
+    .insert([{ ...transaction, date_str: await resolveEntryDate(transaction.date_str) }]);
   
   if (error) throw error;
   return data;
 };
 
 export const fetchTodayStockIn = async (includeReturns: boolean = false): Promise<Transaction[]> => {
-  const today = getTodayString();
+  const today = getWorkingDateString();
   let query = supabase
     .from('transactions')
     .select('*, products(name, unit, sale_price)')
@@ -182,7 +962,7 @@ export const fetchTodayStockIn = async (includeReturns: boolean = false): Promis
 };
 
 export const fetchTodayExpenses = async (includeReturns: boolean = false): Promise<Transaction[]> => {
-  const today = getTodayString();
+  const today = getWorkingDateString();
   let query = supabase
     .from('transactions')
     .select('*')
@@ -209,7 +989,7 @@ export const fetchTodayExpenses = async (includeReturns: boolean = false): Promi
 };
 
 export const fetchTodayIncome = async (includeReturns: boolean = false): Promise<Transaction[]> => {
-  const today = getTodayString();
+  const today = getWorkingDateString();
   let query = supabase
     .from('transactions')
     .select('*')
@@ -240,13 +1020,18 @@ export const returnTransaction = async (
   originalTxn: Transaction, 
   reason: string
 ): Promise<{ success: boolean; message: string }> => {
-  const today = getTodayString();
-  
+  if (!can(sessionUser, 'RETURN_TRANSACTION')) {
+    return { success: false, message: permissionDeniedMessage('RETURN_TRANSACTION') };
+  }
+  if (originalTxn.type === 'ADJUSTMENT') {
+    return { success: false, message: 'Adjustments cannot be returned. Record a new adjustment instead.' };
+  }
+
   try {
     // Create a reversal entry
     const reversalTxn: any = {
       type: originalTxn.type,
-      date_str: today,
+      date_str: await resolveEntryDate(),
       is_return: true,
       return_of: originalTxn.id,
       return_reason: reason,
@@ -257,6 +1042,16 @@ export const returnTransaction = async (
     if (originalTxn.type === 'STOCK_IN') {
       reversalTxn.product_id = originalTxn.product_id;
       reversalTxn.quantity = -(originalTxn.quantity || 0); // Negative quantity for return
+      reversalTxn.supplier_id = originalTxn.supplier_id ?? null;
+      if (originalTxn.unit_cost != null) {
+        reversalTxn.unit_cost = originalTxn.unit_cost;
+        reversalTxn.amount = -(originalTxn.amount || 0);
+      }
+    } else if (originalTxn.type === 'WASTAGE') {
+      reversalTxn.product_id = originalTxn.product_id;
+      reversalTxn.quantity = -(originalTxn.quantity || 0);
+      reversalTxn.amount = -(originalTxn.amount || 0);
+      reversalTxn.reason_code = originalTxn.reason_code;
     } else {
       reversalTxn.category = originalTxn.category;
       reversalTxn.amount = -(originalTxn.amount || 0); // Negative amount for return
@@ -290,6 +1085,7 @@ export const deleteTransaction = async (id: number) => {
   // Instead of deleting, we should use returnTransaction
   // This is kept for backward compatibility but logs a warning
   console.warn('deleteTransaction is deprecated. Use returnTransaction instead.');
+  assertCan('DELETE_DATA');
   const { error } = await supabase
     .from('transactions')
     .delete()
@@ -299,10 +1095,72 @@ export const deleteTransaction = async (id: number) => {
   return true;
 };
 
+// --- WASTAGE ---
+
+// Stock thrown away (expired, spilled, damaged). Valued at the current sale
+// price so the amount stays fixed if the price changes later.
+export const recordWastage = async (
+  product: Product,
+  quantity: number,
+  reason: WastageReason,
+  note?: string
+) => {
+  return addTransaction({
+    type: 'WASTAGE',
+    product_id: product.id,
+    quantity,
+    amount: quantity * (product.sale_price || 0),
+    reason_code: reason,
+    note: note || null,
+    date_str: getWorkingDateString()
+  });
+};
+
+export const fetchTodayWastage = async (): Promise<Transaction[]> => {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('*, products(name, unit, sale_price)')
+    .eq('type', 'WASTAGE')
+    .eq('date_str', getWorkingDateString())
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  // Mark entries that have been reversed
+  const returnedIds = (data || [])
+    .filter(t => t.is_return && t.return_of)
+    .map(t => t.return_of);
+
+  return (data || []).map(t => ({
+    ...t,
+    has_been_returned: returnedIds.includes(t.id)
+  }));
+};
+
+// --- STOCK LOTS ---
+// Lots are opened by a database trigger on every STOCK_IN and used up
+// oldest-first when the final closing is locked (migrations/0015_stock_lots.sql),
+// so remaining quantities are as of the last final closing plus today's stock in.
+
+// Open lots expiring within the next `days` days (already expired included)
+export const fetchExpiringLots = async (days: number = 3): Promise<StockLot[]> => {
+  const { data, error } = await supabase
+    .from('stock_lots')
+    .select('*, products(name, unit)')
+    .gt('quantity_remaining', 0)
+    .not('expiry_date', 'is', null)
+    .lte('expiry_date', shiftDateString(getTodayString(), days))
+    .order('expiry_date', { ascending: true })
+    .order('received_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
 // --- CASH WITHDRAWALS ---
 
 export const fetchTodayWithdrawals = async (): Promise<CashWithdrawal[]> => {
-  const today = getTodayString();
+  const today = getWorkingDateString();
   const { data, error } = await supabase
     .from('cash_withdrawals')
     .select('*')
@@ -318,15 +1176,24 @@ export const addCashWithdrawal = async (
   reason: string, 
   userId?: number
 ): Promise<{ success: boolean; message: string }> => {
-  const today = getTodayString();
-  
+  if (!can(sessionUser, 'RECORD_WITHDRAWAL')) {
+    return { success: false, message: permissionDeniedMessage('RECORD_WITHDRAWAL') };
+  }
+
+  let dateStr: string;
+  try {
+    dateStr = await resolveEntryDate();
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+
   const { error } = await supabase
     .from('cash_withdrawals')
     .insert([{
       amount,
       reason,
       withdrawn_by: userId,
-      date_str: today
+      date_str: dateStr
     }]);
 
   if (error) {
@@ -341,10 +1208,11 @@ export const getTotalWithdrawalsToday = async (): Promise<number> => {
 };
 
 // --- DAILY CLOSING ---
+// "Today" below is the working date (see WORKING DATE above)
 
 // Fetch all closings for today (supports multiple closings per day)
 export const fetchTodayClosings = async (): Promise<DailyClosing[]> => {
-  const today = getTodayString();
+  const today = getWorkingDateString();
   const { data, error } = await supabase
     .from('daily_closings')
     .select('*')
@@ -357,7 +1225,7 @@ export const fetchTodayClosings = async (): Promise<DailyClosing[]> => {
 
 // Fetch the latest closing for today
 export const fetchTodayClosing = async (): Promise<DailyClosing | null> => {
-  const today = getTodayString();
+  const today = getWorkingDateString();
   const { data, error } = await supabase
     .from('daily_closings')
     .select('*')
@@ -372,7 +1240,7 @@ export const fetchTodayClosing = async (): Promise<DailyClosing | null> => {
 
 // Check if FINAL closing done for today
 export const isFinalClosingDoneToday = async (): Promise<boolean> => {
-  const today = getTodayString();
+  const today = getWorkingDateString();
   const { data, error } = await supabase
     .from('daily_closings')
     .select('id')
@@ -409,8 +1277,76 @@ export const getTodayClosingsTotals = async () => {
   };
 };
 
+// report_json may be a JSON string (drafts) or an object (final closings)
+const parseClosingReport = (closing: DailyClosing): Record<string, any> => {
+  if (!closing.report_json) return {};
+  try {
+    return typeof closing.report_json === 'string'
+      ? JSON.parse(closing.report_json)
+      : closing.report_json;
+  } catch (e) {
+    console.error('Error parsing report_json:', e);
+    return {};
+  }
+};
+
+// Per-product lines saved with a closing
+export const getClosingStockItems = (closing: DailyClosing): ClosingStockItem[] =>
+  parseClosingReport(closing).closingStock || [];
+
+// Notes the drawer is counted in; coins are entered as one amount
+export const CASH_DENOMINATIONS = [5000, 1000, 500, 100, 50, 20, 10];
+
+export const getCashCountTotal = (cashCount: CashCount): number =>
+  CASH_DENOMINATIONS.reduce((sum, note) => sum + note * (cashCount.counts[note] || 0), 0)
+  + (cashCount.coins || 0);
+
+// Note-by-note drawer count, when the closing was counted that way
+export const getClosingCashCount = (closing: DailyClosing): CashCount | null =>
+  parseClosingReport(closing).cashCount || null;
+
+// Received per payment method; closings from before payment methods only have cash
+export const getClosingPayments = (closing: DailyClosing): Record<string, number> =>
+  closing.payments || { [CASH_PAYMENT_METHOD]: closing.cash_received || 0 };
+
+// Sales paid through JazzCash, bank, card etc. - never in the drawer
+export const getNonCashReceived = (payments: Record<string, number>): number =>
+  Object.keys(payments)
+    .filter(id => id !== CASH_PAYMENT_METHOD)
+    .reduce((sum, id) => sum + (payments[id] || 0), 0);
+
+// Cash the drawer should hold at a closing: opening cash, sales, income and
+// credit repayments, less credit sales, expenses, withdrawals and what was
+// paid by other methods. Transactions and customer entries may span several
+// days; only the closing's day is used.
+export const getClosingExpectedCash = (
+  closing: DailyClosing,
+  transactions: Transaction[],
+  customerEntries: CustomerEntry[]
+): number => {
+  const dayTransactions = transactions.filter(t => t.date_str === closing.date_str && !t.is_return);
+  const sumType = (type: TransactionType) => dayTransactions
+    .filter(t => t.type === type)
+    .reduce((sum, t) => sum + (t.amount || 0), 0);
+  const dayCredit = sumCustomerEntries(customerEntries.filter(e => e.date_str === closing.date_str));
+
+  return (closing.opening_cash || 0) + (closing.total_revenue || 0)
+    - dayCredit.creditSales + dayCredit.repayments
+    + sumType('INCOME') - sumType('EXPENSE')
+    - (closing.total_withdrawals || 0)
+    - getNonCashReceived(getClosingPayments(closing));
+};
+
+// Cost of goods sold for a closing; null when it predates purchase costs
+export const getClosingCostOfGoods = (closing: DailyClosing): number | null => {
+  if (closing.cost_of_goods != null) return closing.cost_of_goods;
+  const items = getClosingStockItems(closing).filter(item => item.unitCost != null);
+  if (items.length === 0) return null;
+  return items.reduce((sum, item) => sum + (item.sold || 0) * (item.unitCost || 0), 0);
+};
+
 export const performDailyClosing = async (
-  closingData: { productId: number; newOpeningStock: number }[],
+  closingData: ClosingStockItem[],
   totalRevenue: number,
   cashReceived: number = 0,
   options?: {
@@ -418,11 +1354,50 @@ export const performDailyClosing = async (
     closingType?: 'partial' | 'final';
     notes?: string;
     closedBy?: number;
+    openingCash?: number | null;
+    closingId?: number; // Today's draft record to promote instead of inserting a new one
+    payments?: Record<string, number>;
+    cashCount?: CashCount | null;
   }
-): Promise<{ success: boolean; message: string }> => {
-  const today = getTodayString();
+): Promise<{ success: boolean; message: string; closing?: DailyClosing }> => {
+  const today = getWorkingDateString();
+  
+  // Handle closed_by carefully - only use if it's a valid number
+  const closedByValue = options?.closedBy && typeof options.closedBy === 'number' && options.closedBy > 0 
+    ? options.closedBy 
+    : null;
   
   try {
+    // Final closing: stock roll-forward, final-uniqueness check and the closing
+    // record are written by one database function, so they commit or fail together
+    if (options?.closingType === 'final') {
+      if (!can(sessionUser, 'LOCK_FINAL_CLOSING')) {
+        return { success: false, message: permissionDeniedMessage('LOCK_FINAL_CLOSING') };
+      }
+
+      const { data, error } = await supabase.rpc('perform_final_closing', {
+        p_date_str: today,
+        p_closing_stock: closingData,
+        p_total_revenue: totalRevenue,
+        p_cash_received: cashReceived,
+        p_total_withdrawals: options.totalWithdrawals || 0,
+        p_opening_cash: options.openingCash ?? null,
+        p_notes: options.notes || null,
+        p_closed_by: closedByValue,
+        p_closing_id: options.closingId || null,
+        p_payments: options.payments || null,
+        p_cash_count: options.cashCount || null
+      });
+
+      if (error) throw error;
+
+      return { 
+        success: true, 
+        message: 'Final closing completed successfully.',
+        closing: data as DailyClosing
+      };
+    }
+
     // Check if final closing already done
     const finalDone = await isFinalClosingDoneToday();
     if (finalDone) {
@@ -432,56 +1407,37 @@ export const performDailyClosing = async (
       };
     }
     
-    // If this is a final closing, update product stocks
-    if (options?.closingType === 'final') {
-      const updateErrors: string[] = [];
-      
-      for (const item of closingData) {
-        const { error } = await supabase
-          .from('products')
-          .update({ current_opening_stock: item.newOpeningStock })
-          .eq('id', item.productId);
-        
-        if (error) {
-          updateErrors.push(`Product ID ${item.productId}: ${error.message}`);
-        }
-      }
-      
-      if (updateErrors.length > 0) {
-        console.error('Product update errors:', updateErrors);
-      }
-    }
-    
     // Prepare closing stock report data
-    const stockReport = closingData.filter(item => item.newOpeningStock > 0 || options?.closingType === 'final');
+    const stockReport = closingData.filter(item => item.newOpeningStock > 0);
     
     // Insert closing record with stock details
-    // Handle closed_by carefully - only use if it's a valid number
-    const closedByValue = options?.closedBy && typeof options.closedBy === 'number' && options.closedBy > 0 
-      ? options.closedBy 
-      : null;
-    
-    const { error: closingError } = await supabase
+    const { data: closing, error: closingError } = await supabase
       .from('daily_closings')
       .insert([{ 
         date_str: today, 
         total_revenue: totalRevenue,
         cash_received: cashReceived,
         total_withdrawals: options?.totalWithdrawals || 0,
-        closing_type: options?.closingType || 'partial',
+        closing_type: 'partial',
         notes: options?.notes,
         closed_by: closedByValue,
-        report_json: stockReport.length > 0 ? JSON.stringify({ closingStock: closingData }) : null
-      }]);
+        opening_cash: options?.openingCash ?? null,
+        payments: options?.payments || null,
+        report_json: stockReport.length > 0 || options?.cashCount
+          ? JSON.stringify({ closingStock: closingData, cashCount: options?.cashCount || undefined })
+          : null
+      }])
+      .select()
+      .single();
 
     if (closingError) {
       throw closingError;
     }
 
-    const closingTypeLabel = options?.closingType === 'final' ? 'Final' : 'Partial';
     return { 
       success: true, 
-      message: `${closingTypeLabel} closing completed successfully.` 
+      message: 'Partial closing completed successfully.',
+      closing
     };
     
   } catch (error: any) {
@@ -494,9 +1450,13 @@ export const performDailyClosing = async (
     if (error.code === '23503') {
       errorMessage = 'Invalid user reference. Please re-login and try again.';
     }
-    // Unique constraint violation
+    // Unique constraint violation (only one final closing per day)
     else if (error.code === '23505') {
-      errorMessage = 'A closing record for today already exists.';
+      errorMessage = 'Final closing has already been done for today.';
+    }
+    // Product or draft record missing (deleted from another device)
+    else if (error.code === 'P0002') {
+      errorMessage = `${error.message} Please reload and try again.`;
     }
     
     return { 
@@ -506,12 +1466,219 @@ export const performDailyClosing = async (
   }
 };
 
+// Next day's opening cash, set after locking. A day closed late may already
+// have a later draft with an opening cash taken before; that draft is updated
+// so the cash chain follows the corrected day.
+export const saveNextDayOpeningCash = async (
+  closing: DailyClosing,
+  amount: number
+): Promise<{ success: boolean; message: string }> => {
+  const { error } = await supabase.rpc('set_next_day_opening_cash', {
+    p_closing_id: closing.id,
+    p_amount: amount
+  });
+
+  if (error) return { success: false, message: error.message };
+
+  const { data: nextDraft, error: nextError } = await supabase
+    .from('daily_closings')
+    .select('id')
+    .eq('closing_type', 'partial')
+    .gt('date_str', closing.date_str)
+    .order('date_str', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (!nextError && nextDraft) {
+    const { error: carryError } = await supabase
+      .from('daily_closings')
+      .update({ opening_cash: amount })
+      .eq('id', nextDraft.id);
+    if (carryError) return { success: false, message: carryError.message };
+  }
+
+  return { success: true, message: 'Opening cash saved.' };
+};
+
+// Owner only: unlock a locked day so it can be corrected and locked again.
+// The database puts back the stock roll-forward and keeps the locked version
+// (migrations/0023_closing_reopen.sql); only the latest locked day can be reopened.
+export const reopenFinalClosing = async (
+  dateStr: string,
+  reason: string
+): Promise<{ success: boolean; message: string; closing?: DailyClosing }> => {
+  if (!isAdminUser(sessionUser)) {
+    return { success: false, message: 'Only the owner can reopen a locked day.' };
+  }
+  if (!reason.trim()) {
+    return { success: false, message: 'Please enter a reason for reopening.' };
+  }
+
+  const { data, error } = await supabase.rpc('reopen_final_closing', {
+    p_date_str: dateStr,
+    p_reason: reason.trim()
+  });
+
+  if (error) {
+    return { success: false, message: error.message };
+  }
+  return {
+    success: true,
+    message: 'Day reopened. Correct the closing and lock it again.',
+    closing: data as DailyClosing
+  };
+};
+
+// Earlier locked versions of the given closings, oldest first
+export const fetchClosingVersions = async (closingIds: number[]): Promise<ClosingVersion[]> => {
+  if (closingIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('closing_versions')
+    .select('*')
+    .in('closing_id', closingIds)
+    .order('version', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Stock on hand at the end of a date: each product's latest locked-day
+// snapshot on or before it. Products never counted on a locked day are absent.
+export const fetchStockOnHand = async (dateStr: string): Promise<StockSnapshot[]> => {
+  const { data, error } = await supabase.rpc('stock_on_hand', { p_date_str: dateStr });
+  if (error) throw error;
+
+  return (data || []) as StockSnapshot[];
+};
+
+// Sold quantity per product per locked day in a date range, newest first
+// (sales history for forecasts). Paged, since the API returns at most 1000
+// rows per request and a few months of every product is more than that.
+const SOLD_HISTORY_PAGE = 1000;
+
+export const fetchSoldHistory = async (
+  startDate: string,
+  endDate: string
+): Promise<Pick<StockSnapshot, 'product_id' | 'date_str' | 'sold'>[]> => {
+  const rows: Pick<StockSnapshot, 'product_id' | 'date_str' | 'sold'>[] = [];
+
+  for (let from = 0; ; from += SOLD_HISTORY_PAGE) {
+    const { data, error } = await supabase
+      .from('daily_stock_snapshots')
+      .select('product_id, date_str, sold')
+      .gte('date_str', startDate)
+      .lte('date_str', endDate)
+      .order('date_str', { ascending: false })
+      .order('product_id', { ascending: true })
+      .range(from, from + SOLD_HISTORY_PAGE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < SOLD_HISTORY_PAGE) return rows;
+  }
+};
+
+// --- SHIFTS ---
+
+export const fetchShifts = async (startDate: string, endDate: string = startDate): Promise<Shift[]> => {
+  const { data, error } = await supabase
+    .from('shifts')
+    .select('*')
+    .gte('date_str', startDate)
+    .lte('date_str', endDate)
+    .order('opened_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchTodayShifts = async (): Promise<Shift[]> => fetchShifts(getTodayString());
+
+// Shifts not yet ended, whatever their day. One left running past its day
+// (or on a day locked from a missed-day date) still has to be ended.
+export const fetchRunningShifts = async (): Promise<Shift[]> => {
+  const { data, error } = await supabase
+    .from('shifts')
+    .select('*')
+    .is('closed_at', null)
+    .order('opened_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Everyone a shift can be handed over to
+export const fetchShiftCashiers = async (): Promise<{ id: number; name: string }[]> => {
+  const { data, error } = await supabase.rpc('shift_cashiers');
+  if (error) throw error;
+  return data || [];
+};
+
+export const openShift = async (
+  openingFloat: number
+): Promise<{ success: boolean; message: string; shift?: Shift }> => {
+  if (!canAccessView(sessionUser, ViewState.CLOSING)) {
+    return { success: false, message: 'You don\'t have permission to run shifts.' };
+  }
+  if (!(openingFloat >= 0)) {
+    return { success: false, message: 'Opening float cannot be negative.' };
+  }
+
+  const { data, error } = await supabase.rpc('open_shift', {
+    p_date_str: getTodayString(),
+    p_opening_float: openingFloat
+  });
+
+  if (error) {
+    return { success: false, message: error.message };
+  }
+  return { success: true, message: 'Shift started.', shift: data as Shift };
+};
+
+// Ends the running shift with its stock and cash count. The database works
+// out this shift's sales and expected cash from the day totals passed in.
+export const closeShift = async (
+  shiftId: number,
+  count: {
+    cashCounted: number;
+    daySales: number | null;   // null when ended after its day (no sales or variance then)
+    dayNetCash: number | null; // expected cash for the day minus opening cash
+    report?: ShiftReport;
+    handedTo?: number | null;
+    notes?: string;
+  }
+): Promise<{ success: boolean; message: string; shift?: Shift }> => {
+  if (!canAccessView(sessionUser, ViewState.CLOSING)) {
+    return { success: false, message: 'You don\'t have permission to run shifts.' };
+  }
+
+  const { data, error } = await supabase.rpc('close_shift', {
+    p_shift_id: shiftId,
+    p_cash_counted: count.cashCounted,
+    p_day_sales: count.daySales,
+    p_day_net_cash: count.dayNetCash,
+    p_report: count.report || null,
+    p_handed_to: count.handedTo ?? null,
+    p_notes: count.notes || null
+  });
+
+  if (error) {
+    return { success: false, message: error.message };
+  }
+  return {
+    success: true,
+    message: count.handedTo ? 'Shift handed over.' : 'Shift ended.',
+    shift: data as Shift
+  };
+};
+
 // --- REPORTS & HISTORY ---
 
 // Fetch all transactions with optional filters
 export const fetchAllTransactions = async (
   filters?: {
-    type?: 'STOCK_IN' | 'EXPENSE' | 'INCOME';
+    type?: TransactionType;
     startDate?: string;
     endDate?: string;
     limit?: number;
@@ -520,7 +1687,7 @@ export const fetchAllTransactions = async (
   let query = supabase
     .from('transactions')
     .select(`
-      id, type, product_id, category, amount, quantity, note, date_str, created_at,
+      id, type, product_id, category, amount, quantity, note, date_str, created_at, reason_code,
       products(name, unit)
     `)
     .order('created_at', { ascending: false });
@@ -562,7 +1729,7 @@ export const fetchAllClosings = async (limit?: number) => {
 // Get summary stats for a date range
 export const fetchReportSummary = async (startDate: string, endDate: string) => {
   // Fetch all data in parallel
-  const [transactions, closings] = await Promise.all([
+  const [transactions, closings, customerEntries] = await Promise.all([
     supabase
       .from('transactions')
       .select('*')
@@ -572,7 +1739,8 @@ export const fetchReportSummary = async (startDate: string, endDate: string) =>
       .from('daily_closings')
       .select('*')
       .gte('date_str', startDate)
-      .lte('date_str', endDate)
+      .lte('date_str', endDate),
+    fetchCustomerEntries({ startDate, endDate })
   ]);
 
   if (transactions.error) throw transactions.error;
@@ -624,31 +1792,51 @@ export const fetchReportSummary = async (startDate: string, endDate: string) =>
   const allExpenseTxns = txns.filter(t => t.type === 'EXPENSE');
   const allIncomeTxns = txns.filter(t => t.type === 'INCOME');
   
+  const allStockInTxns = txns.filter(t => t.type === 'STOCK_IN');
+  
   const totalExpenses = allExpenseTxns.reduce((sum, t) => sum + (t.amount || 0), 0);
   const totalIncome = allIncomeTxns.reduce((sum, t) => sum + (t.amount || 0), 0);
+  // Stock bought in the period (entries without a unit cost count as 0)
+  const totalPurchases = allStockInTxns.reduce((sum, t) => sum + (t.amount || 0), 0);
   
   // For sales, use the filtered unique closings
   const totalSales = validClosings.reduce((sum, c) => sum + (c.total_revenue || 0), 0);
+  const totalCostOfGoods = validClosings.reduce((sum, c) => sum + (getClosingCostOfGoods(c) || 0), 0);
+  const grossProfit = totalSales - totalCostOfGoods;
   
-  // For cash received, we need to be careful. 
-  // If we allowed multiple partial closings per day, we should SUM their cash_received for that day.
-  // BUT, our current closing logic might be accumulating total cash in each record?
-  // Let's check DayClosing.tsx: cashReceived is input by user. 
-  // If user enters "Total Cash in Drawer", then taking the last record is correct.
-  // If user enters "Cash Deposit", then we need to sum.
-  // Based on "Save" functionality, it looks like user is entering "Cash Received" at that moment.
-  // So we should SUM all cash_received from ALL closings (partial + final).
-  const totalCashReceived = allClosings.reduce((sum, c) => sum + (c.cash_received || 0), 0);
+  // cash_received is the drawer count at that moment, so partial closings are
+  // earlier snapshots of the same drawer - only the day's closing counts
+  // (per-cashier counts are kept on shifts)
+  const totalCashReceived = validClosings.reduce((sum, c) => sum + (c.cash_received || 0), 0);
   
-  const totalLoss = totalSales > totalCashReceived ? totalSales - totalCashReceived : 0;
+  // Cash short is worked out per day, as in the closing list; a day that
+  // was over doesn't make up for another day's shortage
+  const totalExpectedCash = validClosings.reduce(
+    (sum, c) => sum + getClosingExpectedCash(c, txns, customerEntries), 0);
+  const totalLoss = validClosings.reduce(
+    (sum, c) => sum + Math.max(0, getClosingExpectedCash(c, txns, customerEntries) - (c.cash_received || 0)), 0);
+
+  // Received per payment method, one closing per day
+  const paymentTotals: Record<string, number> = {};
+  validClosings.forEach(c => {
+    const payments = getClosingPayments(c);
+    Object.keys(payments).forEach(id => {
+      paymentTotals[id] = (paymentTotals[id] || 0) + (payments[id] || 0);
+    });
+  });
 
   return {
     totalSales,
     totalExpenses,
     totalIncome,
     totalCashReceived,
+    totalExpectedCash,
     totalLoss,
-    netProfit: totalSales + totalIncome - totalExpenses,
+    paymentTotals,
+    totalPurchases,
+    totalCostOfGoods,
+    grossProfit,
+    netProfit: grossProfit + totalIncome - totalExpenses,
     stockInCount: stockInTxns.length,
     expenseCount: expenseTxns.length,
     incomeCount: incomeTxns.length,
@@ -661,19 +1849,24 @@ export const fetchReportSummary = async (startDate: string, endDate: string) =>
 // Get daily breakdown for charts
 export const fetchDailyBreakdown = async (days: number = 30) => {
   const endDate = getTodayString();
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - days);
-  const startStr = startDate.toISOString().split('T')[0];
+  const startStr = shiftDateString(endDate, -days);
 
-  const { data: closings, error } = await supabase
-    .from('daily_closings')
-    .select('*')
-    .gte('date_str', startStr)
-    .lte('date_str', endDate)
-    .order('date_str', { ascending: true });
+  const [{ data: closings, error }, customerEntries] = await Promise.all([
+    supabase
+      .from('daily_closings')
+      .select('*')
+      .gte('date_str', startStr)
+      .lte('date_str', endDate)
+      .order('date_str', { ascending: true }),
+    fetchCustomerEntries({ startDate: startStr, endDate })
+  ]);
 
   if (error) throw error;
-  return closings || [];
+  // Credit sales are part of the day's sales but never paid in
+  return (closings || []).map(c => ({
+    ...c,
+    credit_sales: sumCustomerEntries(customerEntries.filter(e => e.date_str === c.date_str)).creditSales
+  }));
 };
 
 // --- USERS ---
@@ -681,34 +1874,63 @@ export const fetchDailyBreakdown = async (days: number = 30) => {
 export const fetchUsers = async (): Promise<User[]> => {
   const { data, error } = await supabase
     .from('users')
-    .select('*')
+    .select(USER_COLUMNS)
     .order('name');
   
   if (error) throw error;
-  return data || [];
+  return (data || []).map(toUser);
 };
 
-export const addUser = async (user: Omit<User, 'id'>) => {
-  const { data, error } = await supabase
-    .from('users')
-    .insert([user])
-    .select();
+export const addUser = async (user: Omit<User, 'id'>, pin: string) => {
+  assertCan('MANAGE_USERS');
+  const { data, error } = await supabase.rpc('create_user', {
+    p_name: user.name,
+    p_username: user.username,
+    p_role: user.role,
+    p_permissions: user.permissions || [],
+    p_pin: pin
+  });
   
   if (error) throw error;
-  return data;
+
+  // Role link and overrides are plain columns on the new row
+  const userId = data as number;
+  const { error: updateError } = await supabase
+    .from('users')
+    .update({ role_id: user.role_id ?? null, denied_permissions: user.denied_permissions || [] })
+    .eq('id', userId);
+
+  if (updateError) throw updateError;
+  return userId;
 };
 
 export const updateUser = async (id: number, user: Partial<User>) => {
+  assertCan('MANAGE_USERS');
+  const { role_permissions, ...columns } = user;
   const { error } = await supabase
     .from('users')
-    .update(user)
+    .update(columns)
     .eq('id', id);
 
   if (error) throw error;
   return true;
 };
 
+// Sets a new PIN (stored hashed) and clears any login lockout
+export const setUserPin = async (id: number, pin: string) => {
+  // Everyone may change their own PIN
+  if (id !== sessionUser?.id) assertCan('MANAGE_USERS');
+  const { error } = await supabase.rpc('set_user_pin', {
+    p_user_id: id,
+    p_pin: pin
+  });
+
+  if (error) throw error;
+  return true;
+};
+
 export const deleteUser = async (id: number) => {
+  assertCan('MANAGE_USERS');
   const { error } = await supabase
     .from('users')
     .delete()
@@ -718,6 +1940,203 @@ export const deleteUser = async (id: number) => {
   return true;
 };
 
+// --- ROLES ---
+
+export const fetchRoles = async (): Promise<Role[]> => {
+  const { data, error } = await supabase
+    .from('roles')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+const validateRoleName = (name: string) => {
+  if (!name.trim()) throw new Error('Role name is required.');
+  if (RESERVED_ROLE_NAMES.includes(name.trim().toLowerCase())) {
+    throw new Error(`"${name.trim()}" is a built-in role.`);
+  }
+};
+
+export const addRole = async (name: string, permissions: string[] = []) => {
+  assertCan('MANAGE_USERS');
+  validateRoleName(name);
+
+  const { data, error } = await supabase
+    .from('roles')
+    .insert([{ name: name.trim(), permissions }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Role;
+};
+
+export const updateRole = async (id: number, updates: { name?: string; permissions?: string[] }) => {
+  assertCan('MANAGE_USERS');
+  if (updates.name !== undefined) validateRoleName(updates.name);
+
+  const { error } = await supabase
+    .from('roles')
+    .update(updates.name !== undefined ? { ...updates, name: updates.name.trim() } : updates)
+    .eq('id', id);
+
+  if (error) throw error;
+
+  // users.role shows the role name, keep it in step
+  if (updates.name !== undefined) {
+    const { error: usersError } = await supabase
+      .from('users')
+      .update({ role: updates.name.trim() })
+      .eq('role_id', id);
+
+    if (usersError) throw usersError;
+  }
+  return true;
+};
+
+export const deleteRole = async (id: number) => {
+  assertCan('MANAGE_USERS');
+
+  const { count, error: countError } = await supabase
+    .from('users')
+    .select('id', { count: 'exact', head: true })
+    .eq('role_id', id);
+
+  if (countError) throw countError;
+  if (count) throw new Error(`This role is assigned to ${count} staff member(s). Move them to another role first.`);
+
+  const { error } = await supabase
+    .from('roles')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+  return true;
+};
+
+// --- AUDIT LOG ---
+// Rows are written by database triggers (migrations/0012_audit_log.sql), so
+// there is nothing to call here when data changes - only reading.
+
+export interface AuditLogFilters {
+  userId?: number;
+  entity?: string;
+  startDate?: string; // business date, YYYY-MM-DD
+  endDate?: string;
+}
+
+export const fetchAuditLog = async (filters: AuditLogFilters = {}, limit: number = 200): Promise<AuditEntry[]> => {
+  assertCan('VIEW_AUDIT_LOG');
+
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (filters.userId) query = query.eq('user_id', filters.userId);
+  if (filters.entity) query = query.eq('entity', filters.entity);
+  if (filters.startDate) query = query.gte('business_date', filters.startDate);
+  if (filters.endDate) query = query.lte('business_date', filters.endDate);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+// --- APP SETTINGS ---
+
+export const loadBusinessDaySettings = async (): Promise<BusinessDaySettings> => {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', 'business_day')
+    .maybeSingle();
+
+  if (error) throw error;
+  businessDay = { ...DEFAULT_BUSINESS_DAY, ...(data?.value || {}) };
+  return businessDay;
+};
+
+export const saveBusinessDaySettings = async (
+  settings: BusinessDaySettings
+): Promise<{ success: boolean; message: string }> => {
+  if (!can(sessionUser, 'MANAGE_SETTINGS')) {
+    return { success: false, message: permissionDeniedMessage('MANAGE_SETTINGS') };
+  }
+
+  // Reject unknown timezones before they break every date calculation
+  try {
+    getBusinessDateString(new Date(), settings);
+  } catch {
+    return { success: false, message: `Unknown timezone: ${settings.timezone}` };
+  }
+
+  if (!Number.isInteger(settings.cutoverHour) || settings.cutoverHour < 0 || settings.cutoverHour > 23) {
+    return { success: false, message: 'Cutover hour must be between 0 and 23.' };
+  }
+
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({ key: 'business_day', value: settings, updated_at: new Date().toISOString() });
+
+  if (error) {
+    return { success: false, message: error.message };
+  }
+
+  businessDay = settings;
+  return { success: true, message: 'Business day settings saved.' };
+};
+
+export const CASH_PAYMENT_METHOD = 'CASH';
+
+export const DEFAULT_PAYMENT_METHODS: PaymentMethod[] = [
+  { id: CASH_PAYMENT_METHOD, label: 'Cash' },
+  { id: 'JAZZCASH', label: 'JazzCash' },
+  { id: 'EASYPAISA', label: 'Easypaisa' },
+  { id: 'BANK', label: 'Bank Transfer' },
+  { id: 'CARD', label: 'Card' }
+];
+
+export const loadPaymentMethods = async (): Promise<PaymentMethod[]> => {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', 'payment_methods')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.value || DEFAULT_PAYMENT_METHODS;
+};
+
+export const savePaymentMethods = async (
+  methods: PaymentMethod[]
+): Promise<{ success: boolean; message: string }> => {
+  if (!can(sessionUser, 'MANAGE_SETTINGS')) {
+    return { success: false, message: permissionDeniedMessage('MANAGE_SETTINGS') };
+  }
+  if (!methods.some(m => m.id === CASH_PAYMENT_METHOD)) {
+    return { success: false, message: 'Cash cannot be removed.' };
+  }
+  if (methods.some(m => !m.id || !m.label.trim())) {
+    return { success: false, message: 'Every payment method needs a name.' };
+  }
+  if (new Set(methods.map(m => m.id)).size !== methods.length) {
+    return { success: false, message: 'Payment method names must be different.' };
+  }
+
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({ key: 'payment_methods', value: methods, updated_at: new Date().toISOString() });
+
+  if (error) {
+    return { success: false, message: error.message };
+  }
+  return { success: true, message: 'Payment methods saved.' };
+};
+
 // ------------------------------------------------------------------
 // DATA MANAGEMENT - BULK DELETE OPERATIONS
 // ------------------------------------------------------------------
@@ -725,6 +2144,10 @@ export const deleteUser = async (id: number) => {
 export type DeleteDataType = 'transactions' | 'closings' | 'stock_in' | 'expenses' | 'income' | 'withdrawals' | 'all';
 
 export const deleteDataByType = async (type: DeleteDataType): Promise<{ success: boolean; message: string; deleted: number }> => {
+  if (!can(sessionUser, 'DELETE_DATA')) {
+    return { success: false, message: permissionDeniedMessage('DELETE_DATA'), deleted: 0 };
+  }
+
   try {
     let deleted = 0;
 
@@ -822,6 +2245,10 @@ export const deleteDataByType = async (type: DeleteDataType): Promise<{ success:
 };
 
 export const resetProductStock = async (): Promise<{ success: boolean; message: string }> => {
+  if (!can(sessionUser, 'DELETE_DATA')) {
+    return { success: false, message: permissionDeniedMessage('DELETE_DATA') };
+  }
+
   try {
     const { error } = await supabase
       .from('products')
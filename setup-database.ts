@@ -1,4 +1,4 @@
-import { supabase } from './services/supabase';
+import { supabase, loginUser } from './services/supabase';
 
 /**
  * Database Setup Script
@@ -9,8 +9,31 @@ async function setupDatabase() {
   console.log('🚀 Starting database setup...\n');
 
   try {
-    // 1. Add Expense Categories
-    console.log('📝 Adding Expense Categories...');
+    // 1. Add Default Admin User (allowed without a session only while users is empty)
+    console.log('👤 Adding Default Admin User...');
+    // PIN is hashed by the create_user database function
+    const { data: userId, error: userError } = await supabase.rpc('create_user', {
+      p_name: 'Administrator',
+      p_username: 'admin',
+      p_role: 'OWNER',
+      p_permissions: ['*'],
+      p_pin: '1234'
+    });
+
+    if (userError) {
+      console.error('❌ Error adding user:', userError);
+    } else {
+      console.log(`✅ Added user: Administrator (id ${userId})`);
+    }
+
+    // Everything else is protected by row level security, so sign in as admin
+    const login = await loginUser('admin', '1234');
+    if (!login.success) {
+      throw new Error(`Could not sign in as admin: ${login.message}`);
+    }
+
+    // 2. Add Expense Categories
+    console.log('\n📝 Adding Expense Categories...');
     const expenseCategories = [
       { name: 'Utilities', type: 'EXPENSE' },
       { name: 'Salaries', type: 'EXPENSE' },
@@ -32,7 +55,7 @@ async function setupDatabase() {
       console.log(`✅ Added ${expData?.length} expense categories`);
     }
 
-    // 2. Add Income Categories
+    // 3. Add Income Categories
     console.log('\n📝 Adding Income Categories...');
     const incomeCategories = [
       { name: 'Product Sales', type: 'INCOME' },
@@ -51,7 +74,7 @@ async function setupDatabase() {
       console.log(`✅ Added ${incData?.length} income categories`);
     }
 
-    // 3. Add Sample Products
+    // 4. Add Sample Products
     console.log('\n📦 Adding Sample Products...');
     const products = [
       { name: 'Milk (1L)', unit: 'Liter', sale_price: 2.50, current_opening_stock: 0 },
@@ -72,27 +95,6 @@ async function setupDatabase() {
       console.log(`✅ Added ${prodData?.length} products`);
     }
 
-    // 4. Add Default Admin User
-    console.log('\n👤 Adding Default Admin User...');
-    const defaultUser = {
-      username: 'admin',
-      pin: '1234',
-      name: 'Administrator',
-      role: 'OWNER',
-      permissions: ['*']
-    };
-
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .insert([defaultUser])
-      .select();
-
-    if (userError) {
-      console.error('❌ Error adding user:', userError);
-    } else {
-      console.log(`✅ Added user: ${userData?.[0]?.name}`);
-    }
-
     console.log('\n🎉 Database setup completed successfully!');
     console.log('\n📋 Login Credentials:');
     console.log('   Username: admin');
@@ -1,10 +1,23 @@
 export interface User {
   id?: number;
-  pin: string;
   name: string;
   username?: string;
   role: string;
-  permissions?: string[];
+  permissions?: string[];          // Extra grants on top of the role
+  role_id?: number | null;          // Custom role (see Role); null for Owner/Admin/Manager
+  denied_permissions?: string[];    // Role grants removed for this user only
+  role_permissions?: string[];      // Filled from the role when users are fetched
+  // Login lockout state (PIN hash is never sent to the client)
+  failed_attempts?: number;
+  locked_until?: string | null;
+}
+
+// Named role with a set of view/action permissions, assigned to staff
+export interface Role {
+  id: number;
+  name: string;
+  permissions: string[];
+  created_at?: string;
 }
 
 export interface Product {
@@ -12,7 +25,104 @@ export interface Product {
   name: string;
   unit?: string;
   sale_price: number;
+  cost_price?: number | null; // last unit cost paid, set by each stock-in
   current_opening_stock: number;
+  reorder_point?: number | null; // flag for reorder at or below this much stock
+  target_level?: number | null;  // reorder up to this level
+}
+
+// A product at or below its reorder point
+export interface LowStockItem {
+  product: Product;
+  onHand: number;
+  orderQuantity: number;
+}
+
+export interface Supplier {
+  id: number;
+  name: string;
+  phone?: string | null;
+  notes?: string | null;
+  created_at?: string;
+  // Products this supplier delivers, with their usual price
+  supplier_products?: SupplierProduct[];
+}
+
+export interface SupplierProduct {
+  product_id: number;
+  default_cost?: number | null;
+}
+
+export type SupplierPaymentMethod = 'CASH' | 'BANK';
+
+// Cash payments are also recorded as a cash withdrawal (withdrawal_id)
+export interface SupplierPayment {
+  id: number;
+  supplier_id: number | null;
+  amount: number;
+  method: SupplierPaymentMethod;
+  transaction_id?: number | null; // delivery being settled; null = on account
+  withdrawal_id?: number | null;
+  note?: string | null;
+  paid_by?: number | null;
+  date_str: string;
+  created_at?: string;
+}
+
+// Supplier statement (see buildSupplierStatement in services/supabase.ts)
+export interface SupplierStatementLine {
+  date_str: string;
+  created_at?: string;
+  kind: 'DELIVERY' | 'RETURN' | 'PAYMENT';
+  description: string;
+  amount: number;  // + owed to supplier, - paid or returned
+  balance: number; // running balance after this line
+}
+
+export interface OpenDelivery {
+  delivery: Transaction;
+  total: number;       // delivery amount less its returns
+  outstanding: number;
+  ageDays: number;
+}
+
+export interface SupplierStatement {
+  lines: SupplierStatementLine[];
+  openDeliveries: OpenDelivery[];
+  outstanding: number; // negative = paid in advance
+  ageing: { label: string; amount: number }[];
+}
+
+export interface Customer {
+  id: number;
+  name: string;
+  phone?: string | null;
+  notes?: string | null;
+  created_at?: string;
+}
+
+// SALE = goods taken on credit (udhaar), PAYMENT = customer paid back in cash
+export type CustomerEntryType = 'SALE' | 'PAYMENT';
+
+// Never edited; a mistake is reversed with a negative row (is_return/return_of)
+export interface CustomerEntry {
+  id?: number;
+  customer_id: number;
+  type: CustomerEntryType;
+  amount: number;
+  note?: string | null;
+  date_str: string;
+  recorded_by?: number | null;
+  is_return?: boolean;
+  return_of?: number | null;
+  return_reason?: string | null;
+  created_at?: string;
+  has_been_returned?: boolean;
+  customers?: { name: string };
+}
+
+export interface CustomerStatementLine extends CustomerEntry {
+  balance: number; // running amount the customer owes after this entry
 }
 
 export interface Category {
@@ -22,7 +132,13 @@ export interface Category {
   parent_id?: number | null;
 }
 
-export type TransactionType = 'STOCK_IN' | 'EXPENSE' | 'INCOME';
+export type TransactionType = 'STOCK_IN' | 'EXPENSE' | 'INCOME' | 'ADJUSTMENT' | 'WASTAGE';
+
+// Why an ADJUSTMENT changed stock (transactions.reason_code)
+export type AdjustmentReason = 'COUNT_CORRECTION' | 'DAMAGE' | 'THEFT' | 'FOUND';
+
+// Why stock was written off as WASTAGE
+export type WastageReason = 'EXPIRED' | 'SPILLED' | 'DAMAGED';
 
 export interface Transaction {
   id?: number;
@@ -39,6 +155,13 @@ export interface Transaction {
   is_return?: boolean;
   return_of?: number | null;
   return_reason?: string | null;
+  // ADJUSTMENT (signed quantity) and WASTAGE (quantity lost): reason is required
+  reason_code?: string | null;
+  // STOCK_IN only: optional lot details (YYYY-MM-DD expiry)
+  batch_code?: string | null;
+  expiry_date?: string | null;
+  unit_cost?: number | null; // STOCK_IN: price paid per unit (amount = quantity x unit_cost)
+  supplier_id?: number | null; // STOCK_IN: who delivered it (returns keep the same supplier)
   // UI helper - set by fetch functions
   has_been_returned?: boolean;
   // For join queries
@@ -62,6 +185,79 @@ export interface DailyClosing {
   report_json?: any;
   next_day_opening_cash?: number | null;
   opening_cash?: number | null;
+  cost_of_goods?: number | null; // sold quantities x unit cost, set by the final closing
+  payments?: Record<string, number> | null; // received per payment method id, incl. CASH
+  version?: number; // goes up each time the owner reopens the locked day
+}
+
+// A locked closing as it was before the owner reopened it
+export interface ClosingVersion {
+  id: number;
+  closing_id: number;
+  date_str: string;
+  version: number;
+  closing: DailyClosing;
+  reason: string;
+  reopened_by?: number | null;
+  reopened_by_name?: string | null;
+  reopened_at: string;
+}
+
+// One product in a closing's report_json.closingStock. Prices are snapshots
+// taken at closing time; older closings only have productId/newOpeningStock.
+export interface ClosingStockItem {
+  productId: number;
+  newOpeningStock: number;
+  openingStock?: number; // product's opening stock that day, kept by the database
+  sold?: number;
+  salePrice?: number | null;
+  unitCost?: number | null;
+}
+
+// A product's stock movement on one locked day (daily_stock_snapshots).
+// opening + stock_in - stock_returns + adjustments - wastage - sold = closing
+export interface StockSnapshot {
+  product_id: number;
+  date_str: string;
+  opening: number;
+  stock_in: number;
+  stock_returns: number;
+  adjustments: number;
+  wastage: number;
+  sold: number;
+  closing: number;
+  sale_price: number | null;
+  unit_cost: number | null;
+  previous_closing?: number | null; // closing of the product's snapshot before this one (stock_on_hand only)
+}
+
+// Stock and cash counts kept with a shift at handover (shifts.report_json)
+export interface ShiftReport {
+  closingStock: ClosingStockItem[];
+  cashCount?: CashCount;
+  payments: Record<string, number>; // received per payment method id, incl. CASH
+}
+
+// One cashier's part of the day, from opening float to handover
+export interface Shift {
+  id: number;
+  date_str: string;
+  cashier_id: number | null;
+  cashier_name: string | null;
+  opening_float: number;
+  opened_at: string;
+  closed_at?: string | null;  // null while the shift is running
+  closed_by?: number | null;
+  handed_to?: number | null;
+  handed_to_name?: string | null;
+  cash_counted?: number | null;
+  day_sales?: number | null;    // day totals at handover
+  day_net_cash?: number | null;
+  sales?: number | null;        // this shift only
+  expected_cash?: number | null;
+  variance?: number | null;     // counted - expected; negative = short
+  report_json?: ShiftReport | null;
+  notes?: string | null;
 }
 
 export interface CashWithdrawal {
@@ -73,6 +269,54 @@ export interface CashWithdrawal {
   created_at?: string;
 }
 
+// One row of audit_log, written by database triggers on every change
+export interface AuditEntry {
+  id: number;
+  created_at: string;
+  business_date: string;
+  user_id: number | null;
+  user_name: string | null;
+  entity: string;        // table name, e.g. 'products'
+  entity_id: string | null;
+  action: 'INSERT' | 'UPDATE' | 'DELETE';
+  before_data: Record<string, any> | null;
+  after_data: Record<string, any> | null;
+}
+
+// Drawer counted note by note (report_json.cashCount)
+export interface CashCount {
+  counts: Record<number, number>; // note value -> number of notes
+  coins: number;                  // coins entered as one amount
+}
+
+// Way customers pay (Settings > Business). CASH is the drawer and always present.
+export interface PaymentMethod {
+  id: string;    // e.g. 'JAZZCASH'; key in DailyClosing.payments
+  label: string;
+}
+
+// Business day: which calendar date counts as "today" for the shop
+export interface BusinessDaySettings {
+  timezone: string;     // IANA zone, e.g. 'Asia/Karachi'
+  cutoverHour: number;  // 0-23; entries before this hour belong to the previous day
+}
+
+// Actions checked by services/permissions.ts (on top of screen access)
+export type PermissionAction =
+  | 'RETURN_TRANSACTION'
+  | 'RECORD_WITHDRAWAL'
+  | 'LOCK_FINAL_CLOSING'
+  | 'ADJUST_STOCK'
+  | 'DELETE_DATA'
+  | 'MANAGE_USERS'
+  | 'MANAGE_CATEGORIES'
+  | 'MANAGE_PRODUCTS'
+  | 'MANAGE_SETTINGS'
+  | 'VIEW_AUDIT_LOG'
+  | 'MANAGE_SUPPLIERS'
+  | 'PAY_SUPPLIERS'
+  | 'BACKDATE_ENTRIES';
+
 export enum ViewState {
   LOGIN = 'LOGIN',
   DASHBOARD = 'DASHBOARD',
@@ -83,6 +327,8 @@ export enum ViewState {
   PRODUCTS = 'PRODUCTS',
   REPORTS = 'REPORTS',
   SETTINGS = 'SETTINGS',
+  SUPPLIERS = 'SUPPLIERS',
+  CUSTOMERS = 'CUSTOMERS',
 }
 
 // Report Types
@@ -99,6 +345,26 @@ export interface DailyReport {
   incomeCount: number;
 }
 
+// Stock received in one STOCK_IN, used up first-in-first-out at each final
+// closing. Lots without a source transaction hold stock from before lot
+// tracking (or found stock).
+export interface StockLot {
+  id: number;
+  product_id: number;
+  transaction_id?: number | null;
+  batch_code?: string | null;
+  expiry_date?: string | null;
+  received_date: string;
+  quantity_received: number;
+  quantity_remaining: number;
+  created_at?: string;
+  // For join queries
+  products?: {
+    name: string;
+    unit?: string;
+  };
+}
+
 export interface TransactionHistory {
   id: number;
   type: string;